@@ -1,5 +1,17 @@
 // Main entry point - re-export the agent classes
 export { OpenAIAgent } from './src/openai-agent.js';
-export { MCPClient } from './src/mcp-client.js';
-export type { AgentConfig } from './src/openai-agent.js';
-export type { MCPTool, MCPResource } from './src/mcp-client.js';
\ No newline at end of file
+export { MCPClient, BROWSER_MCP_SERVER } from './src/mcp-client.js';
+export { MCPClientPool, loadMCPPoolConfig, createMCPConnectionFromEnv } from './src/mcp-client-pool.js';
+export { OpenAIProvider } from './src/openai-provider.js';
+export { AnthropicProvider } from './src/anthropic-provider.js';
+export { ScriptedProvider } from './src/scripted-provider.js';
+export { MockBrowser, registerMockBrowserTools, loadBrowserFixture } from './src/mock-browser-server.js';
+export { createProviderFromEnv, toolDefinitionsFromMCP } from './src/llm-provider.js';
+export { ApprovalQueue, DEFAULT_RISK_RULES, classifyToolCall } from './src/approval.js';
+export type { AgentConfig, ProcessOptions } from './src/openai-agent.js';
+export type { ApprovalConfig, ApprovalHandler, ApprovalRequest, RiskRule } from './src/approval.js';
+export type { MCPTool, MCPResource, MCPConnection, MCPServerConfig } from './src/mcp-client.js';
+export type { MCPPoolConfig, PoolServerConfig, ServerHealth } from './src/mcp-client-pool.js';
+export type { LLMProvider, LLMMessage, LLMRequest, LLMResponse, LLMToolCall, LLMToolDefinition, LLMUsage } from './src/llm-provider.js';
+export type { ScriptedStep, ScriptFile } from './src/scripted-provider.js';
+export type { BrowserFixture, FixturePage, FixtureElement, MockBrowserAction } from './src/mock-browser-server.js';
\ No newline at end of file
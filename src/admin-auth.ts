@@ -0,0 +1,36 @@
+import type { RequestHandler } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+
+/**
+ * Admin Auth
+ * Static bearer token for operator endpoints (approvals, session wallets, the remote
+ * signer). Tokens are compared by SHA-256 in constant time, so neither their content
+ * nor their length leaks through response timing.
+ */
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Whether an Authorization header carries the token
+ */
+export function bearerTokenMatches(header: string | undefined, token: string): boolean {
+  const presented = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  return timingSafeEqual(sha256(presented), sha256(token));
+}
+
+/**
+ * Middleware answering 401 unless the request carries the admin token
+ */
+export function requireAdminToken(token: string): RequestHandler {
+  if (!token) {
+    throw new Error("An admin token is required");
+  }
+  return (req, res, next) => {
+    if (!bearerTokenMatches(req.header("Authorization"), token)) {
+      return res.status(401).set("WWW-Authenticate", "Bearer").json({ error: "Missing or invalid admin token" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,203 @@
+import { randomUUID } from 'crypto';
+import type { AgentOutcome } from './agent-result';
+import type { RunUsage } from './agent-usage';
+
+/**
+ * Agent Events
+ * What an agent run does, as typed events in order: the run starting, each model
+ * response, each tool call and its result, repair prompts, the final answer, errors,
+ * and the run finishing. Runs hand them to ProcessOptions.onEvent; AgentEventStream
+ * turns them into an async iterator.
+ */
+
+export type AgentEventBody =
+  | {
+      type: 'run_started';
+      task: string;
+      provider: string;
+      model: string;
+      /** Key of the recording being replayed */
+      replay?: string;
+    }
+  | {
+      type: 'model_response';
+      turn: number;
+      maxTurns: number;
+      model: string;
+      /** What the model said alongside its tool calls, or its final answer */
+      content?: string;
+      toolCalls: string[];
+      promptTokens?: number;
+      completionTokens?: number;
+      durationMs: number;
+    }
+  | {
+      type: 'tool_call';
+      /** LLM turn, or the recorded step when replayed */
+      turn: number;
+      tool: string;
+      args: Record<string, any>;
+      replayed?: boolean;
+    }
+  | {
+      type: 'tool_result';
+      turn: number;
+      tool: string;
+      durationMs: number;
+      /** Start of the result text */
+      preview?: string;
+      error?: string;
+      replayed?: boolean;
+    }
+  | {
+      type: 'retry';
+      turn: number;
+      /** Why the model is asked again (a rejected final answer, or a recorded step that no longer matches) */
+      reason: string;
+      attempt: number;
+      maxAttempts: number;
+    }
+  | {
+      type: 'final_answer';
+      turn: number;
+      content: string;
+    }
+  | {
+      type: 'error';
+      message: string;
+    }
+  | {
+      type: 'run_finished';
+      status: AgentOutcome;
+      summary?: string;
+      usage: RunUsage;
+    };
+
+export type AgentEventType = AgentEventBody['type'];
+
+export type AgentEvent = AgentEventBody & {
+  /** Same for every event of one run */
+  runId: string;
+  /** 1-based position in the run */
+  seq: number;
+  at: string;
+};
+
+export type AgentEventListener = (event: AgentEvent) => void;
+
+const PREVIEW_CHARS = 500;
+
+/**
+ * Start of a tool result for tool_result events
+ */
+export function previewOf(result: unknown): string | undefined {
+  if (result === undefined || result === null) {
+    return undefined;
+  }
+  const text = typeof result === 'string' ? result : JSON.stringify(result);
+  return text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}…` : text;
+}
+
+/**
+ * Numbers and timestamps the events of one run for its listener. A listener that throws
+ * is logged and does not stop the run.
+ */
+export function runEvents(listener?: AgentEventListener): (body: AgentEventBody) => void {
+  const runId = randomUUID();
+  let seq = 0;
+  return body => {
+    if (!listener) {
+      return;
+    }
+    try {
+      listener({ ...body, runId, seq: ++seq, at: new Date().toISOString() } as AgentEvent);
+    } catch (error) {
+      console.warn(`⚠️  Agent event listener failed on ${body.type}:`, error);
+    }
+  };
+}
+
+/**
+ * One-line description of an event for logs and progress messages
+ */
+export function describeAgentEvent(event: AgentEventBody): string {
+  switch (event.type) {
+    case 'run_started':
+      return event.replay
+        ? `Replaying recording ${event.replay} (${event.provider}, ${event.model})`
+        : `Run started (${event.provider}, ${event.model})`;
+    case 'model_response':
+      return event.toolCalls.length > 0
+        ? `Turn ${event.turn}/${event.maxTurns}: model requested ${event.toolCalls.join(', ')}`
+        : `Turn ${event.turn}/${event.maxTurns}: model answered`;
+    case 'tool_call':
+      return `${event.replayed ? 'Replayed step' : 'Turn'} ${event.turn}: calling ${event.tool}`;
+    case 'tool_result':
+      return `${event.tool} ${event.error ? `failed (${event.error})` : 'done'} in ${event.durationMs}ms`;
+    case 'retry':
+      return `Retry ${event.attempt}/${event.maxAttempts}: ${event.reason}`;
+    case 'final_answer':
+      return `Final answer after ${event.turn} turn(s)`;
+    case 'error':
+      return `Run failed: ${event.message}`;
+    case 'run_finished':
+      return `Run ${event.status}${event.summary ? `: ${event.summary}` : ''}`;
+  }
+}
+
+/**
+ * Async iterator over the events of one run: pass `push` as the run's onEvent and
+ * iterate with `for await`. Iteration ends after run_finished, or throws when the run
+ * fails before it. Breaking out of the loop stops the iteration, not the run.
+ */
+export class AgentEventStream implements AsyncIterable<AgentEvent> {
+  private buffer: AgentEvent[] = [];
+  private waiting: Array<() => void> = [];
+  private done = false;
+  private failure?: Error;
+
+  readonly push: AgentEventListener = event => {
+    if (this.done) {
+      return;
+    }
+    this.buffer.push(event);
+    if (event.type === 'run_finished') {
+      this.done = true;
+    }
+    this.wake();
+  };
+
+  /**
+   * End the stream; with an error, iteration throws it once the buffered events are read
+   */
+  close(error?: Error): void {
+    if (!this.done) {
+      this.done = true;
+      this.failure = error;
+      this.wake();
+    }
+  }
+
+  private wake(): void {
+    for (const resolve of this.waiting.splice(0)) {
+      resolve();
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<AgentEvent> {
+    while (true) {
+      const event = this.buffer.shift();
+      if (event) {
+        yield event;
+        continue;
+      }
+      if (this.done) {
+        if (this.failure) {
+          throw this.failure;
+        }
+        return;
+      }
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+  }
+}
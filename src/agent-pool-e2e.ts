@@ -0,0 +1,92 @@
+import assert from 'assert';
+import type { OpenAIAgent } from './openai-agent';
+import { AgentPool, AgentPoolConfig, AgentPoolFullError, AgentPoolTimeoutError } from './agent-pool';
+import { runChecks } from './e2e-checks';
+
+/**
+ * Agent pool checks with stand-in agents: who gets the next session, when requests are
+ * turned away, and how long they wait.
+ *
+ * Usage: npx tsx src/agent-pool-e2e.ts
+ */
+
+function poolFor(config: Partial<AgentPoolConfig> = {}): AgentPool {
+  return new AgentPool(
+    { size: 1, maxQueue: 10, maxQueuePerTenant: 10, maxWaitMs: 5000, ...config },
+    session => ({ session, initialize: async () => undefined, cleanup: async () => undefined }) as unknown as OpenAIAgent
+  );
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+runChecks('Agent pool', [
+  ['waiting tenants take turns, each in its own order', async () => {
+    const pool = poolFor();
+    const first = pool.enqueue('busy');
+    await first.wait();
+
+    const order: string[] = [];
+    const requests = [['a', 1], ['a', 2], ['a', 3], ['b', 1], ['c', 1], ['b', 2]] as const;
+    const leases = requests.map(([tenant, n]) => {
+      const lease = pool.enqueue(tenant);
+      lease.wait().then(() => {
+        order.push(`${tenant}${n}`);
+        setImmediate(() => lease.release());
+      });
+      return lease;
+    });
+
+    first.release();
+    while (order.length < leases.length) {
+      await tick();
+    }
+    assert.deepStrictEqual(order, ['a1', 'b1', 'c1', 'a2', 'b2', 'a3']);
+    await tick();
+    assert.strictEqual(pool.stats().busy, 0);
+  }],
+
+  ['a full queue, or a tenant\'s full share of it, turns requests away', async () => {
+    const pool = poolFor({ maxQueue: 3, maxQueuePerTenant: 2 });
+    assert.strictEqual(pool.checkCapacity('a'), null);
+    await pool.enqueue('busy').wait();
+
+    pool.enqueue('a');
+    pool.enqueue('a');
+    // Checked before payment with the payer as tenant
+    assert.match(pool.checkCapacity('a')?.message || '', /You already have 2 request\(s\) waiting/);
+    assert.strictEqual(pool.checkCapacity('b'), null);
+    assert.throws(() => pool.enqueue('a'), AgentPoolFullError);
+
+    pool.enqueue('b');
+    const full = pool.checkCapacity('c');
+    assert.ok(full instanceof AgentPoolFullError);
+    assert.match(full.message, /3 request\(s\) are waiting/);
+    assert.ok(full.retryAfterSeconds >= 1);
+  }],
+
+  ['a request gives up after maxWait and leaves the queue', async () => {
+    const pool = poolFor({ maxWaitMs: 50 });
+    await pool.enqueue('busy').wait();
+    const waiting = pool.enqueue('a');
+    assert.strictEqual(pool.queued, 1);
+    await assert.rejects(waiting.wait(), AgentPoolTimeoutError);
+    assert.strictEqual(pool.queued, 0);
+  }],
+
+  ['an aborted request leaves the queue, and the session goes to the next one', async () => {
+    const pool = poolFor();
+    const first = pool.enqueue('busy');
+    await first.wait();
+
+    const controller = new AbortController();
+    const aborted = pool.enqueue('a').wait(controller.signal);
+    const next = pool.enqueue('b');
+    controller.abort(new Error('Client went away'));
+    await assert.rejects(aborted, /Client went away/);
+    assert.deepStrictEqual(pool.stats().queuedByTenant, { b: 1 });
+
+    first.release();
+    await next.wait();
+    assert.strictEqual(pool.stats().sessions[0].tenant, 'b');
+  }],
+]);
@@ -0,0 +1,355 @@
+import type { OpenAIAgent } from './openai-agent';
+
+/**
+ * Agent Pool
+ * A fixed number of agent sessions, each with its own MCP connection (and so its own
+ * browser), handed out one run at a time. Requests that find every session busy wait
+ * in a queue that is FIFO per tenant and round-robin across tenants, so one caller with
+ * many requests can't starve the others. A full queue turns requests away at once, and
+ * a request that waits too long gives up.
+ */
+
+export interface AgentPoolConfig {
+  /** Sessions (agents with their own browser) running at once */
+  size: number;
+  /** Requests waiting for a session; more are turned away */
+  maxQueue: number;
+  /** Requests one tenant may have waiting */
+  maxQueuePerTenant: number;
+  /** How long a request waits for a session before giving up */
+  maxWaitMs: number;
+}
+
+/**
+ * A place in the queue, then a session
+ */
+export interface AgentLease {
+  /**
+   * The session's agent once it is this request's turn. Rejects after maxWaitMs, or when
+   * the signal aborts first (the request then leaves the queue).
+   */
+  wait(signal?: AbortSignal): Promise<OpenAIAgent>;
+  /** Give the session back, or leave the queue; safe to call more than once */
+  release(): void;
+}
+
+export interface AgentPoolStats {
+  size: number;
+  busy: number;
+  queued: number;
+  /** Waiting requests by tenant */
+  queuedByTenant: Record<string, number>;
+  sessions: Array<{ session: number; busy: boolean; tenant?: string; since?: string }>;
+}
+
+/**
+ * No room in the queue: answer 503 with Retry-After
+ */
+export class AgentPoolFullError extends Error {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = 'AgentPoolFullError';
+  }
+}
+
+/**
+ * Waited maxWaitMs without getting a session
+ */
+export class AgentPoolTimeoutError extends Error {
+  constructor(readonly waitedMs: number) {
+    super(`No agent session became free within ${Math.round(waitedMs / 1000)}s`);
+    this.name = 'AgentPoolTimeoutError';
+  }
+}
+
+interface Session {
+  index: number;
+  agent?: Promise<OpenAIAgent>;
+  busy: boolean;
+  tenant?: string;
+  since?: number;
+}
+
+interface Waiter {
+  tenant: string;
+  enqueuedAt: number;
+  grant: (session: Session) => void;
+  fail: (error: Error) => void;
+}
+
+// Starting guess for how long a run holds a session, before any has finished
+const INITIAL_HOLD_MS = 60_000;
+
+export class AgentPool {
+  private config: AgentPoolConfig;
+  private createAgent: (session: number) => OpenAIAgent;
+  private sessions: Session[];
+  /** Waiting requests per tenant; the Map's order is the round-robin order */
+  private waiting = new Map<string, Waiter[]>();
+  private averageHoldMs = INITIAL_HOLD_MS;
+
+  /**
+   * @param createAgent New (uninitialized) agent for a session number, 0-based; called
+   * on the session's first use, and again after its initialization failed
+   */
+  constructor(config: AgentPoolConfig, createAgent: (session: number) => OpenAIAgent) {
+    if (config.size < 1) {
+      throw new Error('Agent pool size must be at least 1');
+    }
+    this.config = config;
+    this.createAgent = createAgent;
+    this.sessions = Array.from({ length: config.size }, (_, index) => ({ index, busy: false }));
+  }
+
+  get queued(): number {
+    let queued = 0;
+    for (const waiters of this.waiting.values()) {
+      queued += waiters.length;
+    }
+    return queued;
+  }
+
+  /**
+   * Why a request from this tenant would be turned away right now, or null when it
+   * would get a session or a place in the queue
+   */
+  checkCapacity(tenant?: string): AgentPoolFullError | null {
+    if (this.sessions.some(session => !session.busy) && this.queued === 0) {
+      return null;
+    }
+    if (this.queued >= this.config.maxQueue) {
+      return new AgentPoolFullError(
+        `All ${this.config.size} agent session(s) are busy and ${this.queued} request(s) are waiting`,
+        this.retryAfterSeconds()
+      );
+    }
+    if (tenant !== undefined && (this.waiting.get(tenant)?.length || 0) >= this.config.maxQueuePerTenant) {
+      return new AgentPoolFullError(
+        `You already have ${this.config.maxQueuePerTenant} request(s) waiting for an agent session`,
+        this.retryAfterSeconds()
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Take a session, or a place in the queue. Throws AgentPoolFullError when the queue
+   * (or the tenant's share of it) is full.
+   */
+  enqueue(tenant: string): AgentLease {
+    const full = this.checkCapacity(tenant);
+    if (full) {
+      throw full;
+    }
+
+    let session: Session | undefined;
+    let released = false;
+    let leave: (() => void) | undefined;
+
+    const agent = new Promise<OpenAIAgent>((resolve, reject) => {
+      const grant = (granted: Session) => {
+        session = granted;
+        granted.busy = true;
+        granted.tenant = tenant;
+        granted.since = Date.now();
+        if (released) {
+          // Left while the session was being handed over
+          return this.free(granted);
+        }
+        this.agentOf(granted).then(resolve, error => {
+          this.free(granted);
+          reject(error);
+        });
+      };
+
+      const idle = this.queued === 0 ? this.sessions.find(s => !s.busy) : undefined;
+      if (idle) {
+        return grant(idle);
+      }
+
+      const waiter: Waiter = {
+        tenant,
+        enqueuedAt: Date.now(),
+        grant: granted => {
+          cleanup();
+          grant(granted);
+        },
+        fail: error => {
+          cleanup();
+          reject(error);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.remove(waiter);
+        waiter.fail(new AgentPoolTimeoutError(Date.now() - waiter.enqueuedAt));
+      }, this.config.maxWaitMs);
+      const cleanup = () => clearTimeout(timer);
+      leave = () => {
+        if (this.remove(waiter)) {
+          waiter.fail(new Error('Left the agent queue'));
+        }
+      };
+
+      const waiters = this.waiting.get(tenant) || [];
+      waiters.push(waiter);
+      this.waiting.set(tenant, waiters);
+      console.log(`⏳ Agent request from ${tenant} queued (${this.queued} waiting, ${this.config.size} session(s) busy)`);
+    });
+    // Callers that leave before their turn never look at the promise
+    agent.catch(() => {});
+
+    const release = () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      if (session) {
+        this.free(session);
+      } else {
+        leave?.();
+      }
+    };
+
+    return {
+      wait: signal => {
+        if (!signal) {
+          return agent;
+        }
+        return new Promise<OpenAIAgent>((resolve, reject) => {
+          const onAbort = () => {
+            // Still waiting: give up the place. A session already handed over stays until release().
+            if (!session) {
+              release();
+            }
+            reject(signal.reason);
+          };
+          if (signal.aborted) {
+            return onAbort();
+          }
+          signal.addEventListener('abort', onAbort, { once: true });
+          agent.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+      },
+      release,
+    };
+  }
+
+  /**
+   * Run `fn` with a session's agent once it is this tenant's turn
+   */
+  async run<T>(tenant: string, fn: (agent: OpenAIAgent) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const lease = this.enqueue(tenant);
+    try {
+      return await fn(await lease.wait(signal));
+    } finally {
+      lease.release();
+    }
+  }
+
+  /**
+   * Estimated seconds until a place in the queue opens up
+   */
+  retryAfterSeconds(): number {
+    const rounds = Math.ceil((this.queued + 1) / this.config.size);
+    return Math.min(Math.max(Math.ceil(rounds * this.averageHoldMs / 1000), 1), 600);
+  }
+
+  stats(): AgentPoolStats {
+    return {
+      size: this.config.size,
+      busy: this.sessions.filter(session => session.busy).length,
+      queued: this.queued,
+      queuedByTenant: Object.fromEntries([...this.waiting].map(([tenant, waiters]) => [tenant, waiters.length])),
+      sessions: this.sessions.map(session => ({
+        session: session.index,
+        busy: session.busy,
+        ...(session.busy ? { tenant: session.tenant, since: new Date(session.since!).toISOString() } : {}),
+      })),
+    };
+  }
+
+  /**
+   * Disconnect every session's agent
+   */
+  async close(): Promise<void> {
+    for (const waiters of [...this.waiting.values()]) {
+      for (const waiter of [...waiters]) {
+        this.remove(waiter);
+        waiter.fail(new Error('Agent pool closed'));
+      }
+    }
+    await Promise.all(this.sessions.map(async session => {
+      const agent = await session.agent?.catch(() => undefined);
+      session.agent = undefined;
+      await agent?.cleanup();
+    }));
+  }
+
+  private agentOf(session: Session): Promise<OpenAIAgent> {
+    if (!session.agent) {
+      console.log(`🧩 Starting agent session ${session.index}`);
+      const agent = this.createAgent(session.index);
+      session.agent = agent.initialize().then(() => agent);
+      // A session that failed to start is started afresh next time
+      session.agent.catch(() => {
+        session.agent = undefined;
+      });
+    }
+    return session.agent;
+  }
+
+  /**
+   * Hand a session back and give it to the next tenant in turn
+   */
+  private free(session: Session): void {
+    if (!session.busy) {
+      return;
+    }
+    const heldMs = Date.now() - session.since!;
+    this.averageHoldMs = Math.round(this.averageHoldMs * 0.8 + heldMs * 0.2);
+    session.busy = false;
+    session.tenant = undefined;
+    session.since = undefined;
+
+    const next = this.waiting.entries().next();
+    if (next.done) {
+      return;
+    }
+    const [tenant, waiters] = next.value;
+    const waiter = waiters.shift()!;
+    // The tenant goes to the back of the round, behind every other waiting tenant
+    this.waiting.delete(tenant);
+    if (waiters.length > 0) {
+      this.waiting.set(tenant, waiters);
+    }
+    waiter.grant(session);
+  }
+
+  private remove(waiter: Waiter): boolean {
+    const waiters = this.waiting.get(waiter.tenant);
+    const index = waiters ? waiters.indexOf(waiter) : -1;
+    if (index < 0) {
+      return false;
+    }
+    waiters!.splice(index, 1);
+    if (waiters!.length === 0) {
+      this.waiting.delete(waiter.tenant);
+    }
+    return true;
+  }
+}
+
+/**
+ * Pool settings from AGENT_POOL_SIZE (default 1), AGENT_QUEUE_MAX (default 10),
+ * AGENT_QUEUE_MAX_PER_TENANT (default AGENT_QUEUE_MAX) and AGENT_QUEUE_MAX_WAIT_SECONDS
+ * (default 120)
+ */
+export function agentPoolConfigFromEnv(): AgentPoolConfig {
+  const maxQueue = parseInt(process.env.AGENT_QUEUE_MAX || '10', 10);
+  return {
+    size: parseInt(process.env.AGENT_POOL_SIZE || '1', 10),
+    maxQueue,
+    maxQueuePerTenant: parseInt(process.env.AGENT_QUEUE_MAX_PER_TENANT || String(maxQueue), 10),
+    maxWaitMs: parseInt(process.env.AGENT_QUEUE_MAX_WAIT_SECONDS || '120', 10) * 1000,
+  };
+}
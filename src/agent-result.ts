@@ -0,0 +1,168 @@
+import Ajv, { type ValidateFunction } from 'ajv';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { RunUsage } from './agent-usage';
+
+/**
+ * Typed agent results
+ * A task declares the shape of its data as a zod schema (or a plain JSON Schema). The
+ * agent asks the model for a { status, summary, data } envelope, validates it, and
+ * hands back one of four outcomes instead of free text.
+ */
+
+export const AGENT_OUTCOMES = ['success', 'failed', 'incomplete', 'needs_human'] as const;
+
+/**
+ * - success: the task is done and `data` matches the task's schema
+ * - failed: the task could not be done (or the answer never validated)
+ * - incomplete: the agent stopped early (turn limit) or only got part of the way
+ * - needs_human: a login, captcha or approval is in the way
+ */
+export type AgentOutcome = typeof AGENT_OUTCOMES[number];
+
+export type AgentResult<T = Record<string, any>> = (
+  | { status: 'success'; summary: string; data: T }
+  | { status: 'failed'; summary: string; error: string; data?: Record<string, any>; raw?: string }
+  | { status: 'incomplete'; summary: string; data?: Record<string, any> }
+  | { status: 'needs_human'; summary: string; data?: Record<string, any> }
+) & {
+  /** Tokens, steps and estimated LLM cost of the run */
+  usage?: RunUsage;
+};
+
+/**
+ * Shape of a task's `data`: a zod schema, or a JSON Schema object
+ */
+export type ResultSchema<T = any> = z.ZodType<T> | Record<string, any>;
+
+export type ParsedAnswer<T> = { ok: true; result: AgentResult<T> } | { ok: false; error: string };
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const compiled = new WeakMap<object, ValidateFunction>();
+
+function isZodSchema(schema: ResultSchema): schema is z.ZodTypeAny {
+  return typeof (schema as any)?.safeParse === 'function';
+}
+
+/**
+ * JSON Schema of a task's data
+ */
+export function resultJsonSchema(schema: ResultSchema): Record<string, any> {
+  if (!isZodSchema(schema)) {
+    return schema;
+  }
+  const { $schema, ...json } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>;
+  return json;
+}
+
+/**
+ * JSON Schema of the envelope the model answers with; `data` only has to match the
+ * task's schema on success
+ */
+export function envelopeJsonSchema(schema: ResultSchema): Record<string, any> {
+  return {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: [...AGENT_OUTCOMES] },
+      summary: { type: 'string' },
+      data: { anyOf: [resultJsonSchema(schema), { type: 'object' }] },
+    },
+    required: ['status', 'summary'],
+  };
+}
+
+/**
+ * Validate data against the schema; returns the (zod-parsed) data or the problems found
+ */
+function validateData<T>(schema: ResultSchema<T>, data: unknown): { ok: true; data: T } | { ok: false; error: string } {
+  if (isZodSchema(schema)) {
+    const parsed = schema.safeParse(data);
+    return parsed.success
+      ? { ok: true, data: parsed.data }
+      : { ok: false, error: parsed.error.issues.map(i => `${['data', ...i.path].join('.')}: ${i.message}`).join('; ') };
+  }
+
+  let validate = compiled.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    compiled.set(schema, validate);
+  }
+  return validate(data)
+    ? { ok: true, data: data as T }
+    : { ok: false, error: ajv.errorsText(validate.errors, { dataVar: 'data' }) };
+}
+
+/**
+ * Parse and validate the model's final answer (a raw JSON envelope, optionally fenced)
+ */
+export function parseAgentAnswer<T>(content: string, schema: ResultSchema<T>): ParsedAnswer<T> {
+  const text = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let envelope: any;
+  try {
+    envelope = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The answer is not valid JSON' };
+  }
+  if (!envelope || typeof envelope !== 'object' || Array.isArray(envelope)) {
+    return { ok: false, error: 'The answer must be a JSON object with status, summary and data' };
+  }
+  if (!AGENT_OUTCOMES.includes(envelope.status)) {
+    return { ok: false, error: `status must be one of ${AGENT_OUTCOMES.join(', ')} (got ${JSON.stringify(envelope.status)})` };
+  }
+  if (typeof envelope.summary !== 'string' || !envelope.summary) {
+    return { ok: false, error: 'summary must be a non-empty string' };
+  }
+
+  const summary: string = envelope.summary;
+  const data = envelope.data && typeof envelope.data === 'object' ? envelope.data : undefined;
+
+  switch (envelope.status as AgentOutcome) {
+    case 'success': {
+      const validated = validateData(schema, envelope.data ?? {});
+      if (!validated.ok) {
+        return { ok: false, error: `data does not match the result schema: ${validated.error}` };
+      }
+      return { ok: true, result: { status: 'success', summary, data: validated.data } };
+    }
+    case 'failed':
+      return { ok: true, result: { status: 'failed', summary, error: data?.error || summary, ...(data ? { data } : {}) } };
+    case 'incomplete':
+      return { ok: true, result: { status: 'incomplete', summary, ...(data ? { data } : {}) } };
+    case 'needs_human':
+      return { ok: true, result: { status: 'needs_human', summary, ...(data ? { data } : {}) } };
+  }
+}
+
+/**
+ * System prompt section describing the envelope and the task's data schema
+ */
+export function resultInstructions(schema: ResultSchema): string {
+  return `CRITICAL INSTRUCTION FOR FINAL OUTPUT:
+          When you are done, your final response MUST be a single raw JSON object (no markdown code blocks) of the form
+          {"status": "...", "summary": "...", "data": {...}}
+          - "status" is one of:
+            "success" (the task is done),
+            "failed" (it cannot be done; put the reason in data.error),
+            "incomplete" (you only got part of the way),
+            "needs_human" (a login, captcha, missing payment method or similar needs a person).
+          - "summary" is one sentence about what happened.
+          - On success, "data" MUST match this JSON Schema:
+          ${JSON.stringify(resultJsonSchema(schema))}`;
+}
+
+/**
+ * Flat { status, summary, data, usage } for tool and route outputs: the task input and
+ * any error are folded into `data`
+ */
+export function toTaskOutput(
+  result: AgentResult,
+  input: Record<string, any>
+): { status: AgentOutcome; summary: string; data: Record<string, any>; usage?: RunUsage } {
+  return {
+    status: result.status,
+    summary: result.summary,
+    data: { ...input, ...result.data, ...(result.status === 'failed' ? { error: result.error } : {}) },
+    ...(result.usage ? { usage: result.usage } : {}),
+  };
+}
@@ -0,0 +1,294 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { SetLevelRequestSchema, type LoggingLevel, type ServerNotification, type ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AgentStep } from "./openai-agent.js";
+import { AGENT_OUTCOMES, toTaskOutput } from "./agent-result.js";
+import { TaskTemplateRegistry, runTaskTemplate } from "./task-templates.js";
+import { formatUsage, runUsageSchema } from "./agent-usage.js";
+import { AgentPool, AgentPoolFullError } from "./agent-pool.js";
+import { sessionKeyOf } from "./session-wallets.js";
+import type { ApprovalHandler } from "./approval.js";
+import { type AgentEvent, describeAgentEvent } from "./agent-events.js";
+
+/**
+ * Agent Tools
+ * The MCP tools that run browser tasks with the agent (amazon_buy_product,
+ * uber_request_ride, run_task, list_task_templates, plus echo). Each call waits for a
+ * pooled agent session, reports its steps as progress notifications and its agent
+ * events as log messages, and answers with the run's typed outcome.
+ */
+
+export interface AgentToolsContext {
+  agents: AgentPool;
+  templates: TaskTemplateRegistry;
+  /** Approval handler for one tool call; the agents' own handler when omitted */
+  approvalHandlerFor?: (mcp: McpServer, relatedRequestId: string | number) => ApprovalHandler;
+}
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Progress notifications for one tool call (no-op when the client sent no progress token)
+ */
+export function progressFor(extra: ToolExtra) {
+  const token = extra._meta?.progressToken;
+  return (p: number, message: string) => {
+    if (token === undefined) return; // client didn't ask for progress
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken: token, progress: p, total: 100, message },
+    });
+    console.log(`[Progress ${p}/100] ${message}`);
+  };
+}
+
+// Lowest level each MCP server (session) asked for with logging/setLevel; "info" until it does
+const logLevels = new WeakMap<McpServer, LoggingLevel>();
+const LOG_SEVERITY: LoggingLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+
+/**
+ * Log level of an agent event: model responses and tool results are debug detail
+ */
+function agentEventLevel(event: AgentEvent): LoggingLevel {
+  switch (event.type) {
+    case "model_response":
+      return "debug";
+    case "tool_result":
+      return event.error ? "warning" : "debug";
+    case "retry":
+      return "warning";
+    case "error":
+      return "error";
+    default:
+      return "info";
+  }
+}
+
+/**
+ * Agent events of one tool call, forwarded as notifications/message logs on the call's
+ * own stream (logger "agent", the event as data)
+ */
+function agentLogFor(mcp: McpServer, extra: ToolExtra) {
+  return (event: AgentEvent) => {
+    const level = agentEventLevel(event);
+    if (LOG_SEVERITY.indexOf(level) < LOG_SEVERITY.indexOf(logLevels.get(mcp) || "info")) return;
+    extra.sendNotification({
+      method: "notifications/message",
+      params: { level, logger: "agent", data: { message: describeAgentEvent(event), ...event } },
+    }).catch(error => {
+      // The caller may have gone away; the run carries on
+      console.warn(`⚠️  Could not forward agent event ${event.type}: ${error?.message || error}`);
+    });
+  };
+}
+
+/**
+ * Progress after `steps` agent steps, starting at `from`. The number of steps isn't known
+ * up front, so each one closes part of the remaining gap to 90.
+ */
+export function stepProgress(from: number, steps: number): number {
+  return Math.round(from + (90 - from) * steps / (steps + 10));
+}
+
+/**
+ * Progress message for an agent step
+ */
+function describeStep(step: AgentStep): string {
+  if (step.type === "final") {
+    return `🏁 Agent finished after ${step.turn} turn(s)`;
+  }
+  if (step.replayed) {
+    return `⏯️ Replayed step ${step.turn}/${step.maxTurns}: ${step.tool}`;
+  }
+  return `🤖 Turn ${step.turn}: ${step.tool}${step.error ? ` failed (${step.error})` : ""}`;
+}
+
+/**
+ * Run a task template on a pooled agent session, waiting for one in the caller's turn;
+ * the typed outcome becomes the tool result
+ */
+async function runTemplateTool(
+  mcp: McpServer,
+  { agents, templates, approvalHandlerFor }: AgentToolsContext,
+  name: string,
+  params: Record<string, string>,
+  extra: ToolExtra,
+  failure: string
+) {
+  try {
+    const template = templates.get(name);
+    const progress = progressFor(extra);
+    let steps = 0;
+
+    const result = await agents.run(sessionKeyOf(extra) || "anonymous", agent => {
+      console.log(`\n🧭 ${template.title} started: ${JSON.stringify(params)}`);
+      return runTaskTemplate(agent, template, params, {
+        approvalHandler: approvalHandlerFor?.(mcp, extra.requestId),
+        onStep: step => progress(stepProgress(0, ++steps), describeStep(step)),
+        onEvent: agentLogFor(mcp, extra),
+        // notifications/cancelled from the client stops the agent
+        signal: extra.signal,
+      });
+    }, extra.signal);
+    const output = toTaskOutput(result, params);
+
+    console.log(`\n${result.status === "success" ? "✅" : "⚠️ "} ${template.title} ${result.status}: ${result.summary}`);
+    if (result.usage) {
+      console.log(`🧮 ${formatUsage(result.usage)}`);
+    }
+
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(output, null, 2) }],
+      structuredContent: output,
+    };
+  } catch (error: any) {
+    console.error(`\n❌ ${failure}:`, error);
+    const errorResult = {
+      status: "failed",
+      summary: failure,
+      data: {
+        ...params,
+        error: error?.message || String(error),
+        // Every agent session is busy and the queue is full: try again later
+        ...(error instanceof AgentPoolFullError ? { retryAfterSeconds: error.retryAfterSeconds } : {}),
+      },
+    };
+
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(errorResult, null, 2) }],
+      structuredContent: errorResult,
+    };
+  }
+}
+
+const agentOutcomeDescription = "The result status is success, failed, incomplete or needs_human (e.g. a login, or an approval still pending when approval mode is on).";
+
+/**
+ * Echo and browser-agent tools
+ */
+export function registerAgentTools(mcp: McpServer, context: AgentToolsContext): void {
+  const { templates } = context;
+
+  // Agent logs go out on each tool call's stream rather than through sendLoggingMessage,
+  // so the level the client sets is kept here
+  mcp.server.setRequestHandler(SetLevelRequestSchema, async request => {
+    logLevels.set(mcp, request.params.level);
+    return {};
+  });
+
+  mcp.registerTool(
+    "echo",
+    {
+      title: "Echo",
+      description: "Repeats back whatever text you send",
+      inputSchema: { text: z.string() },
+      outputSchema: { text: z.string() },
+    },
+    async ({ text }: { text: string }) => {
+      const output = { text: `echo: ${text}` };
+      return {
+        content: [{ type: "text", text: output.text }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "amazon_buy_product",
+    {
+      title: "Buy Product on Amazon",
+      description: `Automates the process of buying a product on Amazon Mexico (task template amazon-buy). Navigates to the product URL and completes the purchase using 'Comprar ahora'. Requires Amazon credentials and payment method to be set up in the browser. ${agentOutcomeDescription}`,
+      inputSchema: {
+        productUrl: z.string().describe("The full Amazon product URL to buy"),
+      },
+      outputSchema: {
+        status: z.enum(AGENT_OUTCOMES),
+        summary: z.string(),
+        data: z.object({
+          productUrl: z.string().optional(),
+          price: z.string().optional(),
+          orderId: z.string().optional(),
+          approvalId: z.string().optional(),
+          error: z.string().optional(),
+        }).optional(),
+        usage: runUsageSchema.optional(),
+      },
+    },
+    async ({ productUrl }, extra) => runTemplateTool(mcp, context, "amazon-buy", { productUrl }, extra, `Failed to buy product from ${productUrl}`)
+  );
+
+  mcp.registerTool(
+    "uber_request_ride",
+    {
+      title: "Request Uber Ride",
+      description: `Automates the process of requesting an Uber ride in Argentina (task template uber-ride). Navigates to Uber, enters destination, sees prices, and requests the ride. Requires Uber account to be logged in. ${agentOutcomeDescription}`,
+      inputSchema: {
+        destination: z.string().describe("The destination address to input in the 'Enter destination' field"),
+      },
+      outputSchema: {
+        status: z.enum(AGENT_OUTCOMES),
+        summary: z.string(),
+        data: z.object({
+          destination: z.string().optional(),
+          rideType: z.string().optional(),
+          price: z.string().optional(),
+          confirmationText: z.string().optional(),
+          approvalId: z.string().optional(),
+          error: z.string().optional(),
+        }).optional(),
+        usage: runUsageSchema.optional(),
+      },
+    },
+    async ({ destination }, extra) => runTemplateTool(mcp, context, "uber-ride", { destination }, extra, `Failed to request Uber ride to ${destination}`)
+  );
+
+  mcp.registerTool(
+    "list_task_templates",
+    {
+      title: "List Task Templates",
+      description: "Lists the browser task templates run_task can run, with their parameters and result schema.",
+      inputSchema: {},
+      outputSchema: {
+        templates: z.array(z.object({
+          name: z.string(),
+          title: z.string(),
+          description: z.string(),
+          locale: z.string().optional(),
+          parameters: z.record(z.any()),
+          result: z.record(z.any()),
+        })),
+      },
+    },
+    async () => {
+      const output = {
+        templates: templates.list().map(({ name, title, description, locale, parameters, result }) => ({
+          name, title, description, locale, parameters, result,
+        })),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "run_task",
+    {
+      title: "Run Browser Task",
+      description: `Runs a browser task template with the agent. Templates: ${templates.list().map(t => `${t.name} (${Object.keys(t.parameters).join(", ") || "no parameters"})`).join("; ") || "none loaded"}. Use list_task_templates for parameter details. ${agentOutcomeDescription}`,
+      inputSchema: {
+        template: z.string().describe("Template name, e.g. 'uber-ride'"),
+        params: z.record(z.string()).optional().describe("Template parameters by name"),
+      },
+      outputSchema: {
+        status: z.enum(AGENT_OUTCOMES),
+        summary: z.string(),
+        data: z.record(z.any()).optional(),
+        usage: runUsageSchema.optional(),
+      },
+    },
+    async ({ template, params = {} }, extra) => runTemplateTool(mcp, context, template, params, extra, `Task ${template} failed`)
+  );
+}
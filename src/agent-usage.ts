@@ -0,0 +1,167 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { LLMResponse } from './llm-provider';
+
+/**
+ * Agent Usage
+ * Tokens, steps, tool calls and estimated LLM cost of one agent run, priced from a
+ * per-model table (USD per million tokens) that LLM_PRICES_FILE can extend or override.
+ */
+
+export interface ModelPrice {
+  /** USD per million prompt tokens */
+  input: number;
+  /** USD per million completion tokens */
+  output: number;
+}
+
+/**
+ * Prices by model name; a name also prices its dated snapshots ("gpt-5-nano" covers
+ * "gpt-5-nano-2025-08-07"), the longest matching name wins
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing; override in LLM_PRICES_FILE when they change
+export const DEFAULT_MODEL_PRICES: PriceTable = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  scripted: { input: 0, output: 0 },
+};
+
+export const runUsageSchema = z.object({
+  /** Model of the last LLM call */
+  model: z.string(),
+  /** LLM calls, including repair prompts */
+  steps: z.number(),
+  /** Tool calls, including replayed ones */
+  toolCalls: z.number(),
+  replayedToolCalls: z.number(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  /** Estimated USD; absent when a model of the run has no price */
+  costUsd: z.number().optional(),
+  durationMs: z.number(),
+});
+
+export type RunUsage = z.infer<typeof runUsageSchema>;
+
+/**
+ * Price of a model, by exact name or the longest name it starts with
+ */
+export function priceFor(prices: PriceTable, model: string): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const name = Object.keys(prices)
+    .filter(key => model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return name ? prices[name] : undefined;
+}
+
+/**
+ * Counts one run's LLM calls and tool calls
+ */
+export class UsageMeter {
+  private prices: PriceTable;
+  private startedAt = Date.now();
+  private model: string;
+  private steps = 0;
+  private toolCalls = 0;
+  private replayedToolCalls = 0;
+  private promptTokens = 0;
+  private completionTokens = 0;
+  private costUsd: number | undefined = 0;
+
+  constructor(prices: PriceTable, model: string) {
+    this.prices = prices;
+    this.model = model;
+  }
+
+  llmCall(response: LLMResponse): void {
+    this.steps++;
+    this.model = response.model || this.model;
+
+    const prompt = response.usage?.promptTokens ?? 0;
+    const completion = response.usage?.completionTokens ?? 0;
+    this.promptTokens += prompt;
+    this.completionTokens += completion;
+
+    const price = priceFor(this.prices, this.model);
+    this.costUsd = price && this.costUsd !== undefined
+      ? this.costUsd + (prompt * price.input + completion * price.output) / 1_000_000
+      : undefined;
+  }
+
+  /** Tokens used so far */
+  get tokens(): number {
+    return this.promptTokens + this.completionTokens;
+  }
+
+  toolCall(replayed = false): void {
+    this.toolCalls++;
+    if (replayed) {
+      this.replayedToolCalls++;
+    }
+  }
+
+  finish(): RunUsage {
+    return {
+      model: this.model,
+      steps: this.steps,
+      toolCalls: this.toolCalls,
+      replayedToolCalls: this.replayedToolCalls,
+      promptTokens: this.promptTokens,
+      completionTokens: this.completionTokens,
+      totalTokens: this.promptTokens + this.completionTokens,
+      ...(this.costUsd !== undefined ? { costUsd: Math.round(this.costUsd * 1e8) / 1e8 } : {}),
+      durationMs: Date.now() - this.startedAt,
+    };
+  }
+}
+
+/**
+ * One-line summary for logs
+ */
+export function formatUsage(usage: RunUsage): string {
+  const cost = usage.costUsd !== undefined ? `~$${usage.costUsd.toFixed(6)}` : 'cost unknown';
+  const replayed = usage.replayedToolCalls > 0 ? ` (${usage.replayedToolCalls} replayed)` : '';
+  return `${usage.steps} LLM call(s), ${usage.toolCalls} tool call(s)${replayed}, ${usage.totalTokens} tokens, ${cost} (${usage.model})`;
+}
+
+/**
+ * Load a price table file (.json, .yaml or .yml): { "<model>": { "input": 0.05, "output": 0.4 } }
+ */
+export function loadPriceTable(path: string): PriceTable {
+  const raw = readFileSync(path, 'utf-8');
+  const ext = extname(path).toLowerCase();
+  const parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw);
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error(`Invalid price table ${path}: expected a map of model names`);
+  }
+  for (const [model, price] of Object.entries<any>(parsed)) {
+    if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+      throw new Error(`Invalid price table ${path}: ${model} needs numeric input and output prices`);
+    }
+  }
+  return parsed as PriceTable;
+}
+
+/**
+ * Default prices, extended or overridden by LLM_PRICES_FILE
+ */
+export function priceTableFromEnv(): PriceTable {
+  const path = process.env.LLM_PRICES_FILE;
+  return path ? { ...DEFAULT_MODEL_PRICES, ...loadPriceTable(path) } : DEFAULT_MODEL_PRICES;
+}
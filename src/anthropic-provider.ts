@@ -0,0 +1,132 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMToolCall } from './llm-provider';
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  baseURL?: string;
+  defaultModel?: string;
+  maxTokens?: number;
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel: string;
+  private anthropic: Anthropic;
+  private maxTokens: number;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.anthropic = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+    });
+    this.defaultModel = config.defaultModel || 'claude-sonnet-4-5';
+    this.maxTokens = config.maxTokens || 4096;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const system = request.messages
+      .filter((m): m is Extract<LLMMessage, { role: 'system' }> => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    const response = await this.anthropic.messages.create({
+      model: request.model,
+      max_tokens: this.maxTokens,
+      system: system || undefined,
+      messages: toAnthropicMessages(request.messages),
+      tools: request.tools.length > 0
+        ? request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: { type: 'object' as const, ...tool.parameters },
+          }))
+        : undefined,
+      temperature: request.temperature,
+    }, { signal: request.signal });
+
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    const toolCalls: LLMToolCall[] = response.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        name: block.name,
+        arguments: JSON.stringify(block.input ?? {}),
+      }));
+
+    return {
+      message: {
+        role: 'assistant',
+        content: text || null,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      },
+      model: response.model,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      finishReason: response.stop_reason || undefined,
+    };
+  }
+}
+
+/**
+ * Anthropic has no tool role: results go back as tool_result blocks in a user turn,
+ * and consecutive results must share one turn
+ */
+function toAnthropicMessages(messages: LLMMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        break;
+      case 'user':
+        result.push({ role: 'user', content: message.content });
+        break;
+      case 'assistant': {
+        const content: Anthropic.ContentBlockParam[] = [];
+        if (message.content) {
+          content.push({ type: 'text', text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+          content.push({ type: 'tool_use', id: call.id, name: call.name, input: parseArguments(call.arguments) });
+        }
+        result.push({ role: 'assistant', content });
+        break;
+      }
+      case 'tool': {
+        const block: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: message.toolCallId,
+          content: message.content,
+        };
+        const previous = result[result.length - 1];
+        if (previous && previous.role === 'user' && Array.isArray(previous.content)
+          && previous.content.every(b => b.type === 'tool_result')) {
+          previous.content.push(block);
+        } else {
+          result.push({ role: 'user', content: [block] });
+        }
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,58 @@
+import assert from 'assert';
+import { ApprovalQueue, RiskyToolCall } from './approval';
+import { runChecks } from './e2e-checks';
+
+/**
+ * Approval queue checks: decisions, expiry, and pruning of requests nobody needs anymore.
+ *
+ * Usage: npx tsx src/approval-e2e.ts
+ */
+
+const CALL: RiskyToolCall = {
+  toolName: 'browser_click',
+  args: { ref: 'e12', element: 'Place order' },
+  reason: 'Click that may place an order',
+  task: 'Buy a phone case',
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+runChecks('Approvals', [
+  ['a decision reaches the waiting agent', async () => {
+    const queue = new ApprovalQueue();
+    const request = queue.create(CALL);
+    const decision = queue.wait(request.id, 5000);
+    queue.decide(request.id, { approved: true, decidedBy: 'alice' });
+    assert.deepStrictEqual(await decision, { approved: true, decidedBy: 'alice' });
+    assert.strictEqual(queue.decide(request.id, { approved: false }), null);
+  }],
+
+  ['decided and expired requests are pruned after the retention period', async () => {
+    const queue = new ApprovalQueue(50);
+    const decided = queue.create(CALL);
+    const expired = queue.create(CALL);
+    const pending = queue.create(CALL);
+    queue.decide(decided.id, { approved: false });
+    assert.strictEqual(await queue.wait(expired.id, 10), null);
+    assert.strictEqual(queue.get(expired.id)?.status, 'expired');
+
+    queue.prune();
+    assert.strictEqual(queue.list().length, 3);
+
+    await sleep(60);
+    queue.prune();
+    assert.deepStrictEqual(queue.list().map(r => r.id), [pending.id]);
+  }],
+
+  ['the prune timer runs on its own', async () => {
+    const queue = new ApprovalQueue(0);
+    queue.decide(queue.create(CALL).id, { approved: true });
+    queue.start(20);
+    try {
+      await sleep(60);
+      assert.strictEqual(queue.list().length, 0);
+    } finally {
+      queue.stop();
+    }
+  }],
+]);
@@ -0,0 +1,329 @@
+import { Router } from "express";
+import { randomUUID } from "crypto";
+import { requireAdminToken } from "./admin-auth.js";
+import type { SnapshotElement } from "./run-recordings.js";
+
+/**
+ * Human-in-the-loop approvals
+ * Tool calls that match a risk rule (e.g. clicking "Place order") are paused
+ * until a human approves or denies them, via the pending-approvals HTTP
+ * endpoints or an MCP elicitation.
+ */
+
+export interface RiskRule {
+  /** Tool name the rule applies to (e.g. 'browser_click'), also under an MCPClientPool `<server>__` prefix */
+  tool: string;
+  /**
+   * Case-insensitive substrings matched against the label of the element the call's `ref`
+   * points to and the call's other string arguments. Omit to match every call.
+   */
+  match?: string[];
+  /** Shown to the approver */
+  reason?: string;
+}
+
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  {
+    tool: "browser_click",
+    match: [
+      "Realiza tu pedido y paga",
+      "Comprar ahora",
+      "Place order",
+      "Place your order",
+      "Buy now",
+      "Submit payment",
+      "Request",
+    ],
+    reason: "Click that may place an order, request a ride or submit a payment",
+  },
+];
+
+export type ApprovalStatus = "pending" | "approved" | "denied" | "expired";
+
+export interface ApprovalRequest {
+  id: string;
+  toolName: string;
+  args: Record<string, any>;
+  reason: string;
+  /** The task the agent was running when it asked */
+  task: string;
+  createdAt: string;
+  status: ApprovalStatus;
+  decidedAt?: string;
+  decidedBy?: string;
+  note?: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  decidedBy?: string;
+  note?: string;
+}
+
+/**
+ * A tool call the agent wants to make that matched a risk rule
+ */
+export interface RiskyToolCall {
+  toolName: string;
+  args: Record<string, any>;
+  reason: string;
+  task: string;
+}
+
+export interface ApprovalResult {
+  approvalId: string;
+  /** null when nobody decided in time */
+  decision: ApprovalDecision | null;
+}
+
+/**
+ * Asks a human about a risky tool call and waits for the answer
+ */
+export type ApprovalHandler = (call: RiskyToolCall) => Promise<ApprovalResult>;
+
+export interface ApprovalConfig {
+  enabled: boolean;
+  rules?: RiskRule[];
+  handler: ApprovalHandler;
+}
+
+// Separator MCPClientPool puts between a server's name and its tool names
+const NAMESPACE_SEPARATOR = "__";
+
+/**
+ * Find the first risk rule matching a tool call. The model writes the call's `element`
+ * description itself, so the `ref` is resolved to the element's label in the latest
+ * snapshot (`page`); a ref that isn't on it matches every rule of the tool.
+ */
+export function classifyToolCall(
+  rules: RiskRule[],
+  toolName: string,
+  args: Record<string, any>,
+  page?: SnapshotElement[] | null
+): RiskRule | null {
+  // Server names can't contain the separator, so the first one ends the prefix
+  const separator = toolName.indexOf(NAMESPACE_SEPARATOR);
+  const baseName = separator >= 0 ? toolName.slice(separator + NAMESPACE_SEPARATOR.length) : toolName;
+
+  const ref = typeof args?.ref === "string" ? args.ref : undefined;
+  const element = ref ? page?.find(e => e.ref === ref) : undefined;
+  const text = Object.entries(args || {})
+    .filter(([key, value]) => key !== "ref" && typeof value === "string")
+    .map(([, value]) => value as string)
+    .concat(element ? [element.name] : [])
+    .map(value => value.toLowerCase());
+
+  for (const rule of rules) {
+    if (rule.tool !== toolName && rule.tool !== baseName) continue;
+    if (!rule.match || rule.match.length === 0) return rule;
+    // What the ref points to is unknown, so it could be any button
+    if (ref && !element) return rule;
+    if (rule.match.some(pattern => text.some(value => value.includes(pattern.toLowerCase())))) {
+      return rule;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * In-memory store of approval requests, resolved by whichever channel decides first.
+ * Decided and expired requests are kept for `retentionMs` for GET /approvals/:id.
+ */
+export class ApprovalQueue {
+  private requests = new Map<string, ApprovalRequest>();
+  private waiters = new Map<string, (decision: ApprovalDecision | null) => void>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private retentionMs: number = 3_600_000) {}
+
+  /**
+   * Create a pending approval request
+   */
+  create(call: RiskyToolCall): ApprovalRequest {
+    const request: ApprovalRequest = {
+      id: randomUUID(),
+      ...call,
+      createdAt: new Date().toISOString(),
+      status: "pending",
+    };
+    this.requests.set(request.id, request);
+    return request;
+  }
+
+  /**
+   * Wait for a decision on a pending request; expires it after timeoutMs
+   */
+  wait(id: string, timeoutMs: number): Promise<ApprovalDecision | null> {
+    const request = this.requests.get(id);
+    if (!request) {
+      return Promise.reject(new Error(`Unknown approval request ${id}`));
+    }
+    if (request.status !== "pending") {
+      return Promise.resolve(request.status === "expired" ? null : {
+        approved: request.status === "approved",
+        decidedBy: request.decidedBy,
+        note: request.note,
+      });
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(id);
+        request.status = "expired";
+        request.decidedAt = new Date().toISOString();
+        resolve(null);
+      }, timeoutMs);
+
+      this.waiters.set(id, decision => {
+        clearTimeout(timer);
+        resolve(decision);
+      });
+    });
+  }
+
+  /**
+   * Record a decision. Returns the updated request, or null if it was not pending.
+   */
+  decide(id: string, decision: ApprovalDecision): ApprovalRequest | null {
+    const request = this.requests.get(id);
+    if (!request || request.status !== "pending") {
+      return null;
+    }
+
+    request.status = decision.approved ? "approved" : "denied";
+    request.decidedAt = new Date().toISOString();
+    request.decidedBy = decision.decidedBy;
+    request.note = decision.note;
+
+    const waiter = this.waiters.get(id);
+    if (waiter) {
+      this.waiters.delete(id);
+      waiter(decision);
+    }
+
+    return request;
+  }
+
+  get(id: string): ApprovalRequest | undefined {
+    return this.requests.get(id);
+  }
+
+  list(status?: ApprovalStatus): ApprovalRequest[] {
+    return [...this.requests.values()].filter(r => !status || r.status === status);
+  }
+
+  /**
+   * Forget decided and expired requests past the retention period
+   */
+  prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const request of this.requests.values()) {
+      if (request.status !== "pending" && request.decidedAt && Date.parse(request.decidedAt) < cutoff) {
+        this.requests.delete(request.id);
+      }
+    }
+  }
+
+  /**
+   * Prune decided requests every intervalMs
+   */
+  start(intervalMs: number = 60_000): void {
+    this.stop();
+    this.timer = setInterval(() => this.prune(), intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Handler that parks risky calls in this queue until someone decides.
+   * `onCreated` can ask through another channel too (e.g. MCP elicitation) and call decide().
+   */
+  handler(timeoutMs: number, onCreated?: (request: ApprovalRequest) => void): ApprovalHandler {
+    return async (call) => {
+      const request = this.create(call);
+      console.log(`\n✋ Approval required for ${call.toolName} (${request.id}): ${call.reason}`);
+      onCreated?.(request);
+      return { approvalId: request.id, decision: await this.wait(request.id, timeoutMs) };
+    };
+  }
+}
+
+/**
+ * How long to wait for a human before ending the run as awaiting_approval
+ */
+export function approvalTimeoutMs(): number {
+  return parseInt(process.env.APPROVAL_TIMEOUT_SECONDS || "300", 10) * 1000;
+}
+
+/**
+ * How long decided and expired approvals stay queryable (APPROVAL_RETENTION_SECONDS)
+ */
+export function approvalRetentionMs(): number {
+  return parseInt(process.env.APPROVAL_RETENTION_SECONDS || "3600", 10) * 1000;
+}
+
+/**
+ * Build the agent approval config from APPROVAL_MODE / APPROVAL_TIMEOUT_SECONDS
+ */
+export function approvalConfigFromEnv(queue: ApprovalQueue): ApprovalConfig {
+  return {
+    enabled: process.env.APPROVAL_MODE === "on",
+    handler: queue.handler(approvalTimeoutMs()),
+  };
+}
+
+/**
+ * HTTP endpoints for listing and deciding pending approvals, behind the admin token
+ * (APPROVAL_ADMIN_TOKEN); without one the endpoints are not served
+ *
+ *   GET  /approvals?status=pending
+ *   GET  /approvals/:id
+ *   POST /approvals/:id/approve   { "by": "alice", "note": "ok" }
+ *   POST /approvals/:id/deny      { "by": "alice", "note": "wrong address" }
+ */
+export function createApprovalRouter(queue: ApprovalQueue, adminToken: string): Router {
+  const router = Router();
+  router.use("/approvals", requireAdminToken(adminToken));
+
+  router.get("/approvals", (req, res) => {
+    const status = req.query.status as ApprovalStatus | undefined;
+    res.json({ approvals: queue.list(status) });
+  });
+
+  router.get("/approvals/:id", (req, res) => {
+    const request = queue.get(req.params.id);
+    if (!request) {
+      return res.status(404).json({ error: "Approval request not found" });
+    }
+    res.json(request);
+  });
+
+  for (const action of ["approve", "deny"] as const) {
+    router.post(`/approvals/:id/${action}`, (req, res) => {
+      const request = queue.decide(req.params.id, {
+        approved: action === "approve",
+        decidedBy: req.body?.by || "http",
+        note: req.body?.note,
+      });
+
+      if (!request) {
+        const existing = queue.get(req.params.id);
+        return existing
+          ? res.status(409).json({ error: `Approval request is already ${existing.status}`, approval: existing })
+          : res.status(404).json({ error: "Approval request not found" });
+      }
+
+      console.log(`\n${action === "approve" ? "👍" : "👎"} Approval ${request.id} ${request.status} by ${request.decidedBy}`);
+      res.json(request);
+    });
+  }
+
+  return router;
+}
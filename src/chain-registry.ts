@@ -0,0 +1,167 @@
+import fs from "fs";
+import { createPublicClient, defineChain, http, type Chain, type PublicClient } from "viem";
+import { base, baseSepolia, foundry, polygon, polygonAmoy, sepolia } from "viem/chains";
+import { config } from "dotenv";
+
+config();
+
+/**
+ * Chain Registry
+ * Chains and tokens the wallet reads balances on and signs for, keyed by network
+ * name (the `network` of an x402 / EVVM payment requirement). The defaults cover the
+ * testnets the payment servers use; CHAINS_FILE adds or overrides chains (e.g. a local
+ * anvil node) and <NETWORK>_RPC_URL points one chain at another RPC endpoint.
+ */
+
+export interface TokenConfig {
+  address: `0x${string}`;
+  decimals: number;
+}
+
+export interface ChainConfig {
+  chainId: number;
+  /** Defaults to viem's public RPC for known chain IDs */
+  rpcUrl?: string;
+  nativeSymbol?: string;
+  /** Tokens by symbol (lowercase), e.g. { usdc: { address, decimals: 6 } } */
+  tokens: Record<string, TokenConfig>;
+}
+
+export interface ChainsFile {
+  chains: Record<string, ChainConfig>;
+}
+
+export const DEFAULT_CHAINS: Record<string, ChainConfig> = {
+  "polygon-amoy": {
+    chainId: polygonAmoy.id,
+    nativeSymbol: "POL",
+    tokens: { usdc: { address: "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582", decimals: 6 } },
+  },
+  "base-sepolia": {
+    chainId: baseSepolia.id,
+    nativeSymbol: "ETH",
+    tokens: { usdc: { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", decimals: 6 } },
+  },
+  // USDC the EVVM payment servers charge in (EVVM ID 2)
+  sepolia: {
+    chainId: sepolia.id,
+    nativeSymbol: "ETH",
+    tokens: { usdc: { address: "0x2FE943eE9bD346aF46d46BD36c9ccb86201Da21A", decimals: 6 } },
+  },
+};
+
+const KNOWN_CHAINS: Chain[] = [polygonAmoy, baseSepolia, sepolia, polygon, base, foundry];
+
+/**
+ * Env var that overrides a network's RPC, e.g. polygon-amoy → POLYGON_AMOY_RPC_URL
+ */
+export function rpcEnvVar(network: string): string {
+  return `${network.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}_RPC_URL`;
+}
+
+export class ChainRegistry {
+  private chains: Record<string, ChainConfig>;
+  private clients = new Map<string, PublicClient>();
+
+  constructor(chains: Record<string, ChainConfig>) {
+    this.chains = chains;
+  }
+
+  /**
+   * Default chains, merged with CHAINS_FILE and the <NETWORK>_RPC_URL overrides
+   */
+  static fromEnv(): ChainRegistry {
+    const chains: Record<string, ChainConfig> = structuredClone(DEFAULT_CHAINS);
+
+    if (process.env.CHAINS_FILE) {
+      const file = JSON.parse(fs.readFileSync(process.env.CHAINS_FILE, "utf-8")) as ChainsFile;
+      if (!file.chains || typeof file.chains !== "object") {
+        throw new Error(`${process.env.CHAINS_FILE} must contain a "chains" object`);
+      }
+      for (const [network, chain] of Object.entries(file.chains)) {
+        if (typeof chain.chainId !== "number") {
+          throw new Error(`Chain "${network}" in ${process.env.CHAINS_FILE} has no numeric chainId`);
+        }
+        chains[network] = {
+          ...chains[network],
+          ...chain,
+          tokens: { ...chains[network]?.tokens, ...lowercaseKeys(chain.tokens || {}) },
+        };
+      }
+    }
+
+    for (const network of Object.keys(chains)) {
+      const rpcUrl = process.env[rpcEnvVar(network)];
+      if (rpcUrl) {
+        chains[network].rpcUrl = rpcUrl;
+      }
+    }
+
+    return new ChainRegistry(chains);
+  }
+
+  networks(): string[] {
+    return Object.keys(this.chains);
+  }
+
+  has(network: string): boolean {
+    return network in this.chains;
+  }
+
+  get(network: string): ChainConfig {
+    const chain = this.chains[network];
+    if (!chain) {
+      throw new Error(`Unknown network "${network}" (configured: ${this.networks().join(", ")})`);
+    }
+    return chain;
+  }
+
+  /**
+   * Token by symbol or address, or undefined when the chain doesn't list it
+   */
+  token(network: string, symbolOrAddress: string): (TokenConfig & { symbol: string }) | undefined {
+    const wanted = symbolOrAddress.toLowerCase();
+    for (const [symbol, token] of Object.entries(this.get(network).tokens)) {
+      if (symbol === wanted || token.address.toLowerCase() === wanted) {
+        return { symbol, ...token };
+      }
+    }
+    return undefined;
+  }
+
+  viemChain(network: string): Chain {
+    const chain = this.get(network);
+    const known = KNOWN_CHAINS.find(c => c.id === chain.chainId);
+    const rpcUrl = chain.rpcUrl || known?.rpcUrls.default.http[0];
+    if (!rpcUrl) {
+      throw new Error(`Network "${network}" has no rpcUrl (set ${rpcEnvVar(network)} or add it to CHAINS_FILE)`);
+    }
+
+    return defineChain({
+      ...(known || {}),
+      id: chain.chainId,
+      name: known?.name || network,
+      nativeCurrency: known?.nativeCurrency || { name: chain.nativeSymbol || "ETH", symbol: chain.nativeSymbol || "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl] } },
+    });
+  }
+
+  publicClient(network: string): PublicClient {
+    let client = this.clients.get(network);
+    if (!client) {
+      client = createPublicClient({
+        chain: this.viemChain(network),
+        transport: http(undefined, { timeout: 10000, retryCount: 1 }),
+      }) as PublicClient;
+      this.clients.set(network, client);
+    }
+    return client;
+  }
+}
+
+function lowercaseKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+// Export singleton instance
+export const chainRegistry = ChainRegistry.fromEnv();
@@ -0,0 +1,167 @@
+import type { LLMMessage } from './llm-provider';
+
+/**
+ * Context Manager
+ * Browser tools answer with whole page trees, and a 20-turn run on a heavy page would
+ * otherwise send every one of them again on every turn. Before each LLM call the
+ * conversation is compacted: only the latest snapshots stay in full, repeated tool
+ * outputs point to their latest copy, long outputs are cut, and the oldest outputs are
+ * dropped when the request would not fit the context window. The agent keeps the full
+ * history; only what is sent is compacted.
+ */
+
+export interface ContextPolicy {
+  /** Page snapshots kept in full; older ones become a one-line stub (default 1) */
+  keepSnapshots?: number;
+  /** Longer tool outputs are cut to this many characters (default 40000) */
+  maxToolOutputChars?: number;
+  /** Replace a tool output repeated later in the run with a pointer to the later copy (default true) */
+  dedupe?: boolean;
+  /** Estimated tokens per request; the oldest tool outputs are dropped above it (default 100000) */
+  maxContextTokens?: number;
+  /** Tokens (prompt + completion) per run; the run stops as incomplete once the next call would exceed it */
+  maxRunTokens?: number;
+}
+
+export const DEFAULT_CONTEXT_POLICY: Required<Omit<ContextPolicy, 'maxRunTokens'>> = {
+  keepSnapshots: 1,
+  maxToolOutputChars: 40_000,
+  dedupe: true,
+  maxContextTokens: 100_000,
+};
+
+/**
+ * What compaction did to one request
+ */
+export interface CompactionStats {
+  staleSnapshots: number;
+  duplicates: number;
+  truncated: number;
+  dropped: number;
+  estimatedTokens: number;
+}
+
+// Rough token count: about four characters per token for English text and page trees
+export function estimateTokens(messages: LLMMessage[]): number {
+  let chars = 0;
+  for (const message of messages) {
+    chars += message.content?.length || 0;
+    if (message.role === 'assistant') {
+      for (const call of message.toolCalls || []) {
+        chars += call.name.length + call.arguments.length;
+      }
+    }
+  }
+  return Math.ceil(chars / 4);
+}
+
+function isSnapshot(content: string | null): boolean {
+  return !!content && content.includes('[ref=');
+}
+
+/**
+ * One-line stand-in for a snapshot that is no longer current
+ */
+function snapshotStub(content: string): string {
+  const url = /- Page URL: (.*)/.exec(content)?.[1];
+  const title = /- Page Title: (.*)/.exec(content)?.[1];
+  const page = [title, url && `(${url})`].filter(Boolean).join(' ') || 'an earlier page';
+  return `[Stale snapshot of ${page} removed; its refs are no longer valid. Use the latest snapshot or take a new one.]`;
+}
+
+export class ContextManager {
+  private policy: Required<Omit<ContextPolicy, 'maxRunTokens'>> & Pick<ContextPolicy, 'maxRunTokens'>;
+
+  constructor(policy: ContextPolicy = {}) {
+    this.policy = { ...DEFAULT_CONTEXT_POLICY, ...policy };
+  }
+
+  get maxRunTokens(): number | undefined {
+    return this.policy.maxRunTokens;
+  }
+
+  /**
+   * The messages to send for the next LLM call
+   */
+  prepare(messages: LLMMessage[]): { messages: LLMMessage[]; stats: CompactionStats } {
+    const stats: CompactionStats = { staleSnapshots: 0, duplicates: 0, truncated: 0, dropped: 0, estimatedTokens: 0 };
+    const toolIndexes = messages.flatMap((message, index) => (message.role === 'tool' ? [index] : []));
+    const snapshots = toolIndexes.filter(index => isSnapshot(messages[index].content));
+    const current = new Set(snapshots.slice(snapshots.length - this.policy.keepSnapshots));
+
+    // The last copy of a repeated output stays, so dropping old outputs can't orphan it
+    const lastCopy = new Map<string, number>();
+    for (const index of toolIndexes) {
+      lastCopy.set(messages[index].content!, index);
+    }
+
+    const prepared = messages.map((message, index) => {
+      if (message.role !== 'tool') {
+        return message;
+      }
+
+      let content = message.content;
+      if (isSnapshot(content) && !current.has(index)) {
+        stats.staleSnapshots++;
+        content = snapshotStub(content);
+      } else if (this.policy.dedupe && !isSnapshot(content) && content.length > 200 && lastCopy.get(content) !== index) {
+        const later = messages[lastCopy.get(content)!] as Extract<LLMMessage, { role: 'tool' }>;
+        stats.duplicates++;
+        content = `[Same output as the later ${later.name} call]`;
+      }
+
+      if (content.length > this.policy.maxToolOutputChars) {
+        stats.truncated++;
+        const cut = content.length - this.policy.maxToolOutputChars;
+        content = `${content.slice(0, this.policy.maxToolOutputChars)}\n[... ${cut} more characters truncated]`;
+      }
+
+      return content === message.content ? message : { ...message, content };
+    });
+
+    // Still too big: drop tool outputs oldest first, never the latest snapshots
+    let estimated = estimateTokens(prepared);
+    for (const index of toolIndexes) {
+      if (estimated <= this.policy.maxContextTokens) {
+        break;
+      }
+      const message = prepared[index];
+      if (current.has(index) || message.role !== 'tool' || message.content.length < 200) {
+        continue;
+      }
+      const stub = `[Output of ${message.name} removed to fit the context window]`;
+      estimated -= Math.floor((message.content.length - stub.length) / 4);
+      prepared[index] = { ...message, content: stub };
+      stats.dropped++;
+    }
+
+    stats.estimatedTokens = estimateTokens(prepared);
+    return { messages: prepared, stats };
+  }
+}
+
+/**
+ * Policy from AGENT_KEEP_SNAPSHOTS, AGENT_MAX_TOOL_OUTPUT_CHARS, AGENT_MAX_CONTEXT_TOKENS
+ * and AGENT_MAX_RUN_TOKENS; unset variables keep the defaults
+ */
+export function contextPolicyFromEnv(): ContextPolicy {
+  const number = (name: string): number | undefined => {
+    const value = process.env[name];
+    if (!value) {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a non-negative number (got "${value}")`);
+    }
+    return parsed;
+  };
+
+  const policy: ContextPolicy = {
+    keepSnapshots: number('AGENT_KEEP_SNAPSHOTS'),
+    maxToolOutputChars: number('AGENT_MAX_TOOL_OUTPUT_CHARS'),
+    maxContextTokens: number('AGENT_MAX_CONTEXT_TOKENS'),
+    maxRunTokens: number('AGENT_MAX_RUN_TOKENS'),
+  };
+  return Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined));
+}
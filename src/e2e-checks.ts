@@ -0,0 +1,26 @@
+/**
+ * Offline Checks
+ * Minimal runner for the *-e2e.ts behaviour scripts behind `npm test`: each check prints
+ * ✅ or ❌ like the mock e2e, and the script exits with code 1 when any of them failed.
+ */
+
+export type Check = [label: string, run: () => void | Promise<void>];
+
+export async function runChecks(suite: string, checks: Check[]): Promise<void> {
+  let failed = 0;
+  console.log(`\n🧪 ${suite}`);
+
+  for (const [label, run] of checks) {
+    try {
+      await run();
+      console.log(`✅ ${label}`);
+    } catch (error: any) {
+      failed++;
+      console.log(`❌ ${label}`);
+      console.log(`   ${error?.message || error}`);
+    }
+  }
+
+  // Servers or timers a failed check left open must not keep the run alive
+  process.exit(failed > 0 ? 1 : 0);
+}
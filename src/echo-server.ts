@@ -2,629 +2,670 @@ import express from "express";
 import cors from "cors";
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { McpSessionManager, createMcpRouter, mcpSessionConfigFromEnv } from "./mcp-sessions.js";
+import { ToolAuditLog, createMcpAuthRouter, mcpAuthConfigFromEnv, withToolAccess } from "./mcp-auth.js";
 import { OpenAIAgent } from "./openai-agent.js";
+import { taskTemplatesFromEnv } from "./task-templates.js";
+import { createProviderFromEnv } from "./llm-provider.js";
+import { runRecordingsFromEnv } from "./run-recordings.js";
+import { contextPolicyFromEnv } from "./context-manager.js";
+import { priceTableFromEnv } from "./agent-usage.js";
+import { MCPClientPool, createMCPConnectionFromEnv } from "./mcp-client-pool.js";
+import type { MCPConnection } from "./mcp-client.js";
+import { AgentPool, agentPoolConfigFromEnv } from "./agent-pool.js";
+import { progressFor, registerAgentTools, stepProgress } from "./agent-tools.js";
 import { walletService } from "./wallet-service.js";
-import axios from "axios";
-import { withPaymentInterceptor, createSigner, type Hex } from "x402-axios";
+import { chainRegistry } from "./chain-registry.js";
+import { EVVM_SIGNER_ENV, Signer, loadSigner, signerConfigFromEnv, toViemAccount } from "./signer.js";
+import axios, { type AxiosInstance, type AxiosRequestConfig } from "axios";
+import { withPaymentInterceptor, decodeXPaymentResponse } from "x402-axios";
 import { withEVVMPaymentInterceptor, decodeEVVMPaymentResponse } from "@evvm/x402-client";
+import { PolicyEngine, PolicyDeniedError, PaymentChallenge, loadSpendingPolicy, settleJobReservation, withSpendingPolicy } from "./spending-policy.js";
+import { PaymentLedger, PaymentRefund, PaymentTrace, withPaymentLedger } from "./payment-ledger.js";
+import { PaymentScheme, withPaymentScheme } from "./payment-schemes.js";
+import { NoPayableRailError, PaymentOption, PaymentRail, RailSelector, selectionConfigFromEnv } from "./payment-selector.js";
+import {
+  OnChainTreasury,
+  SessionWallet,
+  SessionWalletManager,
+  createSessionWalletRouter,
+  sessionWalletConfigFromEnv,
+  walletKeyOf,
+} from "./session-wallets.js";
+import { MerchantRoute, MerchantToolRegistry, PaidRouteCaller, describePrice, loadMerchants } from "./merchant-tools.js";
+import { ApprovalQueue, approvalConfigFromEnv, approvalRetentionMs, approvalTimeoutMs, createApprovalRouter } from "./approval.js";
+import { isJobAccepted, waitForJob } from "./jobs.js";
 import dotenv from "dotenv";
 
 // Load environment variables
 dotenv.config();
 
+// Spending policy enforced before any x402 / EVVM payment is signed (optional)
+const policyEngine = process.env.SPENDING_POLICY_FILE
+  ? new PolicyEngine(loadSpendingPolicy(process.env.SPENDING_POLICY_FILE))
+  : null;
+const policyAgentId = process.env.AGENT_ID || "default";
+
+if (!policyEngine) {
+  console.warn("⚠️  SPENDING_POLICY_FILE not set - paid tools will pay whatever merchants ask");
+} else if (!process.env.AGENT_ID) {
+  console.warn("⚠️  AGENT_ID not set - spend counts against the \"default\" budget, shared with every server without an AGENT_ID");
+}
+
+// Network the EVVM payment servers settle on
+const EVVM_NETWORK = "sepolia";
+
+// Append-only ledger of every paid call
+const paymentLedger = new PaymentLedger(process.env.PAYMENT_LEDGER_FILE || "./data/payments.jsonl", { agentId: policyAgentId });
+
+/**
+ * Count the last week of ledger payments toward the spending policy's budgets, so a
+ * restart doesn't reset them. Entries written before the ledger recorded agent IDs
+ * count for this server's agent.
+ */
+async function restoreSpendingPolicy(): Promise<void> {
+  if (!policyEngine) return;
+
+  const spends = await paymentLedger.listSpends(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
+  policyEngine.restore(spends.map(payment => ({
+    agentId: payment.agentId || policyAgentId,
+    network: payment.network!,
+    asset: payment.asset!,
+    amount: payment.amount!,
+    timestamp: payment.startedAt,
+  })));
+  console.log(`💰 Restored ${spends.length} payment(s) from the ledger into the spending policy budgets`);
+}
+
+/**
+ * Create an axios instance for a paid API, recorded in the ledger, narrowed to the
+ * payment scheme (and network and asset) the caller signs with and with the spending
+ * policy applied. Payment interceptors must be added to the returned instance afterwards.
+ */
+function createPaidClient(
+  baseURL: string,
+  payment: PaymentTrace,
+  scheme: PaymentScheme,
+  decodeSettlement: (header: string) => Record<string, any> | null | undefined,
+  network?: string,
+  asset?: string
+) {
+  const client = withPaymentScheme(withPaymentLedger(axios.create({ baseURL }), payment, decodeSettlement), scheme, network, asset);
+  return policyEngine ? withSpendingPolicy(client, policyEngine, policyAgentId) : client;
+}
+
+/**
+ * Build the tool result returned when the spending policy blocks a payment
+ */
+function policyDeniedResult(error: PolicyDeniedError, data: Record<string, any>, summary?: string) {
+  console.warn(`\n🛑 Payment blocked by spending policy (${error.denial.rule}): ${error.message}`);
+  const deniedResult = {
+    status: "policy_denied",
+    ...(summary ? { summary } : {}),
+    data: {
+      ...data,
+      error: error.message,
+      policy: error.denial,
+    },
+  };
+
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(deniedResult, null, 2) }],
+    structuredContent: deniedResult,
+  };
+}
+
 const app = express();
 app.use(cors());
 app.use(express.json());
 
-// 1) Create MCP server
-const mcp = new McpServer({
-  name: "my-dual-client-server",
-  version: "0.1.0",
-});
-
-// Initialize the OpenAI agent (will be created per request or shared)
-let agentInstance: OpenAIAgent | null = null;
+// Pending human approvals for irreversible agent actions (APPROVAL_MODE=on)
+const approvalQueue = new ApprovalQueue(approvalRetentionMs());
+if (process.env.APPROVAL_ADMIN_TOKEN) {
+  app.use(createApprovalRouter(approvalQueue, process.env.APPROVAL_ADMIN_TOKEN));
+} else if (process.env.APPROVAL_MODE === "on") {
+  console.warn("⚠️  APPROVAL_ADMIN_TOKEN not set - /approvals is disabled, approvals can only be given through MCP elicitation");
+}
 
-async function getAgent(): Promise<OpenAIAgent> {
-  if (!agentInstance) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY not found in environment variables');
+/**
+ * Approval handler for one MCP tool call: parks the request on the pending-approvals
+ * endpoint and, when the client supports elicitation, asks it directly as well
+ */
+function approvalHandlerFor(mcp: McpServer, relatedRequestId: string | number) {
+  return approvalQueue.handler(approvalTimeoutMs(), (request) => {
+    if (!mcp.server.getClientCapabilities()?.elicitation) {
+      return;
     }
 
-    agentInstance = new OpenAIAgent({
-      apiKey,
-      model: 'gpt-5-nano', // Use GPT-4 for better reasoning
+    mcp.server.elicitInput({
+      mode: "form",
+      message: `The agent wants to run ${request.toolName} (${request.reason}).\nArguments: ${JSON.stringify(request.args)}\nApprove this action?`,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          decision: { type: "string", enum: ["approve", "deny"], description: "Approve or deny the action" },
+          note: { type: "string", description: "Optional note for the log" },
+        },
+        required: ["decision"],
+      },
+    }, { relatedRequestId }).then(result => {
+      // "cancel" leaves the request pending so it can still be decided over HTTP
+      if (result.action === "cancel") return;
+      approvalQueue.decide(request.id, {
+        approved: result.action === "accept" && result.content?.decision === "approve",
+        decidedBy: "mcp-elicitation",
+        note: result.content?.note as string | undefined,
+      });
+    }).catch(error => {
+      console.error("Approval elicitation failed:", error?.message || error);
     });
-
-    await agentInstance.initialize();
-  }
-  return agentInstance;
+  });
 }
 
-// 2) Define tools
-mcp.registerTool(
-  "echo",
-  {
-    title: "Echo",
-    description: "Repeats back whatever text you send",
-    inputSchema: { text: z.string() },
-    outputSchema: { text: z.string() },
-  },
-  async ({ text }: { text: string }) => {
-    const output = { text: `echo: ${text}` };
-    return {
-      content: [{ type: "text", text: output.text }],
-      structuredContent: output,
-    };
-  }
-);
-
-mcp.registerTool(
-  "amazon_buy_product",
-  {
-    title: "Buy Product on Amazon",
-    description: "Automates the process of buying a product on Amazon Mexico. Navigates to the product URL and completes the purchase using 'Comprar ahora'. Requires Amazon credentials and payment method to be set up in the browser.",
-    inputSchema: {
-      productUrl: z.string().describe("The full Amazon product URL to buy"),
-    },
-    outputSchema: {
-      status: z.string(),
-      summary: z.string(),
-      data: z.object({
-        productUrl: z.string().optional(),
-        price: z.string().optional(),
-        orderId: z.string().optional(),
-        error: z.string().optional(),
-      }).optional(),
-    },
-  },
-  async ({ productUrl }) => {
-    try {
-      const agent = await getAgent();
+// MCP connection of each agent session: the Browser MCP server, or every server in
+// MCP_SERVERS_FILE with {{session}} filled in
+const mcpConnections: MCPConnection[] = [];
+
+// Agent sessions for the agent tools (AGENT_POOL_SIZE), one browser each
+const agentPoolConfig = agentPoolConfigFromEnv();
+const agents = new AgentPool(agentPoolConfig, session => {
+  mcpConnections[session] = createMCPConnectionFromEnv(session);
+
+  // LLM backend from LLM_PROVIDER (OpenAI by default)
+  return new OpenAIAgent({
+    provider: createProviderFromEnv(),
+    model: process.env.LLM_MODEL,
+    mcp: mcpConnections[session],
+    approval: approvalConfigFromEnv(approvalQueue),
+    recordings: runRecordingsFromEnv(),
+    prices: priceTableFromEnv(),
+    context: contextPolicyFromEnv(),
+  });
+});
 
-      // Create a detailed task for the agent using the specific instructions
-      let task = `Go to ${productUrl}, locate and click the "Comprar ahora" button on the product page; if a button labeled "Usar esta dirección" appears, click it, then proceed to click the yellow "Usar este método de pago" button, and finally click "Realiza tu pedido y paga" to complete the purchase.
+if (agentPoolConfig.size > 1 && !process.env.MCP_SERVERS_FILE) {
+  console.warn("⚠️  AGENT_POOL_SIZE > 1 without MCP_SERVERS_FILE - every agent session drives the same browser");
+}
 
-IMPORTANT: You are authorized to complete the entire purchase. Do not stop before the final step.
+// Browser tasks the agent tools run (TASKS_DIR, default ./tasks)
+const taskTemplates = taskTemplatesFromEnv();
 
-Return a JSON object with the status, product URL, price, and order ID if successful.`;
+// EVVM payer (EVVM_PRIVATE_KEY, EVVM_KEYSTORE_FILE or EVVM_REMOTE_SIGNER_URL), loaded on first use
+let evvmSigner: Signer | null = null;
 
-      console.log(`\n🛒 Amazon Buy Task Started: ${productUrl}`);
-      const result = await agent.processMessage(task);
+function getEvvmSigner(): Signer | null {
+  if (!evvmSigner) {
+    const config = signerConfigFromEnv(EVVM_SIGNER_ENV);
+    evvmSigner = config && loadSigner(config);
+  }
+  return evvmSigner;
+}
 
-      // Try to parse the result as JSON
-      let parsedResult;
-      try {
-        parsedResult = typeof result === 'string' ? JSON.parse(result) : result;
-      } catch {
-        // If not JSON, wrap it in a standard response
-        parsedResult = {
-          status: "completed",
-          summary: result,
-          data: { productUrl }
-        };
-      }
+// Per-session sub-wallets funded from the treasury wallet (SESSION_WALLETS=on)
+const sessionWalletConfig = sessionWalletConfigFromEnv();
+const sessionWallets = sessionWalletConfig.enabled
+  ? new SessionWalletManager(sessionWalletConfig, new OnChainTreasury(walletService))
+  : null;
 
-      console.log(`\n✅ Amazon Buy Task Completed`);
+if (sessionWallets && process.env.SESSION_WALLET_ADMIN_TOKEN) {
+  app.use(createSessionWalletRouter(sessionWallets, process.env.SESSION_WALLET_ADMIN_TOKEN));
+} else if (sessionWallets) {
+  console.warn("⚠️  SESSION_WALLET_ADMIN_TOKEN not set - the /session-wallets admin endpoints are disabled");
+}
 
-      return {
-        content: [{
-          type: "text",
-          text: typeof parsedResult === 'string' ? parsedResult : JSON.stringify(parsedResult, null, 2)
-        }],
-        structuredContent: parsedResult,
-      };
+// Picks the rail for each paid call when merchants accept several (PAYMENT_STRATEGY)
+const railSelection = selectionConfigFromEnv();
+
+/**
+ * Rail selector for one paid call: the shared wallets, or only the caller's session wallet.
+ * Rails the spending policy would deny are dropped before ranking.
+ */
+function railSelectorFor(sessionWallet: SessionWallet | null) {
+  const policyDenial = policyEngine
+    ? (option: PaymentOption) => policyEngine.evaluate(policyAgentId, option.resource || option.requirement.resource || "", option.requirement)
+    : undefined;
+
+  if (sessionWallets && sessionWallet) {
+    return new RailSelector({
+      ...railSelection,
+      policyDenial,
+      unsupportedReason: (requirement, scheme) => sessionWallets.unsupportedReason(sessionWallet, requirement, scheme),
+      balanceOf: () => sessionWallets.balance(sessionWallet),
+    });
+  }
 
-    } catch (error: any) {
-      console.error(`\n❌ Amazon Buy Task Failed:`, error);
-      const errorResult = {
-        status: "error",
-        summary: `Failed to buy product from ${productUrl}`,
-        data: {
-          productUrl,
-          error: error?.message || String(error)
-        }
-      };
+  return new RailSelector({
+    ...railSelection,
+    policyDenial,
+    unsupportedReason: (_requirement, scheme) => {
+      if (scheme === "evvm") {
+        return signerConfigFromEnv(EVVM_SIGNER_ENV) ? null : "no EVVM signer configured";
+      }
+      return walletService.isConfigured() ? null : "no x402 wallet configured";
+    },
+    balanceOf: async (requirement, scheme) => scheme === "x402"
+      ? walletService.getTokenBalance(requirement.network, requirement.asset as `0x${string}`)
+      : null,
+  });
+}
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(errorResult, null, 2) }],
-        structuredContent: errorResult,
-      };
-    }
+/**
+ * Axios instance that pays a merchant on the chosen rail (x402 on its network, or EVVM)
+ * and no other, from the caller's session wallet when it has one
+ */
+async function createRailClient(
+  baseURL: string,
+  payment: PaymentTrace,
+  { scheme, network, asset }: PaymentRail,
+  sessionWallet: SessionWallet | null
+) {
+  if (scheme === "x402") {
+    // Payments are signed by the wallet's signer backend; the key never leaves it
+    const account = sessionWallets && sessionWallet
+      ? await sessionWallets.account(sessionWallet)
+      : await walletService.getAccount();
+    return withPaymentInterceptor(createPaidClient(baseURL, payment, "x402", decodeXPaymentResponse, network, asset), account);
   }
-);
-
-mcp.registerTool(
-  "uber_request_ride",
-  {
-    title: "Request Uber Ride",
-    description: "Automates the process of requesting an Uber ride in Argentina. Navigates to Uber, enters destination, sees prices, and requests the ride. Requires Uber account to be logged in.",
-    inputSchema: {
-      destination: z.string().describe("The destination address to input in the 'Enter destination' field"),
-    },
-    outputSchema: {
-      status: z.string(),
-      summary: z.string(),
-      data: z.object({
-        destination: z.string().optional(),
-        rideType: z.string().optional(),
-        price: z.string().optional(),
-        confirmationText: z.string().optional(),
-        error: z.string().optional(),
-      }).optional(),
-    },
-  },
-  async ({ destination }) => {
-    try {
-      const agent = await getAgent();
-
-      // Create a detailed task for the agent using the specific instructions
-      let task = `
-Locate the "Enter destination" field, input the destination "${destination}", then click on the first option from the address suggestions to verify the input, and click the "See prices" button to proceed. Wait 5 seconds for the ride options to load, then click the "Request" button to submit the booking. Wait an additional 15 seconds for the process to complete, and finally return a JSON object containing the text or status displayed on the screen as the final result.
-
-IMPORTANT: You are authorized to complete the entire ride request. Do not stop before the final step.
-
-Return a JSON object with the status, destination, ride type, price, and confirmation text if successful.`;
-
-      console.log(`\n🚗 Uber Ride Request Started: ${destination}`);
-      const result = await agent.processMessage(task);
-
-      // Try to parse the result as JSON
-      let parsedResult;
-      try {
-        parsedResult = typeof result === 'string' ? JSON.parse(result) : result;
-      } catch {
-        // If not JSON, wrap it in a standard response
-        parsedResult = {
-          status: "completed",
-          summary: result,
-          data: { destination }
-        };
-      }
 
-      console.log(`\n✅ Uber Ride Request Completed`);
+  const signer = getEvvmSigner();
+  if (!signer) {
+    throw new Error("No EVVM signer configured (set EVVM_PRIVATE_KEY, EVVM_KEYSTORE_FILE or EVVM_REMOTE_SIGNER_URL)");
+  }
+  return withEVVMPaymentInterceptor(createPaidClient(baseURL, payment, "evvm", decodeEVVMPaymentResponse, network, asset), await toViemAccount(signer));
+}
 
-      return {
-        content: [{
-          type: "text",
-          text: typeof parsedResult === 'string' ? parsedResult : JSON.stringify(parsedResult, null, 2)
-        }],
-        structuredContent: parsedResult,
-      };
+/**
+ * Call a merchant route with the tool arguments as query (GET) or JSON body (POST)
+ */
+function sendRouteRequest(api: AxiosInstance, route: MerchantRoute, args: Record<string, any>, config: AxiosRequestConfig = {}) {
+  return route.method === "GET"
+    ? api.get(route.path, { ...config, params: args })
+    : api.post(route.path, args, config);
+}
 
-    } catch (error: any) {
-      console.error(`\n❌ Uber Ride Request Failed:`, error);
-      const errorResult = {
-        status: "error",
-        summary: `Failed to request Uber ride to ${destination}`,
-        data: {
-          destination,
-          error: error?.message || String(error)
-        }
-      };
+/**
+ * Ask every merchant offering a capability for its 402 without paying
+ */
+async function collectOffers(routes: MerchantRoute[], args: Record<string, any>) {
+  const offers: Array<{ route: MerchantRoute; resource: string; requirement: PaymentChallenge }> = [];
+  const unpaid = axios.create({ headers: { Accept: "application/json" }, timeout: 10000, validateStatus: () => true });
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(errorResult, null, 2) }],
-        structuredContent: errorResult,
-      };
+  for (const route of routes) {
+    try {
+      const response = await sendRouteRequest(unpaid, route, args, { baseURL: route.baseURL });
+      if (response.status === 402) {
+        offers.push(...(response.data?.accepts || []).map((requirement: PaymentChallenge) => ({ route, resource: route.resource, requirement })));
+      } else {
+        console.warn(`⚠️  ${route.merchant} answered ${route.method} ${route.path} with ${response.status} instead of 402`);
+      }
+    } catch (error: any) {
+      console.warn(`⚠️  ${route.merchant} is unreachable: ${error?.message || error}`);
     }
   }
-);
-
-mcp.registerTool(
-  "get_paid_weather",
-  {
-    title: "Get Paid Weather Data",
-    description: "Calls a paid x402 API to get weather data for a location. Automatically handles payment with wallet on Polygon Amoy. Requires 0.001 USDC per request.",
-    inputSchema: {
-      location: z.string().describe("City name (e.g., 'Miami', 'Tokyo', 'London')"),
-    },
-    outputSchema: {
-      status: z.string(),
-      data: z.object({
-        location: z.string().optional(),
-        weather: z.string().optional(),
-        temperature: z.number().optional(),
-        humidity: z.number().optional(),
-        timestamp: z.string().optional(),
-        paymentInfo: z.object({
-          paid: z.boolean(),
-          amount: z.string().optional(),
-        }).optional(),
-        error: z.string().optional(),
-      }).optional(),
-    },
-  },
-  async ({ location }) => {
-    try {
-      // Initialize wallet service
-      await walletService.initialize();
-      const privateKey = await walletService.getPrivateKey();
-
-      console.log(`\n💳 Making paid API call for weather in ${location} (Polygon Amoy)`);
-
-      // Create signer for x402 payments on Polygon Amoy
-      const signer = await createSigner("polygon-amoy", privateKey as Hex);
-
-      // Create axios instance with payment interceptor
-      const api = withPaymentInterceptor(
-        axios.create({
-          baseURL: process.env.PAYMENT_SERVER_URL || "http://localhost:4021",
-        }),
-        signer
-      );
-
-      // Make the request - payment is handled automatically
-      const response = await api.get(`/weather?location=${encodeURIComponent(location)}`);
-
-      console.log(`\n✅ Paid weather data received for ${location} (Polygon Amoy)`);
-
-      const result = {
-        status: "success",
-        data: {
-          ...response.data,
-          paymentInfo: {
-            paid: true,
-            amount: "0.001 USDC"
-          }
-        }
-      };
 
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(result, null, 2)
-        }],
-        structuredContent: result,
-      };
+  return offers;
+}
 
-    } catch (error: any) {
-      console.error(`\n❌ Paid weather API call failed:`, error);
-      const errorResult = {
-        status: "error",
-        data: {
-          location,
-          error: error?.message || String(error)
-        }
-      };
+// How long a paid tool waits for a merchant job (MERCHANT_JOB_TIMEOUT_SECONDS)
+const merchantJobTimeoutMs = parseInt(process.env.MERCHANT_JOB_TIMEOUT_SECONDS || "600", 10) * 1000;
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(errorResult, null, 2) }],
-        structuredContent: errorResult,
-      };
-    }
-  }
-);
-
-mcp.registerTool(
-  "get_evvm_weather",
-  {
-    title: "Get EVVM Paid Weather Data",
-    description: "Calls a paid EVVM x402 API to get weather data. Uses EVVM signature-based payments on Sepolia. Requires 1 token unit per request.",
-    inputSchema: {
-      location: z.string().describe("City name (e.g., 'Miami', 'Tokyo', 'London')"),
-    },
-    outputSchema: {
-      status: z.string(),
-      data: z.object({
-        location: z.string().optional(),
-        weather: z.string().optional(),
-        temperature: z.number().optional(),
-        humidity: z.number().optional(),
-        timestamp: z.string().optional(),
-        paymentInfo: z.object({
-          paid: z.boolean(),
-          transactionHash: z.string().optional(),
-          from: z.string().optional(),
-          to: z.string().optional(),
-          amount: z.string().optional(),
-        }).optional(),
-        error: z.string().optional(),
-      }).optional(),
-    },
-  },
-  async ({ location }) => {
-    try {
-      // Get private key from wallet service or environment
-      const privateKey = process.env.EVVM_PRIVATE_KEY as `0x${string}`;
+/**
+ * Pay for and call a discovered merchant capability - the handler behind every merchant tool
+ */
+const callPaidRoute: PaidRouteCaller = async (routes, toolName, args, extra) => {
+  let payment: PaymentTrace | null = null;
+  const progress = progressFor(extra);
 
-      if (!privateKey) {
-        throw new Error("EVVM_PRIVATE_KEY not found in environment variables");
-      }
+  try {
+    // With session wallets on, each caller pays only from its own capped wallet
+    const sessionWallet = sessionWallets ? await sessionWallets.forSession(extra) : null;
 
-      console.log(`\n💳 Making EVVM paid API call for weather in ${location}`);
-
-      // Create axios instance with EVVM payment interceptor
-      const api = withEVVMPaymentInterceptor(
-        axios.create({
-          baseURL: process.env.EVVM_SERVER_URL || "http://localhost:4022",
-        }),
-        privateKey
-      );
-
-      // Make the request - EVVM payment is handled automatically
-      const response = await api.get(`/weather?location=${encodeURIComponent(location)}`);
-
-      console.log(`\n✅ EVVM paid weather data received for ${location}`);
-
-      // Decode payment response from headers
-      const paymentResponse = decodeEVVMPaymentResponse(
-        response.headers["x-payment-response"]
-      );
-
-      const result = {
-        status: "success",
-        data: {
-          ...response.data,
-          paymentInfo: paymentResponse ? {
-            paid: true,
-            transactionHash: paymentResponse.transactionHash,
-            from: paymentResponse.from,
-            to: paymentResponse.to,
-            amount: paymentResponse.amount,
-          } : {
-            paid: true,
-          }
-        }
-      };
+    progress(0, `🔎 Checking prices with ${routes.map(r => r.merchant).join(", ")}...`);
+    const { option, rail } = await railSelectorFor(sessionWallet).select(await collectOffers(routes, args));
+    const { route, requirement } = option;
 
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(result, null, 2)
-        }],
-        structuredContent: result,
-      };
+    payment = paymentLedger.begin(toolName, args, route.resource);
+    payment.useRail(rail);
 
-    } catch (error: any) {
-      console.error(`\n❌ EVVM paid weather API call failed:`, error);
-      const errorResult = {
-        status: "error",
-        data: {
-          location,
-          error: error?.message || String(error)
-        }
-      };
+    console.log(`\n💳 ${toolName}: ${route.method} ${route.resource} for ${describePrice(requirement)} (${rail.strategy})`);
+    progress(10, `💰 Paying ${describePrice(requirement)} to ${route.merchant}...`);
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(errorResult, null, 2) }],
-        structuredContent: errorResult,
-      };
-    }
-  }
-);
-
-mcp.registerTool(
-  "request_uber_evvm",
-  {
-    title: "Request Uber Ride (EVVM Payment)",
-    description: "Calls the EVVM paid API to request an Uber ride using AI agent automation. Uses EVVM signature-based payments on Sepolia. Requires 2 token units per request.",
-    inputSchema: {
-      destination: z.string().describe("The destination address for the Uber ride"),
-    },
-    outputSchema: {
-      status: z.string(),
-      summary: z.string().optional(),
-      data: z.object({
-        destination: z.string().optional(),
-        rideType: z.string().optional(),
-        price: z.string().optional(),
-        confirmationText: z.string().optional(),
-        error: z.string().optional(),
-      }).optional(),
-      paymentInfo: z.object({
-        paid: z.boolean(),
-        transactionHash: z.string().optional(),
-        from: z.string().optional(),
-        to: z.string().optional(),
-        amount: z.string().optional(),
-      }).optional(),
-    },
-  },
-  async ({ destination }, extra) => {
-    try {
-      // Get progress token from metadata
-      const token = extra._meta?.progressToken;
-
-      // Helper function to send progress notifications
-      const progress = (p: number, total?: number, message?: string) => {
-        if (!token) return; // client didn't ask for progress
-        extra.sendNotification({
-          method: "notifications/progress",
-          params: {
-            progressToken: token,
-            progress: p,
-            total,
-          },
-        } as any);
-        if (message) {
-          console.log(`[Progress ${p}/${total}] ${message}`);
-        }
-      };
+    const api = await createRailClient(route.baseURL, payment, rail, sessionWallet);
 
-      progress(0, 100, "🚀 Starting EVVM payment and Uber ride request...");
+    progress(20, `📡 Sending request to ${route.merchant}...`);
 
-      // Get private key from environment
-      const privateKey = process.env.EVVM_PRIVATE_KEY as `0x${string}`;
+    // Make the request - payment is handled automatically
+    const response = await sendRouteRequest(api, route, args);
 
-      if (!privateKey) {
-        throw new Error("EVVM_PRIVATE_KEY not found in environment variables");
+    // Job routes (agent automation) answer 202 once the payment is verified; follow the
+    // job's steps to its result. Held payments settle only if the job succeeds.
+    let body = response.data;
+    if (response.status === 202 && isJobAccepted(body)) {
+      progress(25, `⚙️  ${route.merchant} started job ${body.jobId}`);
+      const job = await waitForJob(route.baseURL, body, {
+        onStep: (step, index) => progress(stepProgress(25, index + 1), `🤖 ${step.message}`),
+        timeoutMs: merchantJobTimeoutMs,
+        // A cancelled tool call cancels the merchant's job, which stops its agent
+        signal: extra.signal,
+      });
+      if (policyEngine) {
+        settleJobReservation(policyEngine, response, job);
       }
-
-      console.log(`\n💳 Making EVVM paid API call to request Uber to ${destination}`);
-      progress(10, 100, "💰 Processing EVVM payment signature...");
-
-      // Create axios instance with EVVM payment interceptor
-      const api = withEVVMPaymentInterceptor(
-        axios.create({
-          baseURL: process.env.EVVM_SERVER_URL || "http://localhost:4022",
-        }),
-        privateKey
-      );
-
-      progress(20, 100, "📡 Sending request to EVVM server...");
-
-      // Start a progress updater for long-running agent task
-      const startTime = Date.now();
-      const progressInterval = setInterval(() => {
-        const elapsed = Math.floor((Date.now() - startTime) / 1000);
-        const currentProgress = Math.min(30 + elapsed * 2, 90); // 30-90% during agent work
-        progress(currentProgress, 100, `🤖 Agent processing Uber request... (${elapsed}s elapsed)`);
-      }, 10000);
-
-      try {
-        // Make the POST request - EVVM payment is handled automatically
-        const response = await api.post("/request-uber", {
-          destination,
+      if (job.payment?.status === "settled" && job.payment.transaction && !payment.paymentInfo().transactionHash) {
+        payment.settle({ success: true, transaction: job.payment.transaction, network: job.payment.network, payer: job.payment.payer });
+      }
+      if (job.status === "failed") {
+        // Upfront payments come back as a refund; held ones were never settled
+        const refund: PaymentRefund | undefined = job.payment?.status === "refunded" || job.payment?.status === "refund_failed"
+          ? { status: job.payment.status === "refunded" ? "refunded" : "failed", transaction: job.payment.refundTransaction, error: job.payment.error }
+          : undefined;
+        throw Object.assign(new Error(job.error?.summary || `Job ${job.id} failed`), {
+          response: { data: { ...job.error, ...(refund ? { refund } : {}), payment: job.payment } },
         });
-
-        clearInterval(progressInterval);
-        progress(95, 100, "✅ Uber ride request completed!");
-
-        console.log(`\n✅ EVVM paid Uber request completed for ${destination}`);
-
-        // Decode payment response from headers
-        const paymentResponse = decodeEVVMPaymentResponse(
-          response.headers["x-payment-response"]
-        );
-
-        const result = {
-          ...response.data,
-          paymentInfo: paymentResponse ? {
-            paid: true,
-            transactionHash: paymentResponse.transactionHash,
-            from: paymentResponse.from,
-            to: paymentResponse.to,
-            amount: paymentResponse.amount,
-          } : {
-            paid: true,
-          }
-        };
-
-        progress(100, 100, "🎉 Complete!");
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }],
-          structuredContent: result,
-        };
-      } finally {
-        clearInterval(progressInterval);
       }
+      body = job.result;
+    }
+    payment.succeed();
 
-    } catch (error: any) {
-      console.error(`\n❌ EVVM paid Uber request failed:`, error);
-      const errorResult = {
-        status: "error",
-        summary: `Failed to request Uber to ${destination}`,
-        data: {
-          destination,
-          error: error?.message || String(error)
-        }
-      };
+    console.log(`\n✅ ${toolName} completed (${rail.scheme} on ${rail.network})`);
+    progress(100, "🎉 Complete!");
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(errorResult, null, 2) }],
-        structuredContent: errorResult,
-      };
+    // Agent results already carry a status; plain data is wrapped
+    const result = body && typeof body === "object" && typeof body.status === "string"
+      ? { ...body, paymentInfo: payment.paymentInfo() }
+      : { status: "success", data: body, paymentInfo: payment.paymentInfo() };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+
+  } catch (error: any) {
+    if (error instanceof PolicyDeniedError) {
+      // Denied while choosing the rail, before anything was sent: recorded all the same
+      (payment || paymentLedger.begin(toolName, args, routes[0].resource)).fail(error, "policy_denied");
+      return policyDeniedResult(error, args, `Payment for ${toolName} was blocked by the spending policy`);
+    }
+    // Errors the merchant returned (e.g. a failed agent run) are passed through, with
+    // the refund of the payment when the merchant sent one
+    const merchantError = error?.response?.data;
+    if (merchantError?.refund) {
+      payment?.refund(merchantError.refund, error);
+    } else {
+      payment?.fail(error);
     }
+    console.error(`\n❌ ${toolName} failed:`, error?.message || error);
+
+    const errorResult = {
+      status: "error",
+      summary: merchantError?.summary || `${routes[0].description} failed`,
+      data: {
+        ...args,
+        error: merchantError?.data?.error || merchantError?.error || error?.message || String(error),
+        ...(error instanceof NoPayableRailError ? { alternatives: error.alternatives } : {}),
+      },
+      ...(payment ? { paymentInfo: payment.paymentInfo() } : {}),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(errorResult, null, 2) }],
+      structuredContent: errorResult,
+    };
   }
-);
-
-mcp.registerTool(
-  "request_uber_x402",
-  {
-    title: "Request Uber Ride (Polygon x402 Payment)",
-    description: "Calls the Polygon x402 paid API to request an Uber ride using AI agent automation. Uses facilitator-based payments on Polygon Amoy. Requires 0.002 USDC per request.",
-    inputSchema: {
-      destination: z.string().describe("The destination address for the Uber ride"),
-    },
-    outputSchema: {
-      status: z.string(),
-      summary: z.string().optional(),
-      data: z.object({
-        destination: z.string().optional(),
-        rideType: z.string().optional(),
-        price: z.string().optional(),
-        confirmationText: z.string().optional(),
-        error: z.string().optional(),
-      }).optional(),
+};
+
+// Paid merchant routes (MERCHANTS_FILE, or the x402 and EVVM payment servers) as MCP tools
+const merchantTools = new MerchantToolRegistry(loadMerchants(process.env.MERCHANTS_FILE), callPaidRoute);
+
+const paymentFilterSchema = {
+  from: z.string().optional().describe("Only payments started at or after this ISO date/time"),
+  to: z.string().optional().describe("Only payments started before this ISO date/time"),
+  network: z.string().optional().describe("Network name (e.g., 'polygon-amoy', 'sepolia')"),
+  tool: z.string().optional().describe("Paid tool name (e.g., 'request_uber')"),
+  host: z.string().optional().describe("Merchant host (e.g., 'localhost:4021')"),
+};
+
+/**
+ * Payment ledger and wallet tools
+ */
+function registerWalletTools(mcp: McpServer): void {
+  mcp.registerTool(
+    "list_payments",
+    {
+      title: "List Payments",
+      description: "Lists payments made by this server's paid tools from the payment ledger, newest first. Includes the 402 challenge, signed amount, settlement transaction, any merchant refund and outcome.",
+      inputSchema: {
+        ...paymentFilterSchema,
+        outcome: z.enum(["pending", "success", "error", "policy_denied", "refunded"]).optional().describe("Only payments with this outcome"),
+        limit: z.number().int().positive().max(500).optional().describe("Maximum number of payments to return (default 50)"),
+      },
+      outputSchema: {
+        payments: z.array(z.object({
+          paymentId: z.string(),
+          tool: z.string(),
+          argsHash: z.string(),
+          host: z.string(),
+          url: z.string().optional(),
+          startedAt: z.string(),
+          network: z.string().optional(),
+          scheme: z.string().optional(),
+          asset: z.string().optional(),
+          amount: z.string().optional(),
+          payTo: z.string().optional(),
+          payer: z.string().optional(),
+          transactionHash: z.string().optional(),
+          settlement: z.record(z.any()).optional(),
+          refund: z.object({ status: z.string(), transaction: z.string().optional(), error: z.string().optional() }).optional(),
+          challenge: z.array(z.any()).optional(),
+          outcome: z.string(),
+          error: z.string().optional(),
+        })),
+      },
     },
-  },
-  async ({ destination }) => {
-    try {
-      // Initialize wallet service
-      await walletService.initialize();
-      const privateKey = await walletService.getPrivateKey();
-
-      console.log(`\n💳 Making Polygon x402 paid API call to request Uber to ${destination}`);
-
-      // Create signer for x402 payments on Polygon Amoy
-      const signer = await createSigner("polygon-amoy", privateKey as Hex);
-
-      // Create axios instance with payment interceptor
-      const api = withPaymentInterceptor(
-        axios.create({
-          baseURL: process.env.PAYMENT_SERVER_URL || "http://localhost:4021",
-        }),
-        signer
-      );
-
-      // Make the POST request - payment is handled automatically
-      const response = await api.post("/request-uber", {
-        destination,
-      });
+    async ({ outcome, limit, ...filter }) => {
+      const payments = await paymentLedger.listPayments({ ...filter, outcome }, limit);
+      const output = { payments };
 
-      console.log(`\n✅ Polygon x402 paid Uber request completed for ${destination}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
+      };
+    }
+  );
+
+  mcp.registerTool(
+    "get_spend_summary",
+    {
+      title: "Get Spend Summary",
+      description: "Summarizes successful spend from the payment ledger grouped by network, asset, tool, host or day. Totals are in atomic token units.",
+      inputSchema: {
+        ...paymentFilterSchema,
+        groupBy: z.enum(["network", "asset", "tool", "host", "day"]).optional().describe("How to group the totals (default 'network')"),
+      },
+      outputSchema: {
+        groupBy: z.string(),
+        payments: z.number(),
+        failed: z.number(),
+        denied: z.number(),
+        rows: z.array(z.object({
+          key: z.string(),
+          payments: z.number(),
+          total: z.string(),
+          assets: z.record(z.string()),
+        })),
+      },
+    },
+    async ({ groupBy, ...filter }) => {
+      const summary = { ...await paymentLedger.getSpendSummary(filter, groupBy) };
 
       return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(response.data, null, 2)
-        }],
-        structuredContent: response.data,
+        content: [{ type: "text", text: JSON.stringify(summary, null, 2) }],
+        structuredContent: summary,
       };
+    }
+  );
+
+  mcp.registerTool(
+    "get_wallet_balances",
+    {
+      title: "Get Wallet Balances",
+      description: "Reads the native and token (USDC by default) balances of this server's payment wallets on every configured chain: the x402 wallet, and the EVVM wallet on Sepolia when an EVVM signer is configured, and the caller's session wallet when it has one. Balances are in atomic units with a formatted value; unreachable networks report an error per entry.",
+      inputSchema: {
+        networks: z.array(z.string()).optional().describe(`Networks to read (default all: ${chainRegistry.networks().join(", ")})`),
+        tokens: z.array(z.string()).optional().describe("Token symbols or addresses (default every configured token, e.g. 'usdc')"),
+        includeNative: z.boolean().optional().describe("Include the native coin balance (default true)"),
+      },
+      outputSchema: {
+        wallets: z.array(z.object({
+          wallet: z.string(),
+          address: z.string(),
+          balances: z.array(z.object({
+            network: z.string(),
+            chainId: z.number(),
+            asset: z.string(),
+            native: z.boolean(),
+            token: z.string().optional(),
+            balance: z.string().optional(),
+            formatted: z.string().optional(),
+            decimals: z.number(),
+            error: z.string().optional(),
+          })),
+        })),
+      },
+    },
+    async ({ networks, tokens, includeNative }, extra) => {
+      const unknown = (networks || []).filter(network => !chainRegistry.has(network));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown network(s) ${unknown.join(", ")} (configured: ${chainRegistry.networks().join(", ")})`);
+      }
 
-    } catch (error: any) {
-      console.error(`\n❌ Polygon x402 paid Uber request failed:`, error);
-      const errorResult = {
-        status: "error",
-        summary: `Failed to request Uber to ${destination}`,
-        data: {
-          destination,
-          error: error?.message || String(error)
+      const query = { tokens, native: includeNative };
+      const wallets = [];
+
+      if (walletService.isConfigured()) {
+        const address = await walletService.getAddress();
+        const balances = await walletService.getBalances({ ...query, networks });
+        wallets.push({ wallet: "x402", address, balances: balances.map(({ address: _, ...b }) => b) });
+      }
+
+      const evvm = getEvvmSigner();
+      if (evvm) {
+        const address = await evvm.getAddress();
+        const evvmNetworks = (networks || [EVVM_NETWORK]).filter(network => network === EVVM_NETWORK);
+        if (evvmNetworks.length > 0 && chainRegistry.has(EVVM_NETWORK)) {
+          const balances = await walletService.getBalances({ ...query, address, networks: evvmNetworks });
+          wallets.push({ wallet: "evvm", address, balances: balances.map(({ address: _, ...b }) => b) });
         }
-      };
+      }
 
+      const walletKey = walletKeyOf(extra);
+      const sessionWallet = walletKey ? sessionWallets?.get(walletKey) : undefined;
+      if (sessionWallet && (!networks || networks.includes(sessionWallet.network))) {
+        const balances = await walletService.getBalances({ ...query, address: sessionWallet.address, networks: [sessionWallet.network] });
+        wallets.push({ wallet: "session", address: sessionWallet.address, balances: balances.map(({ address: _, ...b }) => b) });
+      }
+
+      const output = { wallets };
       return {
-        content: [{ type: "text", text: JSON.stringify(errorResult, null, 2) }],
-        structuredContent: errorResult,
+        content: [{ type: "text", text: JSON.stringify(output, null, 2) }],
+        structuredContent: output,
       };
     }
+  );
+}
+
+/**
+ * Tool group used by tools:<group> scopes; discovered merchant tools are "paid"
+ */
+function toolGroupOf(tool: string): string {
+  switch (tool) {
+    case "echo":
+      return "basic";
+    case "amazon_buy_product":
+    case "uber_request_ride":
+    case "list_task_templates":
+    case "run_task":
+      return "agent";
+    case "list_payments":
+    case "get_spend_summary":
+    case "get_wallet_balances":
+      return "wallet";
+    default:
+      return "paid";
   }
-);
+}
 
-// 3) Handle MCP requests (new transport per request)
-app.post("/mcp", async (req, res) => {
-  const transport = new StreamableHTTPServerTransport({
-    sessionIdGenerator: undefined, // stateless OK for serverless
-    enableJsonResponse: true,
-  });
+// Bearer auth for /mcp (API keys and/or OAuth), with tool access by scope and an audit log
+const mcpAuthConfig = mcpAuthConfigFromEnv(process.env.PORT || 3000);
+const toolAudit = new ToolAuditLog(mcpAuthConfig.auditFile);
 
-  res.on("close", () => transport.close());
+if (mcpAuthConfig.enabled) {
+  app.use(createMcpAuthRouter(mcpAuthConfig, toolGroupOf, toolAudit));
+} else {
+  console.warn("⚠️  MCP_API_KEYS_FILE and OAUTH_ISSUER not set - anyone who can reach /mcp can call paid tools");
+}
+
+/**
+ * Create an MCP server with the tools the caller may use (one per session, or per
+ * request when stateless)
+ */
+function createMcpServer(auth?: AuthInfo): McpServer {
+  const mcp = withToolAccess(new McpServer({
+    name: "my-dual-client-server",
+    version: "0.1.0",
+  }, { capabilities: { logging: {} } }), auth, toolGroupOf, toolAudit);
+
+  registerAgentTools(mcp, { agents, templates: taskTemplates, approvalHandlerFor });
+  registerWalletTools(mcp);
+  merchantTools.attach(mcp);
+  return mcp;
+}
 
-  await mcp.connect(transport);
-  await transport.handleRequest(req, res, req.body);
+// Handle MCP requests: sessions with resumable SSE streams, or stateless (MCP_SESSION_MODE)
+const mcpSessions = new McpSessionManager({
+  config: mcpSessionConfigFromEnv(),
+  createServer: createMcpServer,
+  onServerClosed: server => merchantTools.detach(server),
+  // A session's wallet is swept back as soon as the session ends
+  onSessionClosed: sessionId => sessionWallets?.release(sessionId),
 });
+app.use(createMcpRouter(mcpSessions));
 
 // health check
 app.get("/", (_req, res) => res.send("ok"));
 
+// health of the agent's MCP servers (when using MCP_SERVERS_FILE)
+app.get("/health", (_req, res) => {
+  res.json({
+    status: "ok",
+    mcpServers: mcpConnections.flatMap((connection, session) => connection instanceof MCPClientPool
+      ? connection.getHealth().map(health => ({ session, ...health }))
+      : []),
+    agentPool: agents.stats(),
+    merchantTools: merchantTools.getTools().map(({ tool, routes }) => `${tool} → ${routes.map(r => r.resource).join(", ")}`),
+    paymentStrategy: railSelection.strategy,
+    sessionWallets: sessionWallets ? sessionWallets.list("active").length : undefined,
+    mcpSessionMode: mcpSessions.mode,
+    mcpSessions: mcpSessions.mode === "stateful" ? mcpSessions.list().length : undefined,
+  });
+});
+
 const port = process.env.PORT || 3000;
-app.listen(port, () => {
-  console.log(`MCP server running on http://localhost:${port}/mcp`);
+const merchantRefreshSeconds = Number(process.env.MERCHANT_REFRESH_SECONDS || 60);
+
+// Restore the spending budgets and discover merchant tools before accepting requests,
+// then keep the tools in sync. A ledger that can't be read would leave the budgets
+// reset, so the server doesn't start.
+restoreSpendingPolicy().catch(error => {
+  console.error("❌ Could not restore spending budgets from the payment ledger:", error);
+  process.exit(1);
+}).then(() => merchantTools.refresh()).finally(() => {
+  merchantTools.start(merchantRefreshSeconds * 1000);
+  sessionWallets?.start(60_000);
+  mcpSessions.start();
+  approvalQueue.start();
+  app.listen(port, () => {
+    console.log(`MCP server running on http://localhost:${port}/mcp (${mcpSessions.mode})`);
+  });
 });
@@ -0,0 +1,46 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { PaymentChallenge } from "./spending-policy.js";
+
+/**
+ * Fake 402 Server
+ * A local merchant stand-in that answers every request with a fixed 402 challenge
+ * and accepts any X-PAYMENT header without verifying or settling it.
+ * Useful for exercising spending policies without a facilitator or chain.
+ */
+export interface Fake402Server {
+  url: string;
+  /** Number of requests that arrived with a payment header */
+  paidRequests: () => number;
+  close: () => Promise<void>;
+}
+
+export async function startFake402Server(accepts: PaymentChallenge[], port: number = 0): Promise<Fake402Server> {
+  const app = express();
+  let paid = 0;
+
+  app.use((req, res) => {
+    if (!req.header("X-PAYMENT")) {
+      return res.status(402).json({
+        x402Version: 1,
+        error: "X-PAYMENT header is required",
+        accepts: accepts.map(a => ({ resource: `${req.protocol}://${req.get("host")}${req.path}`, ...a })),
+      });
+    }
+
+    paid++;
+    res.json({ status: "success", path: req.path, paidRequests: paid });
+  });
+
+  const server: Server = await new Promise(resolve => {
+    const s = app.listen(port, () => resolve(s));
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${boundPort}`,
+    paidRequests: () => paid,
+    close: () => new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
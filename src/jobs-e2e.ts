@@ -0,0 +1,87 @@
+import assert from 'assert';
+import express, { type Request } from 'express';
+import type { AddressInfo } from 'net';
+import { Job, JobManager, webhookUrlOf } from './jobs';
+import { runChecks } from './e2e-checks';
+
+/**
+ * Job checks: which webhook URLs a paid request may hand in, and where webhooks are sent.
+ *
+ * Usage: npx tsx src/jobs-e2e.ts
+ */
+
+function requestWith(webhookUrl: string): Request {
+  return { header: (name: string) => (name.toLowerCase() === 'x-webhook-url' ? webhookUrl : undefined) } as Request;
+}
+
+/**
+ * Run a job with a webhook to a local receiver; resolves with the job once its webhook
+ * was delivered or failed, and how many webhooks the receiver got
+ */
+async function deliverTo(host: string, allowedHosts?: string[]) {
+  let received = 0;
+  const app = express();
+  app.post('/hook', (_req, res) => {
+    received++;
+    res.sendStatus(204);
+  });
+  const server = app.listen(0);
+  const url = `http://${host}:${(server.address() as AddressInfo).port}/hook`;
+
+  try {
+    const jobs = new JobManager({ timeoutMs: 10_000, retentionMs: 60_000, webhookAttempts: 1, webhookAllowedHosts: allowedHosts });
+    const job = jobs.create('POST /hook-test', url);
+    jobs.run(job.id, async () => ({ status: 'success' }));
+
+    const deadline = Date.now() + 5000;
+    while (!job.webhook?.deliveredAt && !job.webhook?.lastError && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    return { job: job as Job, received };
+  } finally {
+    server.close();
+  }
+}
+
+runChecks('Jobs', [
+  ['webhooks to public http(s) hosts are accepted', () => {
+    assert.strictEqual(webhookUrlOf(requestWith('https://example.com/hooks/jobs')), 'https://example.com/hooks/jobs');
+    assert.strictEqual(webhookUrlOf(requestWith('http://93.184.216.34/hook')), 'http://93.184.216.34/hook');
+  }],
+
+  ['webhooks to loopback, link-local and private hosts are refused', () => {
+    for (const url of [
+      'http://localhost:4021/admin',
+      'http://api.localhost/hook',
+      'http://127.0.0.1/hook',
+      'http://10.1.2.3/hook',
+      'http://172.16.0.1/hook',
+      'http://192.168.1.1/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://0.0.0.0/hook',
+      'http://[::1]/hook',
+      'http://[fd00::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+    ]) {
+      assert.throws(() => webhookUrlOf(requestWith(url)), /loopback, link-local or private/, url);
+    }
+    assert.throws(() => webhookUrlOf(requestWith('ftp://example.com/hook')), /http\(s\) URL/);
+  }],
+
+  ['allowlisted private hosts are accepted', () => {
+    assert.strictEqual(webhookUrlOf(requestWith('http://localhost:9000/hook'), ['localhost']), 'http://localhost:9000/hook');
+    assert.throws(() => webhookUrlOf(requestWith('http://127.0.0.1:9000/hook'), ['localhost']));
+  }],
+
+  ['a name resolving to a private address gets no webhook', async () => {
+    const { job, received } = await deliverTo('localhost');
+    assert.strictEqual(received, 0);
+    assert.match(job.webhook?.lastError || '', /resolves to the private address/);
+  }],
+
+  ['an allowlisted host gets the webhook', async () => {
+    const { job, received } = await deliverTo('localhost', ['localhost']);
+    assert.strictEqual(received, 1);
+    assert.ok(job.webhook?.deliveredAt);
+  }],
+]);
@@ -0,0 +1,603 @@
+import { Router, type Request } from "express";
+import axios, { type LookupAddressEntry } from "axios";
+import { createHmac, randomUUID } from "crypto";
+import { lookup as dnsLookup } from "dns";
+import { BlockList, isIP } from "net";
+
+/**
+ * Jobs
+ * Long-running paid work (agent automation) runs in the background: the paid request
+ * is answered with 202 and a job ID once the payment has settled, GET /jobs/:id reports
+ * status, the step log and the final result, GET /jobs/:id/events streams the same as
+ * Server-Sent Events together with the agent's events, and an optional webhook is called
+ * when the job finishes. Jobs running past the timeout, or cancelled with
+ * POST /jobs/:id/cancel, are stopped and fail, and their payment is released or
+ * refunded like any other failure.
+ */
+
+export type JobStatus = "pending" | "running" | "succeeded" | "failed";
+
+export interface JobStep {
+  at: string;
+  message: string;
+  /** Tool the agent called in this step */
+  tool?: string;
+  error?: string;
+}
+
+/**
+ * What became of the payment for a job:
+ * - held: verified, settles when the job succeeds
+ * - settled: paid (up front, or on success)
+ * - released: the job failed before a held payment settled, so nothing was charged
+ * - refunded: paid up front and sent back after the job failed
+ * - settle_failed / refund_failed: see `error`
+ */
+export type JobPaymentStatus = "held" | "settled" | "released" | "refunded" | "settle_failed" | "refund_failed";
+
+export interface JobPayment {
+  status: JobPaymentStatus;
+  scheme: string;
+  network: string;
+  payer?: string;
+  amount?: string;
+  asset?: string;
+  /** Settlement transaction */
+  transaction?: string;
+  refundTransaction?: string;
+  error?: string;
+}
+
+export interface JobWebhook {
+  url: string;
+  attempts: number;
+  deliveredAt?: string;
+  lastError?: string;
+}
+
+export interface Job {
+  id: string;
+  /** Route the job was paid for, e.g. "POST /request-uber" */
+  type: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  steps: JobStep[];
+  /** Response body of the finished work (what the route would have returned) */
+  result?: Record<string, any>;
+  /** Error body when the job failed */
+  error?: Record<string, any>;
+  payment?: JobPayment;
+  webhook?: JobWebhook;
+}
+
+/**
+ * Body of the 202 a paid job route answers with
+ */
+export interface JobAccepted {
+  status: "accepted";
+  jobId: string;
+  statusUrl: string;
+  /** Server-Sent Events of the job */
+  eventsUrl?: string;
+}
+
+/**
+ * Handed to the work of a running job
+ */
+export interface JobContext {
+  readonly id: string;
+  /** Aborted when the job times out or is cancelled; the work should stop */
+  readonly signal: AbortSignal;
+  step(step: Omit<JobStep, "at">): void;
+  /** Publish a detail event (e.g. an agent event) on the job's event stream only */
+  event(type: string, data: Record<string, any>): void;
+}
+
+/**
+ * One event on GET /jobs/:id/events: "step" (a JobStep), "done" (the finished job), or
+ * whatever the work publishes (e.g. "agent")
+ */
+export interface JobEvent {
+  /** 1-based, the SSE event ID (Last-Event-ID resumes after it) */
+  id: number;
+  type: string;
+  data: Record<string, any>;
+}
+
+type JobEventListener = (event: JobEvent) => void;
+
+// Events kept per job for late subscribers and reconnects; older ones are dropped
+const MAX_JOB_EVENTS = 1000;
+
+export interface JobConfig {
+  /** Jobs still running after this long fail */
+  timeoutMs: number;
+  /** Finished jobs are kept this long for GET /jobs/:id */
+  retentionMs: number;
+  /** Signs webhook bodies (X-Job-Signature: sha256=<hex HMAC>) */
+  webhookSecret?: string;
+  webhookAttempts: number;
+  /**
+   * Webhook hosts that may be loopback, link-local or private (e.g. "localhost" or
+   * "10.0.0.5"); webhooks to any other such address are refused
+   */
+  webhookAllowedHosts?: string[];
+}
+
+/**
+ * Job settings from JOB_TIMEOUT_SECONDS, JOB_RETENTION_SECONDS, JOB_WEBHOOK_SECRET,
+ * JOB_WEBHOOK_ATTEMPTS and JOB_WEBHOOK_ALLOWED_HOSTS (comma-separated)
+ */
+export function jobConfigFromEnv(): JobConfig {
+  return {
+    timeoutMs: parseInt(process.env.JOB_TIMEOUT_SECONDS || "600", 10) * 1000,
+    retentionMs: parseInt(process.env.JOB_RETENTION_SECONDS || "3600", 10) * 1000,
+    webhookSecret: process.env.JOB_WEBHOOK_SECRET || undefined,
+    webhookAttempts: parseInt(process.env.JOB_WEBHOOK_ATTEMPTS || "3", 10),
+    webhookAllowedHosts: (process.env.JOB_WEBHOOK_ALLOWED_HOSTS || "").split(",").map(h => h.trim().toLowerCase()).filter(Boolean),
+  };
+}
+
+// Loopback, link-local, private and other non-public ranges a webhook must not reach
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise not public
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return PRIVATE_ADDRESSES.check(mapped[1], "ipv4");
+  }
+  const family = isIP(address);
+  return family === 4 ? PRIVATE_ADDRESSES.check(address, "ipv4")
+    : family === 6 ? PRIVATE_ADDRESSES.check(address, "ipv6")
+    : false;
+}
+
+/**
+ * Host of a URL as written in it, lowercased and without IPv6 brackets
+ */
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * DNS lookup for webhook deliveries that refuses names resolving to a private address,
+ * so a public name can't be pointed at the server's own network after it was accepted
+ */
+function publicLookup(allowedHosts: string[]) {
+  return (hostname: string, _options: object, callback: (error: Error | null, addresses: LookupAddressEntry[]) => void) => {
+    dnsLookup(hostname, { all: true }, (error, addresses) => {
+      if (error) {
+        return callback(error, []);
+      }
+      const allowed = allowedHosts.includes(hostname.toLowerCase());
+      const blocked = allowed ? undefined : addresses.find(a => isPrivateAddress(a.address));
+      if (blocked) {
+        return callback(new Error(`Webhook host ${hostname} resolves to the private address ${blocked.address}`), []);
+      }
+      callback(null, addresses.map(a => ({ address: a.address, family: a.family === 6 ? 6 : 4 })));
+    });
+  };
+}
+
+/**
+ * Webhook URL of a paid request (X-Webhook-Url header), if any. Loopback, link-local and
+ * private hosts are refused unless listed in `allowedHosts`; names are checked again
+ * against the addresses they resolve to when the webhook is delivered.
+ */
+export function webhookUrlOf(req: Request, allowedHosts: string[] = []): string | undefined {
+  const url = req.header("x-webhook-url");
+  if (!url) {
+    return undefined;
+  }
+  let parsed: URL | undefined;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // Reported below
+  }
+  if (!parsed || (parsed.protocol !== "http:" && parsed.protocol !== "https:")) {
+    throw new Error(`X-Webhook-Url must be an http(s) URL, got "${url}"`);
+  }
+  const host = hostOf(parsed);
+  const local = host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host);
+  if (local && !allowedHosts.includes(host)) {
+    throw new Error(`X-Webhook-Url must not point at a loopback, link-local or private host, got "${host}"`);
+  }
+  return url;
+}
+
+export class JobManager {
+  private config: JobConfig;
+  private jobs = new Map<string, Job>();
+  private events = new Map<string, { log: JobEvent[]; next: number; listeners: Set<JobEventListener> }>();
+  /** Stops the work of running jobs */
+  private controllers = new Map<string, AbortController>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(config: JobConfig) {
+    this.config = config;
+  }
+
+  get timeoutSeconds(): number {
+    return Math.ceil(this.config.timeoutMs / 1000);
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(status?: JobStatus): Job[] {
+    return [...this.jobs.values()].filter(job => !status || job.status === status);
+  }
+
+  /**
+   * Create a pending job; it runs once run() is called (after the payment settles)
+   */
+  create(type: string, webhookUrl?: string, payment?: JobPayment): Job {
+    const job: Job = {
+      id: randomUUID(),
+      type,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+      steps: [],
+      ...(payment ? { payment } : {}),
+      ...(webhookUrl ? { webhook: { url: webhookUrl, attempts: 0 } } : {}),
+    };
+    this.jobs.set(job.id, job);
+    this.events.set(job.id, { log: [], next: 1, listeners: new Set() });
+    return job;
+  }
+
+  /**
+   * Events of a job after `afterId`, then every new one until "done" (the listener is
+   * called synchronously with the backlog). Returns the unsubscribe function, or null for
+   * an unknown job.
+   */
+  subscribe(id: string, afterId: number, listener: JobEventListener): (() => void) | null {
+    const stream = this.events.get(id);
+    if (!stream) {
+      return null;
+    }
+    for (const event of stream.log) {
+      if (event.id > afterId) {
+        listener(event);
+      }
+    }
+    stream.listeners.add(listener);
+    return () => stream.listeners.delete(listener);
+  }
+
+  private publish(id: string, type: string, data: Record<string, any>): void {
+    const stream = this.events.get(id);
+    if (!stream) {
+      return;
+    }
+    const event: JobEvent = { id: stream.next++, type, data };
+    stream.log.push(event);
+    if (stream.log.length > MAX_JOB_EVENTS) {
+      stream.log.shift();
+    }
+    for (const listener of stream.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn(`⚠️  Job ${id} event listener failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Drop a pending job that will never run (e.g. its payment did not settle)
+   */
+  discard(id: string): void {
+    if (this.jobs.get(id)?.status === "pending") {
+      this.jobs.delete(id);
+      this.events.delete(id);
+    }
+  }
+
+  /**
+   * Stop a running job; it fails with a "cancelled" error. False when the job is not running.
+   */
+  cancel(id: string, reason: string = "Cancelled by the client"): boolean {
+    const job = this.jobs.get(id);
+    const controller = this.controllers.get(id);
+    if (!job || job.status !== "running" || !controller || controller.signal.aborted) {
+      return false;
+    }
+    console.log(`⏹️  Job ${id} cancelled: ${reason}`);
+    controller.abort(Object.assign(new Error(reason), {
+      body: { status: "error", summary: `${job.type} was cancelled`, data: { error: reason } },
+    }));
+    return true;
+  }
+
+  /**
+   * Run the job's work in the background. A thrown error with a `body` (EndpointError)
+   * becomes the job's error as-is. `finalize` runs once the job has succeeded, failed,
+   * timed out or been cancelled, before the webhook (e.g. to settle or refund the payment).
+   */
+  run(
+    id: string,
+    work: (context: JobContext) => Promise<Record<string, any>>,
+    finalize?: (job: Job) => Promise<void>
+  ): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "pending") {
+      throw new Error(`Job ${id} is not pending`);
+    }
+
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+    console.log(`\n⚙️  Job ${id} (${job.type}) started`);
+
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    // Set once the job has succeeded or stopped; anything the work reports later is dropped
+    let ended = false;
+
+    const context: JobContext = {
+      id,
+      signal: controller.signal,
+      step: step => {
+        if (ended) return;
+        const logged = { at: new Date().toISOString(), ...step };
+        job.steps.push(logged);
+        this.publish(id, "step", logged);
+      },
+      event: (type, data) => {
+        if (!ended) this.publish(id, type, data);
+      },
+    };
+
+    // A timeout aborts the work like a cancel does
+    const timer = setTimeout(() => controller.abort(Object.assign(new Error(`Job timed out after ${this.timeoutSeconds}s`), {
+      body: { status: "error", summary: `${job.type} timed out`, data: { error: `Job timed out after ${this.timeoutSeconds}s` } },
+    })), this.config.timeoutMs);
+    const stopped = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+    });
+
+    // Work that ignores the signal may still finish in the background, after the job has
+    // failed and its payment was released or refunded; its result is dropped
+    const running = work(context);
+    running.then(
+      () => controller.signal.aborted && console.warn(`⚠️  Job ${id} work finished after the job was stopped; its result is ignored`),
+      () => undefined
+    );
+
+    Promise.race([running, stopped])
+      .finally(() => {
+        ended = true;
+      })
+      .then(result => {
+        job.status = "succeeded";
+        job.result = result;
+        console.log(`✅ Job ${id} succeeded after ${job.steps.length} step(s)`);
+      })
+      .catch((error: any) => {
+        job.status = "failed";
+        job.error = error?.body || { status: "error", data: { error: error?.message || String(error) } };
+        console.error(`❌ Job ${id} failed: ${error?.message || error}`);
+      })
+      .then(async () => {
+        clearTimeout(timer);
+        this.controllers.delete(id);
+        try {
+          await finalize?.(job);
+        } catch (error: any) {
+          console.error(`❌ Finalizing job ${id} failed: ${error?.message || error}`);
+        }
+        job.finishedAt = new Date().toISOString();
+        this.publish(id, "done", job);
+        if (job.webhook) {
+          this.notify(job);
+        }
+      });
+  }
+
+  /**
+   * Forget finished jobs past the retention period
+   */
+  prune(): void {
+    const cutoff = Date.now() - this.config.retentionMs;
+    for (const job of this.jobs.values()) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.jobs.delete(job.id);
+        this.events.delete(job.id);
+      }
+    }
+  }
+
+  /**
+   * Prune finished jobs every intervalMs
+   */
+  start(intervalMs: number = 60_000): void {
+    this.stop();
+    this.timer = setInterval(() => this.prune(), intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * POST the finished job to its webhook, retrying with backoff
+   */
+  private async notify(job: Job): Promise<void> {
+    const webhook = job.webhook!;
+    const body = JSON.stringify(job);
+    const headers: Record<string, string> = { "Content-Type": "application/json", "X-Job-Id": job.id };
+    if (this.config.webhookSecret) {
+      headers["X-Job-Signature"] = `sha256=${createHmac("sha256", this.config.webhookSecret).update(body).digest("hex")}`;
+    }
+
+    while (webhook.attempts < this.config.webhookAttempts) {
+      webhook.attempts++;
+      try {
+        await axios.post(webhook.url, body, {
+          headers,
+          timeout: 10000,
+          maxRedirects: 0,
+          lookup: publicLookup(this.config.webhookAllowedHosts || []),
+        });
+        webhook.deliveredAt = new Date().toISOString();
+        delete webhook.lastError;
+        console.log(`📬 Job ${job.id} webhook delivered to ${webhook.url}`);
+        return;
+      } catch (error: any) {
+        webhook.lastError = error?.response ? `HTTP ${error.response.status}` : error?.message || String(error);
+        console.warn(`⚠️  Job ${job.id} webhook attempt ${webhook.attempts} failed: ${webhook.lastError}`);
+        if (webhook.attempts < this.config.webhookAttempts) {
+          await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (webhook.attempts - 1)));
+        }
+      }
+    }
+  }
+}
+
+/**
+ * GET /jobs/:id, GET /jobs/:id/events and POST /jobs/:id/cancel (free; job IDs are
+ * unguessable, so the ID is the access token)
+ */
+export function createJobRouter(manager: JobManager): Router {
+  const router = Router();
+
+  router.get("/jobs/:id", (req: Request<{ id: string }>, res) => {
+    const job = manager.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: `Job ${req.params.id} not found (unknown or expired)` });
+    }
+    res.json(job);
+  });
+
+  // Stop a running job; it fails and its payment is released or refunded
+  router.post("/jobs/:id/cancel", (req: Request<{ id: string }>, res) => {
+    const job = manager.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: `Job ${req.params.id} not found (unknown or expired)` });
+    }
+    if (!manager.cancel(job.id)) {
+      return res.status(409).json({ error: `Job ${job.id} is ${job.status}, not running` });
+    }
+    res.status(202).json({ status: "cancelling", jobId: job.id, statusUrl: `/jobs/${job.id}` });
+  });
+
+  // Server-Sent Events: the events so far, then live ones; the stream ends after "done".
+  // Reconnects resume after Last-Event-ID (header, or ?lastEventId for plain EventSource URLs).
+  router.get("/jobs/:id/events", (req: Request<{ id: string }>, res) => {
+    const job = manager.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: `Job ${req.params.id} not found (unknown or expired)` });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    let ended = false;
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 15_000);
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      clearInterval(keepAlive);
+      unsubscribe?.();
+      res.end();
+    };
+
+    const lastEventId = Number(req.header("last-event-id") ?? req.query.lastEventId) || 0;
+    const unsubscribe = manager.subscribe(job.id, lastEventId, event => {
+      if (ended) return;
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      if (event.type === "done") {
+        // Listeners are called during subscribe(), before `unsubscribe` is assigned
+        setImmediate(end);
+      }
+    });
+    if (job.finishedAt) {
+      // Finished before the request: the backlog (ending in "done", or nothing after Last-Event-ID) was all of it
+      setImmediate(end);
+    }
+    req.on("close", end);
+  });
+
+  return router;
+}
+
+export function isJobAccepted(body: any): body is JobAccepted {
+  return body?.status === "accepted" && typeof body.jobId === "string" && typeof body.statusUrl === "string";
+}
+
+export interface WaitForJobOptions {
+  /** Called with each step logged since the last poll */
+  onStep?: (step: JobStep, index: number) => void;
+  pollIntervalMs?: number;
+  /** Past this the job is cancelled on the merchant and waiting fails */
+  timeoutMs?: number;
+  /** Aborting stops waiting and cancels the job on the merchant */
+  signal?: AbortSignal;
+}
+
+/**
+ * Poll a merchant's job until it finishes (client side of a 202 job response). A job has
+ * finished once its payment was settled, released or refunded too (`finishedAt` is set),
+ * which is a moment after its status turned succeeded or failed.
+ */
+export async function waitForJob(baseURL: string, accepted: JobAccepted, options: WaitForJobOptions = {}): Promise<Job> {
+  const { onStep, pollIntervalMs = 1000, timeoutMs = 10 * 60_000, signal } = options;
+  const deadline = Date.now() + timeoutMs;
+  let seen = 0;
+
+  // The merchant stops the agent and releases or refunds the payment
+  const cancel = () => {
+    axios.post(`${accepted.statusUrl}/cancel`, null, { baseURL, timeout: 10000, validateStatus: () => true })
+      .then(response => console.log(`⏹️  Cancel of job ${accepted.jobId}: HTTP ${response.status}`))
+      .catch(error => console.warn(`⚠️  Could not cancel job ${accepted.jobId}: ${error?.message || error}`));
+  };
+  if (signal?.aborted) {
+    cancel();
+    throw signal.reason;
+  }
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  try {
+    while (true) {
+      const { data: job } = await axios.get<Job>(accepted.statusUrl, { baseURL, timeout: 10000, signal });
+      for (; seen < job.steps.length; seen++) {
+        onStep?.(job.steps[seen], seen);
+      }
+      if ((job.status === "succeeded" || job.status === "failed") && job.finishedAt) {
+        return job;
+      }
+      if (Date.now() > deadline) {
+        cancel();
+        throw new Error(`Job ${accepted.jobId} did not finish within ${timeoutMs / 1000}s (last status: ${job.status})`);
+      }
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+      signal?.throwIfAborted();
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+  }
+}
@@ -0,0 +1,128 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, randomUUID, scryptSync, timingSafeEqual } from "crypto";
+import { readFileSync, writeFileSync } from "fs";
+import { bytesToHex, hexToBytes, keccak256 } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+/**
+ * Keystore
+ * Password-protected JSON keystores (Web3 Secret Storage v3, as written by geth,
+ * foundry's `cast wallet new` and MetaMask exports). Keys are decrypted in memory
+ * only, for the keystore signer backend.
+ *
+ * Usage:
+ *   PRIVATE_KEY=0x... KEYSTORE_PASSWORD=... npm run keystore -- create ./wallet.json
+ *   KEYSTORE_PASSWORD=... npm run keystore -- address ./wallet.json
+ */
+
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    cipher: "aes-128-ctr";
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: Record<string, any>;
+    mac: string;
+  };
+}
+
+// scrypt N=2^17 takes about a second; decryption accepts whatever the file says
+const DEFAULT_SCRYPT = { n: 131072, r: 8, p: 1, dklen: 32 };
+
+function deriveKey(password: string, kdf: string, params: Record<string, any>): Buffer {
+  const salt = Buffer.from(params.salt, "hex");
+
+  if (kdf === "scrypt") {
+    const { n, r, p, dklen } = params;
+    return scryptSync(password, salt, dklen, { N: n, r, p, maxmem: 256 * n * r + 1024 * 1024 });
+  }
+  if (kdf === "pbkdf2") {
+    if (params.prf !== "hmac-sha256") {
+      throw new Error(`Unsupported keystore pbkdf2 prf "${params.prf}"`);
+    }
+    return pbkdf2Sync(password, salt, params.c, params.dklen, "sha256");
+  }
+  throw new Error(`Unsupported keystore kdf "${kdf}"`);
+}
+
+function macOf(derivedKey: Buffer, ciphertext: Buffer): Buffer {
+  return Buffer.from(hexToBytes(keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext]))));
+}
+
+/**
+ * Encrypt a private key into a v3 keystore
+ */
+export function encryptKeystore(privateKey: `0x${string}`, password: string): KeystoreV3 {
+  const kdfparams = { ...DEFAULT_SCRYPT, salt: randomBytes(32).toString("hex") };
+  const derivedKey = deriveKey(password, "scrypt", kdfparams);
+  const iv = randomBytes(16);
+
+  const cipher = createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(hexToBytes(privateKey))), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: "aes-128-ctr",
+      ciphertext: ciphertext.toString("hex"),
+      cipherparams: { iv: iv.toString("hex") },
+      kdf: "scrypt",
+      kdfparams,
+      mac: macOf(derivedKey, ciphertext).toString("hex"),
+    },
+  };
+}
+
+/**
+ * Decrypt a v3 keystore; throws on a wrong password
+ */
+export function decryptKeystore(keystore: KeystoreV3, password: string): `0x${string}` {
+  if (keystore.version !== 3) {
+    throw new Error(`Unsupported keystore version ${keystore.version}`);
+  }
+
+  const { cipher, ciphertext, cipherparams, kdf, kdfparams, mac } = keystore.crypto;
+  if (cipher !== "aes-128-ctr") {
+    throw new Error(`Unsupported keystore cipher "${cipher}"`);
+  }
+
+  const derivedKey = deriveKey(password, kdf, kdfparams);
+  const encrypted = Buffer.from(ciphertext, "hex");
+  if (!timingSafeEqual(macOf(derivedKey, encrypted), Buffer.from(mac, "hex"))) {
+    throw new Error("Keystore password is incorrect");
+  }
+
+  const decipher = createDecipheriv("aes-128-ctr", derivedKey.subarray(0, 16), Buffer.from(cipherparams.iv, "hex"));
+  return bytesToHex(Buffer.concat([decipher.update(encrypted), decipher.final()]));
+}
+
+export function readKeystore(path: string): KeystoreV3 {
+  return JSON.parse(readFileSync(path, "utf-8")) as KeystoreV3;
+}
+
+if (require.main === module) {
+  const [command, path] = process.argv.slice(2);
+  const password = process.env.KEYSTORE_PASSWORD;
+
+  if (!path || !password || !["create", "address"].includes(command)) {
+    console.error("Usage: KEYSTORE_PASSWORD=... [PRIVATE_KEY=0x...] npm run keystore -- <create|address> <file>");
+    process.exit(1);
+  }
+
+  if (command === "create") {
+    if (!process.env.PRIVATE_KEY) {
+      console.error("PRIVATE_KEY environment variable is required to create a keystore");
+      process.exit(1);
+    }
+    const keystore = encryptKeystore(process.env.PRIVATE_KEY as `0x${string}`, password);
+    writeFileSync(path, JSON.stringify(keystore, null, 2) + "\n", { mode: 0o600 });
+    console.log(`🔐 Keystore for 0x${keystore.address} written to ${path}`);
+  } else {
+    const address = privateKeyToAccount(decryptKeystore(readKeystore(path), password)).address;
+    console.log(`🔓 ${path} unlocks ${address}`);
+  }
+}
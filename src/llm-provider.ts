@@ -0,0 +1,138 @@
+import { MCPTool } from './mcp-client';
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { ScriptedProvider } from './scripted-provider';
+
+/**
+ * Provider-neutral shapes used by the agent loop.
+ * Each LLM backend converts these to and from its own SDK types.
+ */
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool arguments */
+  parameters: Record<string, any>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON string of the arguments, as produced by the model */
+  arguments: string;
+}
+
+export type LLMMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export type LLMAssistantMessage = Extract<LLMMessage, { role: 'assistant' }>;
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Ask for JSON final answers, optionally against a schema. Providers without a JSON
+ * mode ignore it and rely on the schema in the system prompt.
+ */
+export type LLMResponseFormat =
+  | { type: 'json' }
+  | { type: 'json_schema'; name: string; schema: Record<string, any> };
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  tools: LLMToolDefinition[];
+  temperature?: number;
+  responseFormat?: LLMResponseFormat;
+  /** Aborts the request when the run is cancelled */
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  message: LLMAssistantMessage;
+  model: string;
+  usage?: LLMUsage;
+  finishReason?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Model used when AgentConfig.model is not set */
+  readonly defaultModel: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Convert MCP tools to provider-neutral tool definitions
+ */
+export function toolDefinitionsFromMCP(tools: MCPTool[]): LLMToolDefinition[] {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description || `Execute ${tool.name} operation`,
+    parameters: tool.inputSchema || {
+      type: 'object',
+      properties: {},
+    },
+  }));
+}
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'anthropic' | 'scripted';
+
+/**
+ * Create a provider from environment variables
+ *
+ *   LLM_PROVIDER=openai (default)   uses OPENAI_API_KEY
+ *   LLM_PROVIDER=openai-compatible  uses LLM_BASE_URL (llama.cpp, Ollama, vLLM) and optional LLM_API_KEY
+ *                                   (LLM_STRUCTURED_OUTPUTS=on to send response_format)
+ *   LLM_PROVIDER=anthropic          uses ANTHROPIC_API_KEY
+ *   LLM_PROVIDER=scripted           replays LLM_SCRIPT_FILE (offline runs against the mock browser)
+ */
+export function createProviderFromEnv(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'openai') as ProviderName;
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY not found in environment variables');
+      }
+      return new OpenAIProvider({ apiKey });
+    }
+    case 'openai-compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible');
+      }
+      return new OpenAIProvider({
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL,
+        name: 'openai-compatible',
+        defaultModel: process.env.LLM_MODEL || 'local-model',
+        // Many local servers turn response_format into a grammar that rules out tool calls
+        structuredOutputs: process.env.LLM_STRUCTURED_OUTPUTS === 'on',
+      });
+    }
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY not found in environment variables');
+      }
+      return new AnthropicProvider({ apiKey });
+    }
+    case 'scripted': {
+      const path = process.env.LLM_SCRIPT_FILE;
+      if (!path) {
+        throw new Error('LLM_SCRIPT_FILE is required when LLM_PROVIDER=scripted');
+      }
+      return ScriptedProvider.fromFile(path);
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected openai, openai-compatible, anthropic or scripted)`);
+  }
+}
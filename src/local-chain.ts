@@ -0,0 +1,130 @@
+import { keccak256, toHex } from "viem";
+
+/**
+ * Local Chain
+ * In-memory token balances and an append-only transaction list shared by the
+ * local x402 facilitator and the EVVM relayer stand-in. Nothing is persisted;
+ * every harness run starts from the balances it funds.
+ */
+
+export interface LocalTransaction {
+  hash: `0x${string}`;
+  network: string;
+  blockNumber: number;
+  timestamp: string;
+  /** "transfer" for settled token transfers, "raw" for relayed transactions */
+  kind: "transfer" | "raw";
+  from: string;
+  to: string;
+  asset?: string;
+  amount?: string;
+  /** Calldata of relayed transactions */
+  data?: string;
+}
+
+export interface LocalTransfer {
+  network: string;
+  asset: string;
+  from: string;
+  to: string;
+  amount: bigint;
+  /** Authorization nonce; reusing one is rejected */
+  nonce?: string;
+}
+
+export class LocalChain {
+  private balances = new Map<string, bigint>();
+  private usedNonces = new Set<string>();
+  private transactions: LocalTransaction[] = [];
+
+  balanceOf(network: string, asset: string, address: string): bigint {
+    return this.balances.get(balanceKey(network, asset, address)) ?? 0n;
+  }
+
+  /**
+   * Credit an address out of thin air (test funding)
+   */
+  mint(network: string, asset: string, address: string, amount: bigint): void {
+    const key = balanceKey(network, asset, address);
+    this.balances.set(key, (this.balances.get(key) ?? 0n) + amount);
+  }
+
+  isNonceUsed(network: string, asset: string, from: string, nonce: string): boolean {
+    return this.usedNonces.has(nonceKey(network, asset, from, nonce));
+  }
+
+  /**
+   * Move tokens and record the transfer as a mined transaction
+   */
+  transfer(transfer: LocalTransfer): LocalTransaction {
+    const { network, asset, from, to, amount, nonce } = transfer;
+
+    if (nonce !== undefined) {
+      const key = nonceKey(network, asset, from, nonce);
+      if (this.usedNonces.has(key)) {
+        throw new Error(`Authorization nonce ${nonce} already used by ${from}`);
+      }
+      this.usedNonces.add(key);
+    }
+
+    const balance = this.balanceOf(network, asset, from);
+    if (balance < amount) {
+      throw new Error(`Insufficient balance: ${from} has ${balance}, needs ${amount}`);
+    }
+
+    this.balances.set(balanceKey(network, asset, from), balance - amount);
+    this.mint(network, asset, to, amount);
+
+    return this.record({ network, kind: "transfer", from, to, asset, amount: amount.toString() });
+  }
+
+  /**
+   * Record a transaction and assign it a hash and block
+   */
+  record(tx: Omit<LocalTransaction, "hash" | "blockNumber" | "timestamp"> & { hash?: `0x${string}` }): LocalTransaction {
+    const blockNumber = this.transactions.length + 1;
+    const entry: LocalTransaction = {
+      ...tx,
+      hash: tx.hash ?? keccak256(toHex(`${tx.network}:${blockNumber}:${tx.from}:${tx.to}:${tx.amount ?? tx.data ?? ""}`)),
+      blockNumber,
+      timestamp: new Date().toISOString(),
+    };
+    this.transactions.push(entry);
+    return entry;
+  }
+
+  getTransaction(hash: string): LocalTransaction | undefined {
+    return this.transactions.find(tx => tx.hash.toLowerCase() === hash.toLowerCase());
+  }
+
+  listTransactions(network?: string): LocalTransaction[] {
+    return network ? this.transactions.filter(tx => tx.network === network) : [...this.transactions];
+  }
+
+  /**
+   * Current block height (one block per transaction)
+   */
+  blockNumber(): number {
+    return this.transactions.length;
+  }
+
+  /**
+   * Every non-zero balance, for inspection endpoints
+   */
+  listBalances(): Array<{ network: string; asset: string; address: string; balance: string }> {
+    return [...this.balances.entries()]
+      .filter(([, balance]) => balance > 0n)
+      .map(([key, balance]) => {
+        const [network, asset, address] = key.split(":");
+        return { network, asset, address, balance: balance.toString() };
+      });
+  }
+}
+
+function balanceKey(network: string, asset: string, address: string): string {
+  return `${network}:${asset.toLowerCase()}:${address.toLowerCase()}`;
+}
+
+function nonceKey(network: string, asset: string, from: string, nonce: string): string {
+  return `${balanceKey(network, asset, from)}:${nonce.toLowerCase()}`;
+}
@@ -0,0 +1,201 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { keccak256, numberToHex, parseTransaction, recoverTransactionAddress, type TransactionSerialized } from "viem";
+import { LocalChain } from "./local-chain.js";
+
+/**
+ * Local EVVM Relayer Stand-in
+ * A minimal Ethereum JSON-RPC endpoint posing as Sepolia for the EVVM payment
+ * middleware's relayer: raw transactions are accepted, "mined" instantly with a
+ * successful receipt and recorded on a LocalChain. `eth_call` answers ERC-20
+ * `balanceOf` from local balances and returns a zero word for anything else,
+ * so contract reads that need real EVVM state are not modelled.
+ * Point `RPC_URL` at it to run the EVVM payment server without internet.
+ *
+ * Usage: tsx src/local-evvm-relayer.ts [--port 8545]
+ */
+
+export const SEPOLIA_CHAIN_ID = 11155111;
+export const EVVM_NETWORK = "sepolia";
+
+const BALANCE_OF_SELECTOR = "0x70a08231";
+const ZERO_WORD = `0x${"0".repeat(64)}`;
+const ZERO_HASH = `0x${"0".repeat(64)}`;
+const GAS_PRICE = 1_000_000_000n;
+
+export interface LocalRelayer {
+  url: string;
+  chain: LocalChain;
+  close: () => Promise<void>;
+}
+
+type RpcHandler = (params: any[]) => Promise<unknown> | unknown;
+
+/**
+ * Express app serving JSON-RPC on `POST /` plus `GET /transactions`
+ */
+export function createLocalRelayerApp(chain: LocalChain, chainId: number = SEPOLIA_CHAIN_ID): express.Express {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+
+  const nonces = new Map<string, number>();
+
+  const blockHash = (n: number) => keccak256(numberToHex(n));
+
+  const block = (n: number) => ({
+    number: numberToHex(n),
+    hash: blockHash(n),
+    parentHash: n > 0 ? blockHash(n - 1) : ZERO_HASH,
+    timestamp: numberToHex(Math.floor(Date.now() / 1000)),
+    gasLimit: numberToHex(30_000_000),
+    gasUsed: "0x0",
+    baseFeePerGas: numberToHex(GAS_PRICE),
+    miner: `0x${"0".repeat(40)}`,
+    difficulty: "0x0",
+    extraData: "0x",
+    logsBloom: `0x${"0".repeat(512)}`,
+    nonce: "0x0000000000000000",
+    sha3Uncles: ZERO_HASH,
+    size: "0x0",
+    stateRoot: ZERO_HASH,
+    receiptsRoot: ZERO_HASH,
+    transactionsRoot: ZERO_HASH,
+    transactions: chain.listTransactions(EVVM_NETWORK).filter(tx => tx.blockNumber === n).map(tx => tx.hash),
+    uncles: [],
+  });
+
+  const handlers: Record<string, RpcHandler> = {
+    eth_chainId: () => numberToHex(chainId),
+    net_version: () => String(chainId),
+    eth_blockNumber: () => numberToHex(chain.blockNumber()),
+    eth_gasPrice: () => numberToHex(GAS_PRICE),
+    eth_maxPriorityFeePerGas: () => numberToHex(GAS_PRICE),
+    eth_estimateGas: () => numberToHex(500_000),
+    eth_getBalance: () => numberToHex(10n ** 21n),
+    eth_getCode: () => "0x00",
+    eth_getTransactionCount: ([address]) => numberToHex(nonces.get(String(address).toLowerCase()) ?? 0),
+    eth_getBlockByNumber: ([tag]) => block(tag === "latest" || tag === "pending" ? chain.blockNumber() : Number(tag)),
+    eth_feeHistory: ([count]) => ({
+      oldestBlock: numberToHex(Math.max(0, chain.blockNumber() - Number(count) + 1)),
+      baseFeePerGas: Array(Number(count) + 1).fill(numberToHex(GAS_PRICE)),
+      gasUsedRatio: Array(Number(count)).fill(0.5),
+      reward: Array(Number(count)).fill([numberToHex(GAS_PRICE)]),
+    }),
+
+    eth_call: ([call]) => {
+      const data: string = call?.data || call?.input || "0x";
+      if (data.startsWith(BALANCE_OF_SELECTOR) && call?.to) {
+        const holder = `0x${data.slice(-40)}`;
+        return numberToHex(chain.balanceOf(EVVM_NETWORK, call.to, holder), { size: 32 });
+      }
+      return ZERO_WORD;
+    },
+
+    eth_sendRawTransaction: async ([raw]) => {
+      const serialized = raw as TransactionSerialized;
+      const tx = parseTransaction(serialized);
+      const from = await recoverTransactionAddress({ serializedTransaction: serialized as any });
+      nonces.set(from.toLowerCase(), (tx.nonce ?? 0) + 1);
+
+      const recorded = chain.record({
+        hash: keccak256(serialized),
+        network: EVVM_NETWORK,
+        kind: "raw",
+        from,
+        to: tx.to ?? "",
+        data: tx.data,
+      });
+      console.log(`⛓️  relayed ${recorded.hash} from ${from} to ${recorded.to} (block ${recorded.blockNumber})`);
+      return recorded.hash;
+    },
+
+    eth_getTransactionReceipt: ([hash]) => {
+      const tx = chain.getTransaction(hash);
+      if (!tx) return null;
+      return {
+        transactionHash: tx.hash,
+        transactionIndex: "0x0",
+        blockHash: blockHash(tx.blockNumber),
+        blockNumber: numberToHex(tx.blockNumber),
+        from: tx.from,
+        to: tx.to,
+        cumulativeGasUsed: numberToHex(21_000),
+        gasUsed: numberToHex(21_000),
+        effectiveGasPrice: numberToHex(GAS_PRICE),
+        contractAddress: null,
+        logs: [],
+        logsBloom: `0x${"0".repeat(512)}`,
+        status: "0x1",
+        type: "0x2",
+      };
+    },
+
+    eth_getTransactionByHash: ([hash]) => {
+      const tx = chain.getTransaction(hash);
+      if (!tx) return null;
+      return {
+        hash: tx.hash,
+        blockHash: blockHash(tx.blockNumber),
+        blockNumber: numberToHex(tx.blockNumber),
+        transactionIndex: "0x0",
+        from: tx.from,
+        to: tx.to,
+        input: tx.data ?? "0x",
+        value: "0x0",
+        nonce: "0x0",
+        gas: numberToHex(500_000),
+        gasPrice: numberToHex(GAS_PRICE),
+        type: "0x2",
+        chainId: numberToHex(chainId),
+      };
+    },
+  };
+
+  const dispatch = async (request: any) => {
+    const handler = handlers[request?.method];
+    if (!handler) {
+      return { jsonrpc: "2.0", id: request?.id ?? null, error: { code: -32601, message: `Method ${request?.method} not supported by the local relayer` } };
+    }
+
+    try {
+      return { jsonrpc: "2.0", id: request.id, result: await handler(request.params || []) };
+    } catch (error: any) {
+      return { jsonrpc: "2.0", id: request.id, error: { code: -32000, message: error?.message || String(error) } };
+    }
+  };
+
+  app.post("/", async (req, res) => {
+    res.json(Array.isArray(req.body) ? await Promise.all(req.body.map(dispatch)) : await dispatch(req.body));
+  });
+
+  app.get("/transactions", (req, res) => {
+    res.json({ transactions: chain.listTransactions(EVVM_NETWORK) });
+  });
+
+  return app;
+}
+
+export async function startLocalRelayer(chain: LocalChain = new LocalChain(), port: number = 0): Promise<LocalRelayer> {
+  const app = createLocalRelayerApp(chain);
+
+  const server: Server = await new Promise(resolve => {
+    const s = app.listen(port, () => resolve(s));
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${boundPort}`,
+    chain,
+    close: () => new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const port = args.includes("--port") ? Number(args[args.indexOf("--port") + 1]) : 8545;
+
+  startLocalRelayer(new LocalChain(), port).then(relayer => {
+    console.log(`\n⛓️  Local EVVM relayer (Sepolia JSON-RPC, chain ${SEPOLIA_CHAIN_ID}) running at ${relayer.url}`);
+  });
+}
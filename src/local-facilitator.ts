@@ -0,0 +1,270 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { getAddress, verifyTypedData } from "viem";
+import { EvmNetworkToChainId, evm, type ExactEvmPayload, type PaymentPayload, type PaymentRequirements, type SettleResponse, type VerifyResponse } from "x402/types";
+import { LocalChain } from "./local-chain.js";
+
+/**
+ * Local x402 Facilitator
+ * Implements the facilitator API (`POST /verify`, `POST /settle`, `GET /supported`)
+ * for the "exact" EVM scheme against a LocalChain: EIP-3009 signatures are checked
+ * with the same typed data the x402 client signs, and settlement moves balances in memory.
+ * Point `FACILITATOR_URL` at it to run the x402 payment server without internet.
+ *
+ * Usage: tsx src/local-facilitator.ts [--port 4020] [--fund 0xBuyer ...]
+ */
+
+/** Networks funded by default and advertised in /supported */
+export const LOCAL_NETWORKS = ["polygon-amoy", "base-sepolia"] as const;
+
+/** 100 USDC (6 decimals) */
+export const DEFAULT_FUNDING = 100_000_000n;
+
+export interface LocalFacilitator {
+  url: string;
+  chain: LocalChain;
+  close: () => Promise<void>;
+}
+
+/**
+ * USDC address x402 uses for a network
+ */
+export function usdcAddressFor(network: string): `0x${string}` {
+  const chainId = EvmNetworkToChainId.get(network as any);
+  const usdc = chainId !== undefined ? evm.config[chainId.toString()]?.usdcAddress : undefined;
+  if (!usdc) {
+    throw new Error(`No USDC address known for network ${network}`);
+  }
+  return usdc as `0x${string}`;
+}
+
+/**
+ * Credit an address with USDC on every local network
+ */
+export function fundAddress(chain: LocalChain, address: string, amount: bigint = DEFAULT_FUNDING): void {
+  for (const network of LOCAL_NETWORKS) {
+    chain.mint(network, usdcAddressFor(network), address, amount);
+  }
+}
+
+/**
+ * Check an exact-scheme EVM payment against its requirements and the local balances
+ */
+export async function verifyLocalPayment(
+  chain: LocalChain,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<VerifyResponse> {
+  const exact = payload.payload as ExactEvmPayload;
+  const authorization = exact?.authorization;
+  const payer = authorization?.from;
+  const invalid = (invalidReason: VerifyResponse["invalidReason"]): VerifyResponse => ({ isValid: false, invalidReason, payer });
+
+  if (payload.scheme !== "exact" || requirements.scheme !== "exact") {
+    return invalid("unsupported_scheme");
+  }
+  if (payload.network !== requirements.network) {
+    return invalid("invalid_network");
+  }
+
+  const chainId = EvmNetworkToChainId.get(requirements.network as any);
+  if (chainId === undefined) {
+    return invalid("invalid_network");
+  }
+  if (!authorization || !exact.signature) {
+    return invalid("invalid_payload");
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = await verifyTypedData({
+      address: getAddress(authorization.from),
+      types: evm.authorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      domain: {
+        name: requirements.extra?.name,
+        version: requirements.extra?.version,
+        chainId,
+        verifyingContract: getAddress(requirements.asset),
+      },
+      message: {
+        from: getAddress(authorization.from),
+        to: getAddress(authorization.to),
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce as `0x${string}`,
+      },
+      signature: exact.signature as `0x${string}`,
+    });
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    return invalid("invalid_exact_evm_payload_signature");
+  }
+
+  if (getAddress(authorization.to) !== getAddress(requirements.payTo)) {
+    return invalid("invalid_exact_evm_payload_recipient_mismatch");
+  }
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (BigInt(authorization.validBefore) < now + 6n) {
+    return invalid("invalid_exact_evm_payload_authorization_valid_before");
+  }
+  if (BigInt(authorization.validAfter) > now) {
+    return invalid("invalid_exact_evm_payload_authorization_valid_after");
+  }
+  if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+    return invalid("invalid_exact_evm_payload_authorization_value");
+  }
+  if (chain.isNonceUsed(requirements.network, requirements.asset, authorization.from, authorization.nonce)) {
+    return invalid("invalid_transaction_state");
+  }
+  if (chain.balanceOf(requirements.network, requirements.asset, authorization.from) < BigInt(requirements.maxAmountRequired)) {
+    return invalid("insufficient_funds");
+  }
+
+  return { isValid: true, payer };
+}
+
+/**
+ * Verify again, then transfer the authorized amount on the local chain
+ */
+export async function settleLocalPayment(
+  chain: LocalChain,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<SettleResponse> {
+  const verification = await verifyLocalPayment(chain, payload, requirements);
+  if (!verification.isValid) {
+    return {
+      success: false,
+      errorReason: verification.invalidReason,
+      payer: verification.payer,
+      transaction: "",
+      network: requirements.network,
+    };
+  }
+
+  const { authorization } = payload.payload as ExactEvmPayload;
+  const tx = chain.transfer({
+    network: requirements.network,
+    asset: requirements.asset,
+    from: authorization.from,
+    to: authorization.to,
+    amount: BigInt(authorization.value),
+    nonce: authorization.nonce,
+  });
+
+  return {
+    success: true,
+    payer: authorization.from,
+    transaction: tx.hash,
+    network: requirements.network,
+  };
+}
+
+/**
+ * Express app serving the facilitator API plus local inspection endpoints
+ */
+export function createLocalFacilitatorApp(chain: LocalChain): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  app.post("/verify", async (req, res) => {
+    const { paymentPayload, paymentRequirements } = req.body || {};
+    if (!paymentPayload || !paymentRequirements) {
+      return res.status(400).json({ isValid: false, invalidReason: "invalid_payload" });
+    }
+
+    const result = await verifyLocalPayment(chain, paymentPayload, paymentRequirements);
+    console.log(`🔎 verify ${result.payer ?? "?"} ${paymentRequirements.maxAmountRequired} on ${paymentRequirements.network}: ${result.isValid ? "valid" : result.invalidReason}`);
+    res.json(result);
+  });
+
+  app.post("/settle", async (req, res) => {
+    const { paymentPayload, paymentRequirements } = req.body || {};
+    if (!paymentPayload || !paymentRequirements) {
+      return res.status(400).json({ success: false, errorReason: "invalid_payload", transaction: "", network: "" });
+    }
+
+    try {
+      const result = await settleLocalPayment(chain, paymentPayload, paymentRequirements);
+      console.log(`💸 settle ${result.payer ?? "?"} on ${result.network}: ${result.success ? result.transaction : result.errorReason}`);
+      res.json(result);
+    } catch (error: any) {
+      console.error("❌ Local settlement failed:", error?.message || error);
+      res.json({
+        success: false,
+        errorReason: "unexpected_settle_error",
+        transaction: "",
+        network: paymentRequirements.network,
+      });
+    }
+  });
+
+  app.get("/supported", (req, res) => {
+    res.json({
+      kinds: LOCAL_NETWORKS.map(network => ({ x402Version: 1, scheme: "exact", network })),
+    });
+  });
+
+  // Local-only helpers: fund an address, inspect balances and settled transfers
+  app.post("/fund", (req, res) => {
+    const { address, network, asset, amount } = req.body || {};
+    if (!address) {
+      return res.status(400).json({ error: "address is required" });
+    }
+
+    if (network) {
+      chain.mint(network, asset || usdcAddressFor(network), address, BigInt(amount ?? DEFAULT_FUNDING));
+    } else {
+      fundAddress(chain, address, BigInt(amount ?? DEFAULT_FUNDING));
+    }
+    res.json({ balances: chain.listBalances().filter(b => b.address === address.toLowerCase()) });
+  });
+
+  app.get("/balances", (req, res) => {
+    res.json({ balances: chain.listBalances() });
+  });
+
+  app.get("/transactions", (req, res) => {
+    res.json({ transactions: chain.listTransactions(req.query.network as string | undefined) });
+  });
+
+  return app;
+}
+
+export async function startLocalFacilitator(chain: LocalChain = new LocalChain(), port: number = 0): Promise<LocalFacilitator> {
+  const app = createLocalFacilitatorApp(chain);
+
+  const server: Server = await new Promise(resolve => {
+    const s = app.listen(port, () => resolve(s));
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${boundPort}`,
+    chain,
+    close: () => new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const port = args.includes("--port") ? Number(args[args.indexOf("--port") + 1]) : 4020;
+  const fund = args.flatMap((arg, i) => (arg === "--fund" ? [args[i + 1]] : []));
+
+  startLocalFacilitator(new LocalChain(), port).then(facilitator => {
+    for (const address of fund) {
+      fundAddress(facilitator.chain, address);
+    }
+    console.log(`\n🏦 Local x402 facilitator running at ${facilitator.url}`);
+    console.log(`   Networks: ${LOCAL_NETWORKS.join(", ")}`);
+    if (fund.length > 0) {
+      console.log(`   Funded with ${DEFAULT_FUNDING} USDC units: ${fund.join(", ")}`);
+    }
+  });
+}
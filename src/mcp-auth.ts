@@ -0,0 +1,402 @@
+import { Router, type RequestHandler } from "express";
+import { readFileSync } from "fs";
+import { appendFile, mkdir } from "fs/promises";
+import { dirname, extname } from "path";
+import { createHash, timingSafeEqual } from "crypto";
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from "jose";
+import { parse as parseYaml } from "yaml";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { hashArgs } from "./payment-ledger.js";
+
+/**
+ * MCP Authentication
+ * Bearer auth for /mcp with static API keys (MCP_API_KEYS_FILE) and/or OAuth 2.1 access
+ * tokens from an authorization server, validated as a resource server per the MCP
+ * authorization spec: JWTs against the issuer's JWKS, or opaque tokens by introspection,
+ * and only when issued for this server (audience / RFC 8707 resource).
+ *
+ * Scopes decide which tools a caller sees in tools/list and may call:
+ *   tools:*         every tool
+ *   tools:<group>   a group - basic, agent, wallet, paid (merchant tools)
+ *   tool:<name>     one tool
+ *
+ * Every tool call is appended to an audit log with the key or client that made it.
+ */
+
+export interface ApiKeyConfig {
+  /** The key itself, or its SHA-256 (hex) so the file holds no secrets */
+  key?: string;
+  sha256?: string;
+  scopes: string[];
+  /** ISO date after which the key is refused */
+  expires?: string;
+  description?: string;
+}
+
+export interface ApiKeysFile {
+  /** Keys by ID; the ID is what the audit log and session wallets see */
+  keys: Record<string, ApiKeyConfig>;
+}
+
+export interface OAuthResourceConfig {
+  /** Authorization server issuer (advertised in the protected resource metadata) */
+  issuer: string;
+  /** JWKS for JWT access tokens; defaults to <issuer>/.well-known/jwks.json */
+  jwksUri?: string;
+  /** RFC 7662 introspection endpoint for opaque tokens (used instead of JWKS when set) */
+  introspectionUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface McpAuthConfig {
+  enabled: boolean;
+  keys: Record<string, ApiKeyConfig>;
+  oauth: OAuthResourceConfig | null;
+  /** This server's /mcp URL - the audience tokens must be issued for */
+  resourceUrl: string;
+  auditFile: string;
+}
+
+export type ToolCallOutcome = "success" | "error" | "denied";
+
+export interface ToolAuditEntry {
+  timestamp: string;
+  tool: string;
+  outcome: ToolCallOutcome;
+  /** "key:<id>" for API keys, the OAuth client ID otherwise; "anonymous" without auth */
+  clientId: string;
+  subject?: string;
+  sessionId?: string;
+  argsHash?: string;
+  durationMs?: number;
+  error?: string;
+}
+
+const TOOL_SCOPE_ALL = "tools:*";
+
+/**
+ * Auth settings from MCP_API_KEYS_FILE, OAUTH_* and MCP_RESOURCE_URL
+ */
+export function mcpAuthConfigFromEnv(port: string | number): McpAuthConfig {
+  const keys = process.env.MCP_API_KEYS_FILE ? loadApiKeys(process.env.MCP_API_KEYS_FILE).keys : {};
+  const oauth: OAuthResourceConfig | null = process.env.OAUTH_ISSUER
+    ? {
+      issuer: process.env.OAUTH_ISSUER,
+      jwksUri: process.env.OAUTH_JWKS_URI,
+      introspectionUrl: process.env.OAUTH_INTROSPECTION_URL,
+      clientId: process.env.OAUTH_CLIENT_ID,
+      clientSecret: process.env.OAUTH_CLIENT_SECRET,
+    }
+    : null;
+
+  return {
+    enabled: Object.keys(keys).length > 0 || oauth !== null,
+    keys,
+    oauth,
+    resourceUrl: process.env.MCP_RESOURCE_URL || `http://localhost:${port}/mcp`,
+    auditFile: process.env.MCP_AUDIT_FILE || "./data/mcp-audit.jsonl",
+  };
+}
+
+/**
+ * Load API keys from a JSON or YAML file
+ */
+export function loadApiKeys(path: string): ApiKeysFile {
+  const raw = readFileSync(path, "utf-8");
+  const ext = extname(path).toLowerCase();
+  const parsed = ext === ".yaml" || ext === ".yml" ? parseYaml(raw) : JSON.parse(raw);
+
+  if (!parsed || typeof parsed !== "object" || typeof parsed.keys !== "object") {
+    throw new Error(`Invalid API keys file ${path}: expected a "keys" map`);
+  }
+  for (const [id, key] of Object.entries(parsed.keys as Record<string, ApiKeyConfig>)) {
+    if (!key.key && !key.sha256) {
+      throw new Error(`API key "${id}" in ${path} needs "key" or "sha256"`);
+    }
+    if (!Array.isArray(key.scopes)) {
+      throw new Error(`API key "${id}" in ${path} needs a "scopes" list`);
+    }
+    if (key.expires !== undefined && isNaN(Date.parse(key.expires))) {
+      throw new Error(`API key "${id}" in ${path} has an invalid "expires" date`);
+    }
+  }
+
+  return parsed as ApiKeysFile;
+}
+
+/**
+ * Whether scopes allow a tool (see the scope forms above)
+ */
+export function canUseTool(scopes: string[], tool: string, group: string): boolean {
+  return scopes.includes(TOOL_SCOPE_ALL) || scopes.includes(`tools:${group}`) || scopes.includes(`tool:${tool}`);
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Static API keys, compared by SHA-256 in constant time
+ */
+export class ApiKeyVerifier implements OAuthTokenVerifier {
+  private keys: Array<{ id: string; hash: Buffer; scopes: string[]; expiresAt?: number }>;
+
+  constructor(keys: Record<string, ApiKeyConfig>) {
+    this.keys = Object.entries(keys).map(([id, key]) => ({
+      id,
+      hash: key.sha256 ? Buffer.from(key.sha256, "hex") : sha256(key.key!),
+      scopes: key.scopes,
+      expiresAt: key.expires ? Math.floor(Date.parse(key.expires) / 1000) : undefined,
+    }));
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const hash = sha256(token);
+    const match = this.keys.find(key => key.hash.length === hash.length && timingSafeEqual(key.hash, hash));
+    if (!match) {
+      throw new InvalidTokenError("Unknown API key");
+    }
+    // Keys are checked on every request, so one without an expiry is reported valid for a minute
+    const expiresAt = match.expiresAt ?? Math.floor(Date.now() / 1000) + 60;
+    return { token, clientId: `key:${match.id}`, scopes: match.scopes, expiresAt, extra: { keyId: match.id } };
+  }
+}
+
+/**
+ * OAuth 2.1 access tokens issued for this resource: JWTs checked against the issuer's
+ * JWKS, or opaque tokens checked with the introspection endpoint
+ */
+export class OAuthResourceVerifier implements OAuthTokenVerifier {
+  private config: OAuthResourceConfig;
+  private resource: URL;
+  private jwks: ReturnType<typeof createRemoteJWKSet>;
+
+  constructor(config: OAuthResourceConfig, resourceUrl: string) {
+    this.config = config;
+    this.resource = new URL(resourceUrl);
+    this.jwks = createRemoteJWKSet(new URL(config.jwksUri || `${config.issuer.replace(/\/+$/, "")}/.well-known/jwks.json`));
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const claims = this.config.introspectionUrl ? await this.introspect(token) : await this.verifyJwt(token);
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+    if (!audiences.some(aud => sameResource(aud, this.resource))) {
+      throw new InvalidTokenError(`Token was not issued for ${this.resource.href}`);
+    }
+
+    const scope = (claims as any).scope ?? (claims as any).scp;
+    return {
+      token,
+      clientId: String((claims as any).client_id || (claims as any).azp || claims.sub || "unknown"),
+      scopes: Array.isArray(scope) ? scope.map(String) : typeof scope === "string" ? scope.split(" ").filter(Boolean) : [],
+      expiresAt: claims.exp,
+      resource: this.resource,
+      extra: { subject: claims.sub },
+    };
+  }
+
+  private async verifyJwt(token: string): Promise<JWTPayload> {
+    try {
+      const { payload } = await jwtVerify(token, this.jwks, { issuer: this.config.issuer });
+      return payload;
+    } catch (error: any) {
+      throw new InvalidTokenError(`Invalid access token: ${error?.message || error}`);
+    }
+  }
+
+  private async introspect(token: string): Promise<JWTPayload> {
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" };
+    if (this.config.clientId) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.config.clientId}:${this.config.clientSecret || ""}`).toString("base64")}`;
+    }
+
+    const response = await fetch(this.config.introspectionUrl!, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: "access_token" }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      throw new Error(`Token introspection failed with ${response.status}`);
+    }
+
+    const claims = (await response.json()) as JWTPayload & { active?: boolean };
+    if (!claims.active) {
+      throw new InvalidTokenError("Access token is not active");
+    }
+    if (claims.iss && claims.iss !== this.config.issuer) {
+      throw new InvalidTokenError(`Token was issued by ${claims.iss}, not ${this.config.issuer}`);
+    }
+    if (typeof claims.exp === "number" && claims.exp * 1000 < Date.now()) {
+      throw new InvalidTokenError("Access token has expired");
+    }
+    return claims;
+  }
+}
+
+function sameResource(audience: string, resource: URL): boolean {
+  const normalize = (url: string) => url.replace(/#.*$/, "").replace(/\/$/, "");
+  return normalize(audience) === normalize(resource.href);
+}
+
+/**
+ * Tries API keys first, then OAuth
+ */
+export class McpTokenVerifier implements OAuthTokenVerifier {
+  private verifiers: OAuthTokenVerifier[];
+
+  constructor(config: McpAuthConfig) {
+    this.verifiers = [
+      ...(Object.keys(config.keys).length > 0 ? [new ApiKeyVerifier(config.keys)] : []),
+      ...(config.oauth ? [new OAuthResourceVerifier(config.oauth, config.resourceUrl)] : []),
+    ];
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    let lastError: unknown = new InvalidTokenError("No authentication method is configured");
+    for (const verifier of this.verifiers) {
+      try {
+        return await verifier.verifyAccessToken(token);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Append-only JSONL audit log of tool calls
+ */
+export class ToolAuditLog {
+  private path: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  record(entry: Omit<ToolAuditEntry, "timestamp">): Promise<void> {
+    const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry });
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, line + "\n", "utf-8");
+      })
+      .catch(error => {
+        console.error("Failed to write tool audit entry:", error);
+      });
+    return this.writes;
+  }
+}
+
+function callerOf(authInfo?: AuthInfo) {
+  return {
+    clientId: authInfo?.clientId || "anonymous",
+    ...(authInfo?.extra?.subject ? { subject: String(authInfo.extra.subject) } : {}),
+  };
+}
+
+/**
+ * Hide the tools a caller's scopes don't cover from tools/list, refuse calls to them, and
+ * audit every call. Applies to tools registered on the server afterwards (merchant tools
+ * included). Without auth (authInfo undefined) every tool stays visible.
+ */
+export function withToolAccess(
+  server: McpServer,
+  authInfo: AuthInfo | undefined,
+  groupOf: (tool: string) => string,
+  audit: ToolAuditLog
+): McpServer {
+  const register = server.registerTool.bind(server);
+
+  server.registerTool = ((name: string, config: any, callback: (...params: any[]) => any) => {
+    const audited = async (...params: any[]) => {
+      // Handlers get (args, extra), or just (extra) for tools without input
+      const extra = params[params.length - 1];
+      const args = params.length > 1 ? params[0] : {};
+      const caller = { ...callerOf(extra?.authInfo), sessionId: extra?.sessionId, tool: name, argsHash: hashArgs(args || {}) };
+
+      // Scopes are checked again per call, since a session's token can be replaced
+      if (extra?.authInfo && !canUseTool(extra.authInfo.scopes, name, groupOf(name))) {
+        await audit.record({ ...caller, outcome: "denied" });
+        throw new Error(`Tool ${name} is not allowed for ${caller.clientId}`);
+      }
+
+      const startedAt = Date.now();
+      try {
+        const result = await callback(...params);
+        await audit.record({ ...caller, outcome: result?.isError ? "error" : "success", durationMs: Date.now() - startedAt });
+        return result;
+      } catch (error: any) {
+        await audit.record({ ...caller, outcome: "error", durationMs: Date.now() - startedAt, error: error?.message || String(error) });
+        throw error;
+      }
+    };
+
+    const tool = register(name, config, audited as any);
+    if (authInfo && !canUseTool(authInfo.scopes, name, groupOf(name))) {
+      tool.disable();
+    }
+    return tool;
+  }) as typeof server.registerTool;
+
+  return server;
+}
+
+/**
+ * Audit tools/call requests for tools the caller can't see (the SDK rejects those
+ * before any handler runs)
+ */
+export function auditDeniedToolCalls(groupOf: (tool: string) => string, audit: ToolAuditLog): RequestHandler {
+  return (req, _res, next) => {
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    for (const message of messages) {
+      const tool = message?.method === "tools/call" ? message.params?.name : undefined;
+      if (req.auth && typeof tool === "string" && !canUseTool(req.auth.scopes, tool, groupOf(tool))) {
+        audit.record({
+          ...callerOf(req.auth),
+          sessionId: req.header("mcp-session-id"),
+          tool,
+          argsHash: hashArgs(message.params?.arguments || {}),
+          outcome: "denied",
+        });
+      }
+    }
+    next();
+  };
+}
+
+/**
+ * Bearer auth for /mcp plus the OAuth protected resource metadata (RFC 9728) that points
+ * MCP clients at the authorization server
+ */
+export function createMcpAuthRouter(config: McpAuthConfig, groupOf: (tool: string) => string, audit: ToolAuditLog): Router {
+  const router = Router();
+  const resource = new URL(config.resourceUrl);
+  const resourceMetadataUrl = config.oauth ? getOAuthProtectedResourceMetadataUrl(resource) : undefined;
+
+  if (config.oauth) {
+    const metadata = {
+      resource: resource.href,
+      authorization_servers: [config.oauth.issuer],
+      scopes_supported: [TOOL_SCOPE_ALL, "tools:basic", "tools:agent", "tools:wallet", "tools:paid"],
+      bearer_methods_supported: ["header"],
+      resource_name: "x402 MCP server",
+    };
+    router.get(new URL(resourceMetadataUrl!).pathname, (_req, res) => res.json(metadata));
+    router.get("/.well-known/oauth-protected-resource", (_req, res) => res.json(metadata));
+  }
+
+  router.use("/mcp", requireBearerAuth({ verifier: new McpTokenVerifier(config), resourceMetadataUrl }));
+  router.post("/mcp", auditDeniedToolCalls(groupOf, audit));
+
+  return router;
+}
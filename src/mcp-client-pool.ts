@@ -0,0 +1,265 @@
+import { readFileSync } from 'fs';
+import { MCPClient, MCPConnection, MCPResource, MCPServerConfig, MCPTool, ToolCallOptions, ToolCallPolicy, describeServer, toolCallPolicyFromEnv } from './mcp-client';
+
+/**
+ * MCP Client Pool
+ * Connects to several MCP servers at once and exposes their tools as one list.
+ * Tool names are namespaced as `<server>__<tool>` unless a server opts out
+ * (the Browser MCP server usually does, so prompts can keep saying `browser_snapshot`).
+ */
+
+export type PoolServerConfig = MCPServerConfig & {
+  /** Prefix tool names with `<server>__` (default true) */
+  namespace?: boolean;
+  /** Skip this server without removing it from the file */
+  disabled?: boolean;
+  /** Timeouts and retries of this server's tools, over the pool's */
+  toolCalls?: ToolCallPolicy;
+};
+
+export interface MCPPoolConfig {
+  servers: Record<string, PoolServerConfig>;
+  /** Timeouts and retries of every server's tools (by the server's own tool names) */
+  toolCalls?: ToolCallPolicy;
+}
+
+export type ServerStatus = 'connecting' | 'connected' | 'disconnected' | 'failed';
+
+export interface ServerHealth {
+  name: string;
+  transport: string;
+  status: ServerStatus;
+  tools: number;
+  connectedAt?: string;
+  lastError?: string;
+  reconnectAttempts: number;
+}
+
+const NAMESPACE_SEPARATOR = '__';
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+interface PoolEntry {
+  name: string;
+  config: PoolServerConfig;
+  client: MCPClient;
+  health: ServerHealth;
+  reconnectTimer?: NodeJS.Timeout;
+}
+
+export class MCPClientPool implements MCPConnection {
+  private entries: PoolEntry[];
+  /** Exposed tool name -> owning server and original tool name */
+  private routes = new Map<string, { entry: PoolEntry; toolName: string }>();
+  private stopped = false;
+
+  constructor(config: MCPPoolConfig) {
+    this.entries = Object.entries(config.servers)
+      .filter(([, server]) => !server.disabled)
+      .map(([name, server]) => {
+        if (name.includes(NAMESPACE_SEPARATOR)) {
+          throw new Error(`MCP server name "${name}" must not contain "${NAMESPACE_SEPARATOR}"`);
+        }
+
+        const entry: PoolEntry = {
+          name,
+          config: server,
+          client: new MCPClient(server, { ...config.toolCalls, ...server.toolCalls }),
+          health: {
+            name,
+            transport: describeServer(server),
+            status: 'disconnected',
+            tools: 0,
+            reconnectAttempts: 0,
+          },
+        };
+        entry.client.onUnexpectedClose = () => this.handleClose(entry);
+        return entry;
+      });
+
+    if (this.entries.length === 0) {
+      throw new Error('MCP pool config does not enable any servers');
+    }
+  }
+
+  /**
+   * Connect to every server. Servers that fail are retried in the background;
+   * this only throws if none of them could connect.
+   */
+  async connect(): Promise<void> {
+    this.stopped = false;
+    await Promise.all(this.entries.map(entry => this.connectEntry(entry)));
+
+    if (!this.entries.some(entry => entry.health.status === 'connected')) {
+      throw new Error('Failed to connect to any MCP server');
+    }
+  }
+
+  /**
+   * Disconnect from every server and stop reconnecting
+   */
+  async disconnect(): Promise<void> {
+    this.stopped = true;
+    await Promise.all(this.entries.map(async entry => {
+      clearTimeout(entry.reconnectTimer);
+      await entry.client.disconnect();
+      entry.health.status = 'disconnected';
+    }));
+    this.routes.clear();
+  }
+
+  /**
+   * Merged, de-duplicated tool list from all connected servers
+   */
+  async listTools(): Promise<MCPTool[]> {
+    const tools: MCPTool[] = [];
+    const routes = new Map<string, { entry: PoolEntry; toolName: string }>();
+
+    for (const entry of this.entries) {
+      if (!entry.client.isConnected()) continue;
+
+      let serverTools: MCPTool[];
+      try {
+        serverTools = await entry.client.listTools();
+      } catch (error: any) {
+        entry.health.lastError = error?.message || String(error);
+        continue;
+      }
+      entry.health.tools = serverTools.length;
+
+      for (const tool of serverTools) {
+        const name = entry.config.namespace === false
+          ? tool.name
+          : `${entry.name}${NAMESPACE_SEPARATOR}${tool.name}`;
+
+        if (routes.has(name)) {
+          console.warn(`Skipping duplicate tool ${name} from ${entry.name} (already provided by ${routes.get(name)!.entry.name})`);
+          continue;
+        }
+
+        routes.set(name, { entry, toolName: tool.name });
+        tools.push({ ...tool, name });
+      }
+    }
+
+    this.routes = routes;
+    return tools;
+  }
+
+  /**
+   * Resources from all connected servers
+   */
+  async listResources(): Promise<MCPResource[]> {
+    const resources: MCPResource[] = [];
+
+    for (const entry of this.entries) {
+      if (!entry.client.isConnected()) continue;
+      try {
+        resources.push(...await entry.client.listResources());
+      } catch (error: any) {
+        // Not every server implements resources
+        entry.health.lastError = error?.message || String(error);
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Call a tool by its exposed (possibly namespaced) name
+   */
+  async callTool(toolName: string, args: Record<string, any> = {}, options: ToolCallOptions = {}): Promise<any> {
+    if (!this.routes.has(toolName)) {
+      await this.listTools();
+    }
+
+    const route = this.routes.get(toolName);
+    if (!route) {
+      throw new Error(`Unknown tool ${toolName}`);
+    }
+    if (!route.entry.client.isConnected()) {
+      throw new Error(`MCP server ${route.entry.name} is ${route.entry.health.status}`);
+    }
+
+    return route.entry.client.callTool(route.toolName, args, options);
+  }
+
+  /**
+   * Health of every configured server
+   */
+  getHealth(): ServerHealth[] {
+    return this.entries.map(entry => ({ ...entry.health }));
+  }
+
+  private async connectEntry(entry: PoolEntry): Promise<void> {
+    entry.health.status = 'connecting';
+
+    try {
+      await entry.client.connect();
+      entry.health.status = 'connected';
+      entry.health.connectedAt = new Date().toISOString();
+      entry.health.lastError = undefined;
+      entry.health.reconnectAttempts = 0;
+    } catch (error: any) {
+      entry.health.status = 'failed';
+      entry.health.lastError = error?.message || String(error);
+      console.error(`MCP server ${entry.name} failed to connect: ${entry.health.lastError}`);
+      this.scheduleReconnect(entry);
+    }
+  }
+
+  private handleClose(entry: PoolEntry): void {
+    entry.health.status = 'disconnected';
+    for (const [name, route] of this.routes) {
+      if (route.entry === entry) this.routes.delete(name);
+    }
+    this.scheduleReconnect(entry);
+  }
+
+  private scheduleReconnect(entry: PoolEntry): void {
+    if (this.stopped || entry.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** entry.health.reconnectAttempts, RECONNECT_MAX_MS);
+    entry.health.reconnectAttempts++;
+    console.log(`Reconnecting to MCP server ${entry.name} in ${delay}ms (attempt ${entry.health.reconnectAttempts})`);
+
+    entry.reconnectTimer = setTimeout(async () => {
+      entry.reconnectTimer = undefined;
+      if (this.stopped) return;
+      await this.connectEntry(entry);
+      if (entry.health.status === 'connected') {
+        await this.listTools();
+      }
+    }, delay);
+    entry.reconnectTimer.unref();
+  }
+}
+
+/**
+ * Load a pool config file. `{{name}}` in its strings is replaced with vars[name] (e.g.
+ * `{{session}}` for the agent pool's session number, to give each session its own browser).
+ */
+export function loadMCPPoolConfig(path: string, vars: Record<string, string> = {}): MCPPoolConfig {
+  const parsed = JSON.parse(readFileSync(path, 'utf-8'), (_key, value) => typeof value === 'string'
+    ? value.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => vars[name] ?? placeholder)
+    : value);
+  if (!parsed || typeof parsed.servers !== 'object') {
+    throw new Error(`Invalid MCP servers file ${path}: expected a "servers" map`);
+  }
+  return parsed as MCPPoolConfig;
+}
+
+/**
+ * A pool from MCP_SERVERS_FILE, or the single Browser MCP client when it is not set.
+ * Tool call timeouts and retries come from the environment; the file's `toolCalls` win.
+ * `session` fills `{{session}}` in the file (see agent-pool.ts).
+ */
+export function createMCPConnectionFromEnv(session: number = 0): MCPConnection {
+  const path = process.env.MCP_SERVERS_FILE;
+  const policy = toolCallPolicyFromEnv();
+  if (!path) {
+    return new MCPClient(undefined, policy);
+  }
+  const config = loadMCPPoolConfig(path, { session: String(session) });
+  return new MCPClientPool({ ...config, toolCalls: { ...policy, ...config.toolCalls } });
+}
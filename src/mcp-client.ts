@@ -1,5 +1,9 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 
 // Define the response schema for browser operations
@@ -22,22 +26,112 @@ export interface MCPResource {
   mimeType?: string;
 }
 
-export class MCPClient {
-  private client: Client;
-  private transport!: StdioClientTransport;
+/**
+ * How to reach an MCP server
+ */
+export type MCPServerConfig =
+  | { type: 'stdio'; command: string; args?: string[]; env?: Record<string, string>; cwd?: string }
+  | { type: 'http'; url: string; headers?: Record<string, string> }
+  | { type: 'sse'; url: string; headers?: Record<string, string> };
+
+/**
+ * The Browser MCP server, used when no config is given
+ */
+export const BROWSER_MCP_SERVER: MCPServerConfig = {
+  type: 'stdio',
+  command: 'npx',
+  args: ['@browsermcp/mcp@latest'],
+};
+
+/**
+ * Options for one tool call
+ */
+export interface ToolCallOptions {
+  /** Aborting cancels the call (the server gets notifications/cancelled) and any retries */
+  signal?: AbortSignal;
+  /** Timeout for this call, overriding the policy */
+  timeoutMs?: number;
+}
+
+/**
+ * Timeouts and retries of tool calls
+ */
+export interface ToolCallPolicy {
+  /** Timeout per call (default 60000) */
+  timeoutMs?: number;
+  /** Timeouts of particular tools, e.g. { browser_navigate: 30000 } */
+  toolTimeoutsMs?: Record<string, number>;
+  /** Extra attempts of a retry tool after a timeout or transport error (default 2) */
+  retries?: number;
+  /** Tools that are safe to call again (default IDEMPOTENT_TOOLS) */
+  retryTools?: string[];
+  /** Delay before the first retry, doubled for each further one (default 500) */
+  backoffMs?: number;
+}
+
+// Browser tools that read the page or only wait, so a repeated call changes nothing
+export const IDEMPOTENT_TOOLS = ['browser_snapshot', 'browser_wait', 'browser_screenshot', 'browser_get_console_logs'];
+
+export const DEFAULT_TOOL_CALL_POLICY: Required<ToolCallPolicy> = {
+  timeoutMs: 60_000,
+  toolTimeoutsMs: {},
+  retries: 2,
+  retryTools: IDEMPOTENT_TOOLS,
+  backoffMs: 500,
+};
+
+/**
+ * What the agent needs from an MCP connection (a single client or a pool)
+ */
+export interface MCPConnection {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  listTools(): Promise<MCPTool[]>;
+  listResources(): Promise<MCPResource[]>;
+  callTool(toolName: string, args?: Record<string, any>, options?: ToolCallOptions): Promise<any>;
+}
+
+/**
+ * Create the client transport for a server config
+ */
+export function createTransport(config: MCPServerConfig): Transport {
+  switch (config.type) {
+    case 'stdio':
+      return new StdioClientTransport({
+        command: config.command,
+        args: config.args,
+        env: config.env ? { ...getDefaultEnvironment(), ...config.env } : undefined,
+        cwd: config.cwd,
+      });
+    case 'http':
+      return new StreamableHTTPClientTransport(new URL(config.url), {
+        requestInit: { headers: config.headers },
+      });
+    case 'sse':
+      return new SSEClientTransport(new URL(config.url), {
+        requestInit: { headers: config.headers },
+      });
+  }
+}
+
+export class MCPClient implements MCPConnection {
+  private client!: Client;
+  private transport!: Transport;
   private connected: boolean = false;
+  private closing: boolean = false;
+  private config: MCPServerConfig;
+  private policy: Required<ToolCallPolicy>;
+
+  /** Called when the transport closes without disconnect() being called */
+  onUnexpectedClose?: () => void;
 
-  constructor() {
-    this.client = new Client({
-      name: 'openai-mcp-agent',
-      version: '1.0.0',
-    }, {
-      capabilities: {},
-    });
+  constructor(config: MCPServerConfig = BROWSER_MCP_SERVER, policy: ToolCallPolicy = {}) {
+    this.config = config;
+    this.policy = { ...DEFAULT_TOOL_CALL_POLICY, ...policy };
   }
 
   /**
-   * Connect to the Browser MCP server
+   * Connect to the configured MCP server (Browser MCP by default)
    */
   async connect(): Promise<void> {
     if (this.connected) {
@@ -46,16 +140,29 @@ export class MCPClient {
     }
 
     try {
-      // Create transport for Browser MCP server
-      this.transport = new StdioClientTransport({
-        command: 'npx',
-        args: ['@browsermcp/mcp@latest'],
+      // A fresh client per connection so reconnects start from a clean state
+      this.client = new Client({
+        name: 'openai-mcp-agent',
+        version: '1.0.0',
+      }, {
+        capabilities: {},
       });
+      this.transport = createTransport(this.config);
+      this.closing = false;
+
+      this.client.onclose = () => {
+        const unexpected = this.connected && !this.closing;
+        this.connected = false;
+        if (unexpected) {
+          console.warn(`MCP transport closed unexpectedly (${describeServer(this.config)})`);
+          this.onUnexpectedClose?.();
+        }
+      };
 
       // Connect the client to the transport
       await this.client.connect(this.transport);
       this.connected = true;
-      console.log('Successfully connected to Browser MCP server');
+      console.log(`Successfully connected to MCP server (${describeServer(this.config)})`);
 
       // List available tools
       const tools = await this.listTools();
@@ -75,6 +182,7 @@ export class MCPClient {
     }
 
     try {
+      this.closing = true;
       await this.client.close();
       await this.transport.close();
       this.connected = false;
@@ -119,39 +227,59 @@ export class MCPClient {
   }
 
   /**
-   * Call a tool on the MCP server
+   * Call a tool on the MCP server. Calls time out per the policy; retry tools are tried
+   * again with backoff after a timeout or transport error.
    */
-  async callTool(toolName: string, args: Record<string, any> = {}): Promise<any> {
+  async callTool(toolName: string, args: Record<string, any> = {}, options: ToolCallOptions = {}): Promise<any> {
     if (!this.connected) {
       throw new Error('Not connected to MCP server');
     }
 
-    try {
-      console.log(`Calling tool: ${toolName} with args:`, args);
-      const response = await this.client.callTool({
-        name: toolName,
-        arguments: args,
-      });
+    const { signal } = options;
+    const timeout = options.timeoutMs ?? this.policy.toolTimeoutsMs[toolName] ?? this.policy.timeoutMs;
+    const retries = this.policy.retryTools.includes(toolName) ? this.policy.retries : 0;
 
-      // Parse the response
-      if (response.content && Array.isArray(response.content) && response.content.length > 0) {
-        const content = response.content[0];
-        if (content.type === 'text') {
-          try {
-            // Try to parse as JSON
-            return JSON.parse(content.text);
-          } catch {
-            // Return as plain text if not JSON
-            return content.text;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        console.log(`Calling tool: ${toolName} with args:`, args);
+        const response = await this.client.callTool({
+          name: toolName,
+          arguments: args,
+        }, undefined, { signal, timeout });
+
+        // Parse the response
+        if (response.content && Array.isArray(response.content) && response.content.length > 0) {
+          const content = response.content[0];
+          if (content.type === 'text') {
+            try {
+              // Try to parse as JSON
+              return JSON.parse(content.text);
+            } catch {
+              // Return as plain text if not JSON
+              return content.text;
+            }
           }
+          return content;
         }
-        return content;
-      }
 
-      return response;
-    } catch (error) {
-      console.error(`Error calling tool ${toolName}:`, error);
-      throw error;
+        return response;
+      } catch (err) {
+        if (signal?.aborted) {
+          // The SDK reports aborts as timeouts; the caller wants its own reason back
+          throw signal.reason;
+        }
+        const error = err instanceof McpError && err.code === ErrorCode.RequestTimeout
+          ? new Error(`${toolName} timed out after ${timeout}ms`)
+          : err;
+        if (attempt >= retries || !this.connected || !isRetryable(err)) {
+          console.error(`Error calling tool ${toolName}:`, error);
+          throw error;
+        }
+
+        const delay = this.policy.backoffMs * 2 ** attempt;
+        console.warn(`  ↻ ${toolName} failed (${(error as Error)?.message || error}); retry ${attempt + 1}/${retries} in ${delay}ms`);
+        await abortableDelay(delay, signal);
+      }
     }
   }
 
@@ -185,4 +313,67 @@ export class MCPClient {
   isConnected(): boolean {
     return this.connected;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Timeouts and transport failures are worth another try; errors the server answered
+ * with (unknown tool, invalid arguments) are not
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof McpError) {
+    return error.code === ErrorCode.RequestTimeout || error.code === ErrorCode.ConnectionClosed;
+  }
+  return true;
+}
+
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Tool call policy from MCP_TOOL_TIMEOUT_SECONDS, MCP_TOOL_TIMEOUTS
+ * ("browser_navigate=30,browser_wait=15", seconds) and MCP_TOOL_RETRIES
+ */
+export function toolCallPolicyFromEnv(): ToolCallPolicy {
+  const policy: ToolCallPolicy = {};
+  if (process.env.MCP_TOOL_TIMEOUT_SECONDS) {
+    policy.timeoutMs = parseFloat(process.env.MCP_TOOL_TIMEOUT_SECONDS) * 1000;
+  }
+  if (process.env.MCP_TOOL_TIMEOUTS) {
+    policy.toolTimeoutsMs = Object.fromEntries(process.env.MCP_TOOL_TIMEOUTS.split(',')
+      .filter(entry => entry.trim())
+      .map(entry => {
+        const [tool, seconds] = entry.split('=').map(part => part.trim());
+        if (!tool || !(parseFloat(seconds) > 0)) {
+          throw new Error(`MCP_TOOL_TIMEOUTS entries must look like tool=seconds (got "${entry}")`);
+        }
+        return [tool, parseFloat(seconds) * 1000];
+      }));
+  }
+  if (process.env.MCP_TOOL_RETRIES) {
+    policy.retries = parseInt(process.env.MCP_TOOL_RETRIES, 10);
+  }
+  return policy;
+}
+
+/**
+ * Short human-readable description of a server config for logs
+ */
+export function describeServer(config: MCPServerConfig): string {
+  return config.type === 'stdio'
+    ? `stdio: ${[config.command, ...(config.args || [])].join(' ')}`
+    : `${config.type}: ${config.url}`;
+}
@@ -0,0 +1,368 @@
+import { Router, type Request, type Response } from "express";
+import { randomUUID } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  StreamableHTTPServerTransport,
+  type EventId,
+  type EventStore,
+  type StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest, type JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * MCP Sessions
+ * Serves /mcp over Streamable HTTP in one of two modes:
+ *
+ * - stateful: `initialize` opens a session (Mcp-Session-Id) with its own MCP server
+ *   and transport. Responses stream over SSE and every event is kept in the session's
+ *   event store, so a client that drops mid-call (e.g. during a long Uber request)
+ *   reconnects with GET + Last-Event-ID and receives the progress and result it missed.
+ *   GET opens the server-to-client stream, DELETE ends the session, and sessions idle
+ *   longer than the idle timeout are closed. With auth on, a session belongs to the client
+ *   that opened it; other clients get 403.
+ * - stateless: a new server and transport per POST with JSON responses (serverless).
+ */
+
+export type McpSessionMode = "stateful" | "stateless";
+
+export interface McpSessionConfig {
+  mode: McpSessionMode;
+  /** Close sessions with no request in flight for this long */
+  idleTimeoutMs: number;
+  /** Most sessions open at once; initialize is refused beyond it */
+  maxSessions: number;
+  /** Events kept per stream for replay (0 disables resumability) */
+  maxEventsPerStream: number;
+}
+
+export interface McpSessionInfo {
+  id: string;
+  createdAt: string;
+  lastActivityAt: string;
+  /** Open responses, including SSE streams */
+  inFlight: number;
+  /** Client that opened the session (auth on) */
+  clientId?: string;
+}
+
+/**
+ * Builds the event store of one session; swap in a shared store (e.g. Redis) here
+ */
+export type EventStoreFactory = (sessionId: string) => EventStore;
+
+export interface McpSessionManagerOptions {
+  config: McpSessionConfig;
+  /** A fresh MCP server with the tools the caller (req.auth, when auth is on) may use */
+  createServer: (auth?: AuthInfo) => McpServer;
+  /** Called when a server is done (session closed or stateless request finished) */
+  onServerClosed?: (server: McpServer) => void;
+  /** Called when a stateful session ends (deleted, expired or shut down) */
+  onSessionClosed?: (sessionId: string) => void;
+  createEventStore?: EventStoreFactory;
+}
+
+interface McpSession {
+  info: McpSessionInfo;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+}
+
+/**
+ * Session settings from MCP_SESSION_MODE, MCP_SESSION_IDLE_SECONDS, MCP_MAX_SESSIONS
+ * and MCP_EVENT_STORE_MAX_EVENTS
+ */
+export function mcpSessionConfigFromEnv(): McpSessionConfig {
+  const mode = (process.env.MCP_SESSION_MODE || "stateful") as McpSessionMode;
+  if (mode !== "stateful" && mode !== "stateless") {
+    throw new Error(`Unknown MCP_SESSION_MODE "${mode}" (expected stateful or stateless)`);
+  }
+
+  return {
+    mode,
+    idleTimeoutMs: parseInt(process.env.MCP_SESSION_IDLE_SECONDS || "1800", 10) * 1000,
+    maxSessions: parseInt(process.env.MCP_MAX_SESSIONS || "100", 10),
+    maxEventsPerStream: parseInt(process.env.MCP_EVENT_STORE_MAX_EVENTS || "1000", 10),
+  };
+}
+
+/**
+ * In-memory event store for one session. Each stream keeps its last `maxEventsPerStream`
+ * events; replay starts after the client's Last-Event-ID on that event's stream.
+ */
+export class MemoryEventStore implements EventStore {
+  private streams = new Map<StreamId, Array<{ eventId: EventId; message: JSONRPCMessage }>>();
+  private streamOfEvent = new Map<EventId, StreamId>();
+  private sequence = 0;
+  private maxEventsPerStream: number;
+
+  constructor(maxEventsPerStream: number = 1000) {
+    this.maxEventsPerStream = maxEventsPerStream;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${++this.sequence}_${streamId}`;
+    const events = this.streams.get(streamId) || [];
+    events.push({ eventId, message });
+    this.streams.set(streamId, events);
+    this.streamOfEvent.set(eventId, streamId);
+
+    while (events.length > this.maxEventsPerStream) {
+      this.streamOfEvent.delete(events.shift()!.eventId);
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.streamOfEvent.get(eventId);
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = this.streamOfEvent.get(lastEventId);
+    if (!streamId) {
+      throw new Error(`Event ${lastEventId} is unknown or no longer kept`);
+    }
+
+    const events = this.streams.get(streamId) || [];
+    const start = events.findIndex(event => event.eventId === lastEventId) + 1;
+    for (const { eventId, message } of events.slice(start)) {
+      await send(eventId, message);
+    }
+    return streamId;
+  }
+}
+
+export class McpSessionManager {
+  private options: McpSessionManagerOptions;
+  private sessions = new Map<string, McpSession>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: McpSessionManagerOptions) {
+    this.options = options;
+  }
+
+  get mode(): McpSessionMode {
+    return this.options.config.mode;
+  }
+
+  list(): McpSessionInfo[] {
+    return [...this.sessions.values()].map(session => ({ ...session.info }));
+  }
+
+  /**
+   * POST /mcp: open a session on initialize, otherwise route to the caller's session
+   */
+  async handlePost(req: Request, res: Response): Promise<void> {
+    if (this.mode === "stateless") {
+      return this.handleStateless(req, res);
+    }
+
+    const sessionId = req.header("mcp-session-id");
+    if (sessionId) {
+      return this.forward(sessionId, req, res);
+    }
+    if (!isInitializeRequest(req.body)) {
+      res.status(400).json(rpcError(-32000, "Bad Request: Mcp-Session-Id header is required (send initialize first)"));
+      return;
+    }
+    if (this.sessions.size >= this.options.config.maxSessions) {
+      res.status(503).json(rpcError(-32000, `Too many open sessions (${this.options.config.maxSessions})`));
+      return;
+    }
+
+    const session = await this.open(req.auth);
+    await this.track(session, res, () => session.transport.handleRequest(req, res, req.body));
+  }
+
+  /**
+   * GET /mcp: the session's server-to-client SSE stream (replays after Last-Event-ID)
+   */
+  async handleGet(req: Request, res: Response): Promise<void> {
+    return this.handleSessionRequest(req, res);
+  }
+
+  /**
+   * DELETE /mcp: end the session
+   */
+  async handleDelete(req: Request, res: Response): Promise<void> {
+    return this.handleSessionRequest(req, res);
+  }
+
+  /**
+   * Close sessions idle past the timeout (open requests and streams keep a session alive)
+   */
+  expireIdle(): void {
+    const cutoff = Date.now() - this.options.config.idleTimeoutMs;
+    for (const session of this.sessions.values()) {
+      if (session.info.inFlight === 0 && Date.parse(session.info.lastActivityAt) < cutoff) {
+        console.log(`⌛ MCP session ${session.info.id} idle since ${session.info.lastActivityAt} - closing`);
+        this.close(session.info.id);
+      }
+    }
+  }
+
+  /**
+   * Check for idle sessions every intervalMs
+   */
+  start(intervalMs: number = 60_000): void {
+    this.stop();
+    if (this.mode !== "stateful") {
+      return;
+    }
+    this.timer = setInterval(() => this.expireIdle(), Math.min(intervalMs, this.options.config.idleTimeoutMs));
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Close every session (shutdown)
+   */
+  async closeAll(): Promise<void> {
+    this.stop();
+    await Promise.all([...this.sessions.keys()].map(id => this.close(id)));
+  }
+
+  private async handleStateless(req: Request, res: Response): Promise<void> {
+    const server = this.options.createServer(req.auth);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined, // stateless OK for serverless
+      enableJsonResponse: true,
+    });
+
+    res.on("close", () => {
+      transport.close();
+      server.close();
+      this.options.onServerClosed?.(server);
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  private async handleSessionRequest(req: Request, res: Response): Promise<void> {
+    if (this.mode === "stateless") {
+      res.status(405).set("Allow", "POST").json(rpcError(-32000, "Method not allowed: MCP sessions are disabled (MCP_SESSION_MODE=stateless)"));
+      return;
+    }
+
+    const sessionId = req.header("mcp-session-id");
+    if (!sessionId) {
+      res.status(400).json(rpcError(-32000, "Bad Request: Mcp-Session-Id header is required"));
+      return;
+    }
+    return this.forward(sessionId, req, res);
+  }
+
+  private async forward(sessionId: string, req: Request, res: Response): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      // 404 tells the client to start a new session
+      res.status(404).json(rpcError(-32001, `Session ${sessionId} not found (expired or closed)`));
+      return;
+    }
+    if (session.info.clientId && session.info.clientId !== req.auth?.clientId) {
+      res.status(403).json(rpcError(-32000, `Session ${sessionId} belongs to another client`));
+      return;
+    }
+    await this.track(session, res, () => session.transport.handleRequest(req, res, req.body));
+  }
+
+  private async open(auth?: AuthInfo): Promise<McpSession> {
+    const id = randomUUID();
+    const { maxEventsPerStream } = this.options.config;
+    const eventStore = maxEventsPerStream > 0
+      ? (this.options.createEventStore || (() => new MemoryEventStore(maxEventsPerStream)))(id)
+      : undefined;
+
+    const server = this.options.createServer(auth);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => id,
+      eventStore,
+      onsessioninitialized: () => {
+        console.log(`🔌 MCP session ${id} opened (${this.sessions.size} open)`);
+      },
+      onsessionclosed: () => {
+        // DELETE from the client; the transport is already closing
+        this.close(id);
+      },
+    });
+
+    const now = new Date().toISOString();
+    const session: McpSession = {
+      info: { id, createdAt: now, lastActivityAt: now, inFlight: 0, ...(auth ? { clientId: auth.clientId } : {}) },
+      server,
+      transport,
+    };
+    this.sessions.set(id, session);
+    await server.connect(transport);
+    return session;
+  }
+
+  private async close(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error: any) {
+      console.warn(`⚠️  Closing MCP session ${sessionId}: ${error?.message || error}`);
+    }
+    this.options.onServerClosed?.(session.server);
+    this.options.onSessionClosed?.(sessionId);
+    console.log(`👋 MCP session ${sessionId} closed (${this.sessions.size} open)`);
+  }
+
+  /**
+   * Count a request as in flight until its response closes (SSE streams included)
+   */
+  private track(session: McpSession, res: Response, handle: () => Promise<void>): Promise<void> {
+    session.info.inFlight++;
+    session.info.lastActivityAt = new Date().toISOString();
+    res.on("close", () => {
+      session.info.inFlight--;
+      session.info.lastActivityAt = new Date().toISOString();
+    });
+    return handle();
+  }
+}
+
+function rpcError(code: number, message: string) {
+  return { jsonrpc: "2.0", error: { code, message }, id: null };
+}
+
+/**
+ * POST, GET and DELETE /mcp
+ */
+export function createMcpRouter(manager: McpSessionManager): Router {
+  const router = Router();
+
+  const handle = (fn: (req: Request, res: Response) => Promise<void>) => async (req: Request, res: Response) => {
+    try {
+      await fn(req, res);
+    } catch (error: any) {
+      console.error("MCP request failed:", error?.message || error);
+      if (!res.headersSent) {
+        res.status(500).json(rpcError(-32603, "Internal server error"));
+      }
+    }
+  };
+
+  router.post("/mcp", handle((req, res) => manager.handlePost(req, res)));
+  router.get("/mcp", handle((req, res) => manager.handleGet(req, res)));
+  router.delete("/mcp", handle((req, res) => manager.handleDelete(req, res)));
+
+  return router;
+}
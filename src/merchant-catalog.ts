@@ -0,0 +1,280 @@
+import type { Request } from "express";
+import { z } from "zod";
+import type { AgentStep } from "./openai-agent.js";
+import type { AgentLease } from "./agent-pool.js";
+import { AGENT_OUTCOMES, AgentResult, toTaskOutput } from "./agent-result.js";
+import { formatUsage, runUsageSchema } from "./agent-usage.js";
+import type { JobContext } from "./jobs.js";
+import { TaskTemplateRegistry, runTaskTemplate, validateParameters } from "./task-templates.js";
+import type { PaymentScheme } from "./payment-schemes.js";
+
+/**
+ * Merchant Catalog
+ * Every paid endpoint is declared once: handler, input/output schema, description
+ * and the payment schemes it accepts with a price per scheme. The merchant server
+ * builds its routes, 402 challenges and discovery metadata from this list.
+ */
+
+export type HttpMethod = "GET" | "POST";
+
+export interface X402Price {
+  scheme: "x402";
+  /** Dollar price, e.g. "$0.001" (settled in USDC) */
+  price: string;
+  network: "polygon-amoy" | "base-sepolia" | "polygon" | "base";
+}
+
+export interface EVVMPrice {
+  scheme: "evvm";
+  /** Token units, not dollars */
+  price: string;
+  tokenAddress: string;
+  evvmID: string;
+  network: string;
+}
+
+export type PaymentPrice = X402Price | EVVMPrice;
+
+export interface EndpointContext {
+  req: Request;
+  /** Rail the request was paid with */
+  scheme?: PaymentScheme;
+  /** Set when the endpoint runs as a job */
+  job?: JobContext;
+  /** Place in the agent pool, taken before payment (agent endpoints) */
+  session?: AgentLease;
+}
+
+export interface PaidEndpoint<I extends z.ZodTypeAny = z.ZodTypeAny, O extends z.ZodTypeAny = z.ZodTypeAny> {
+  method: HttpMethod;
+  path: string;
+  description: string;
+  /** Parsed from the query string for GET and from the JSON body for POST */
+  input: I;
+  output: O;
+  prices: PaymentPrice[];
+  /** Run in the background: answer 202 with a job ID once paid (see jobs.ts) */
+  job?: boolean;
+  /** Runs the browser agent: needs a pooled session, and answers 503 before payment when the queue is full */
+  agent?: boolean;
+  handler: (input: z.infer<I>, context: EndpointContext) => Promise<z.infer<O>>;
+}
+
+/**
+ * Error with an HTTP status; the body is sent as-is and the payment is not settled
+ */
+export class EndpointError extends Error {
+  constructor(readonly status: number, readonly body: Record<string, any>) {
+    super(body.summary || body.error || `Request failed with status ${status}`);
+    this.name = "EndpointError";
+  }
+}
+
+/**
+ * Type the handler against its schemas, then widen for the catalog list
+ */
+export function defineEndpoint<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(endpoint: PaidEndpoint<I, O>): PaidEndpoint {
+  return endpoint as unknown as PaidEndpoint;
+}
+
+export function routeKey(endpoint: Pick<PaidEndpoint, "method" | "path">): string {
+  return `${endpoint.method} ${endpoint.path}`;
+}
+
+// USDC token address on Sepolia (EVVM ID 2)
+const EVVM_SEPOLIA_USDC = "0x2FE943eE9bD346aF46d46BD36c9ccb86201Da21A";
+
+const evvmSepolia = (price: string): EVVMPrice => ({
+  scheme: "evvm",
+  price,
+  tokenAddress: EVVM_SEPOLIA_USDC,
+  evvmID: "2",
+  network: "sepolia",
+});
+
+const weatherOutput = z.object({
+  location: z.string(),
+  weather: z.string(),
+  temperature: z.number(),
+  humidity: z.number(),
+  timestamp: z.string(),
+});
+
+const agentResultOutput = z.object({
+  status: z.enum(AGENT_OUTCOMES),
+  summary: z.string(),
+  data: z.record(z.any()).optional(),
+  /** LLM tokens, steps and estimated cost of the run */
+  usage: runUsageSchema.optional(),
+});
+
+/**
+ * Job step for an agent tool-loop step
+ */
+function jobStepOf(step: AgentStep) {
+  if (step.type === "final") {
+    return { message: `Agent finished after ${step.turn} turn(s)` };
+  }
+  return {
+    message: `${step.replayed ? "Replayed step" : "Turn"} ${step.turn}/${step.maxTurns}: ${step.tool}${step.error ? " failed" : ""}`,
+    tool: step.tool,
+    ...(step.error ? { error: step.error } : {}),
+  };
+}
+
+export interface CatalogDependencies {
+  /** Browser task templates for /request-uber and /run-task */
+  templates: TaskTemplateRegistry;
+}
+
+/**
+ * Run a task template for a paid request; anything short of a validated success is an
+ * EndpointError, so it is not delivered and not charged
+ */
+async function runPaidTemplate(
+  { templates }: CatalogDependencies,
+  name: string,
+  params: Record<string, string>,
+  { scheme, job, session }: EndpointContext,
+  failure: string
+) {
+  const via = scheme === "evvm" ? "EVVM" : "Polygon x402";
+  const template = templates.get(name);
+
+  let result: AgentResult;
+  try {
+    if (!session) {
+      throw new Error("No agent session was reserved for this request");
+    }
+    const agent = await session.wait(job?.signal);
+
+    console.log(`\n🧭 ${template.title} started (via ${via}): ${JSON.stringify(params)}`);
+    result = await runTaskTemplate(agent, template, params, {
+      onStep: job && (step => job.step(jobStepOf(step))),
+      onEvent: job && (event => job.event("agent", event)),
+      signal: job?.signal,
+    });
+  } catch (error: any) {
+    console.error(`\n❌ ${failure} (via ${via}):`, error);
+    throw new EndpointError(500, {
+      status: "failed",
+      summary: failure,
+      data: {
+        ...params,
+        error: error?.message || String(error),
+      },
+    });
+  }
+
+  const output = toTaskOutput(result, params);
+  if (result.usage) {
+    console.log(`🧮 ${template.title} (via ${via}): ${formatUsage(result.usage)}`);
+  }
+  if (result.status !== "success") {
+    console.error(`\n❌ ${template.title} ${result.status} (via ${via}): ${result.summary}`);
+    throw new EndpointError(500, output);
+  }
+
+  console.log(`\n✅ ${template.title} completed (via ${via})`);
+  return output;
+}
+
+/**
+ * The paid endpoints this merchant sells
+ */
+export function createMerchantCatalog(dependencies: CatalogDependencies): PaidEndpoint[] {
+  const { templates } = dependencies;
+
+  return [
+    defineEndpoint({
+      method: "GET",
+      path: "/weather",
+      description: "Get current weather data for any location",
+      input: z.object({
+        location: z.string().default("Unknown").describe("City name (e.g., 'San Francisco', 'New York')"),
+      }),
+      output: weatherOutput,
+      prices: [
+        { scheme: "x402", price: "$0.001", network: "polygon-amoy" },
+        evvmSepolia("1"),
+      ],
+      handler: async ({ location }) => {
+        // Simulate weather data
+        const conditions = ["sunny", "cloudy", "rainy", "partly cloudy", "windy"];
+        return {
+          location,
+          weather: conditions[Math.floor(Math.random() * conditions.length)],
+          temperature: Math.floor(Math.random() * 30) + 50, // 50-80°F
+          humidity: Math.floor(Math.random() * 40) + 30, // 30-70%
+          timestamp: new Date().toISOString(),
+        };
+      },
+    }),
+
+    defineEndpoint({
+      method: "GET",
+      path: "/premium-data",
+      description: "Access to premium market data",
+      input: z.object({}),
+      output: z.object({
+        data: z.string(),
+        timestamp: z.number(),
+        marketData: z.record(z.any()),
+      }),
+      prices: [evvmSepolia("1")],
+      handler: async () => ({
+        data: "This is premium content that requires EVVM payment",
+        timestamp: Date.now(),
+        marketData: {
+          btc: 45000,
+          eth: 3000,
+          trend: "up",
+        },
+      }),
+    }),
+
+    defineEndpoint({
+      method: "POST",
+      path: "/request-uber",
+      description: "Request an Uber ride using AI agent automation",
+      input: z.object({
+        destination: z.string().min(1).describe("Destination address"),
+      }),
+      output: agentResultOutput,
+      prices: [
+        { scheme: "x402", price: "$0.002", network: "polygon-amoy" },
+        evvmSepolia("2"),
+      ],
+      job: true,
+      agent: true,
+      handler: async ({ destination }, context) =>
+        runPaidTemplate(dependencies, "uber-ride", { destination }, context, `Failed to request Uber ride to ${destination}`),
+    }),
+
+    defineEndpoint({
+      method: "POST",
+      path: "/run-task",
+      description: `Run a browser task template with the AI agent (${templates.names().join(", ") || "no templates loaded"})`,
+      input: z.object({
+        template: z.string().describe("Task template name, e.g. 'uber-ride'"),
+        params: z.record(z.string()).default({}).describe("Template parameters by name"),
+      }).superRefine(({ template, params }, ctx) => {
+        // Unknown templates and bad parameters are a 400, not a failed job
+        try {
+          validateParameters(templates.get(template), params);
+        } catch (error: any) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+        }
+      }),
+      output: agentResultOutput,
+      prices: [
+        { scheme: "x402", price: "$0.002", network: "polygon-amoy" },
+        evvmSepolia("2"),
+      ],
+      job: true,
+      agent: true,
+      handler: async ({ template, params }, context) =>
+        runPaidTemplate(dependencies, template, params, context, `Task ${template} failed`),
+    }),
+  ];
+}
@@ -0,0 +1,121 @@
+import assert from 'assert';
+import axios from 'axios';
+import { readFileSync, rmSync } from 'fs';
+import { privateKeyToAccount } from 'viem/accounts';
+import { withPaymentInterceptor, createSigner } from 'x402-axios';
+import { LocalChain } from './local-chain';
+import { fundAddress, startLocalFacilitator, usdcAddressFor } from './local-facilitator';
+import { startMerchantServer } from './merchant-server';
+import { Job, JobAccepted, isJobAccepted, waitForJob } from './jobs';
+import { runChecks } from './e2e-checks';
+
+/**
+ * Merchant payment checks: paid agent jobs against the local facilitator, with the
+ * scripted LLM and the mock browser. A held x402 payment settles only when its job
+ * succeeds and is released when it fails; an upfront one is refunded instead (logged as
+ * a failed refund here, as there is no refund signer offline).
+ * Failed jobs are made by cancelling them.
+ *
+ * Usage: npx tsx src/merchant-e2e.ts
+ */
+
+// Well-known anvil development key - never holds real funds
+const BUYER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const HELD_PORT = 4031;
+const UPFRONT_PORT = 4032;
+const REFUNDS_FILE = '/tmp/merchant-e2e-refunds.jsonl';
+const USAGE_FILE = '/tmp/merchant-e2e-usage.jsonl';
+// $0.002 in atomic USDC
+const PRICE = 2000n;
+
+const chain = new LocalChain();
+const buyer = privateKeyToAccount(BUYER_KEY).address;
+const usdc = usdcAddressFor('polygon-amoy');
+const balance = () => chain.balanceOf('polygon-amoy', usdc, buyer);
+
+Object.assign(process.env, {
+  LLM_PROVIDER: 'scripted',
+  LLM_SCRIPT_FILE: 'fixtures/scripts/uber.json',
+  MCP_SERVERS_FILE: 'mcp-servers.mock.json',
+  REFUNDS_FILE,
+  USAGE_FILE,
+  JOB_TIMEOUT_SECONDS: '60',
+});
+
+/**
+ * Pay for an Uber request job; resolves once the merchant answered 202
+ */
+async function requestRide(port: number): Promise<{ baseURL: string; accepted: JobAccepted }> {
+  const baseURL = `http://localhost:${port}`;
+  const api = withPaymentInterceptor(axios.create({ baseURL }), await createSigner('polygon-amoy', BUYER_KEY));
+  const response = await api.post('/request-uber', { destination: 'Obelisco' });
+  assert.ok(isJobAccepted(response.data), `expected a 202 job, got ${response.status}`);
+  return { baseURL, accepted: response.data };
+}
+
+/**
+ * Cancel a job as soon as it runs, and wait for it to end
+ */
+async function cancelJob(baseURL: string, accepted: JobAccepted): Promise<Job> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const response = await axios.post(`${accepted.statusUrl}/cancel`, null, { baseURL, validateStatus: () => true });
+    if (response.status === 202) break;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return waitForJob(baseURL, accepted, { pollIntervalMs: 100 });
+}
+
+async function startServers(): Promise<void> {
+  const facilitator = await startLocalFacilitator(chain);
+  fundAddress(chain, buyer);
+  process.env.FACILITATOR_URL = facilitator.url;
+
+  await startMerchantServer({ name: 'Held payments', port: HELD_PORT, schemes: ['x402'] });
+  process.env.MERCHANT_X402_SETTLEMENT = 'upfront';
+  await startMerchantServer({ name: 'Upfront payments', port: UPFRONT_PORT, schemes: ['x402'] });
+}
+
+process.on('exit', () => {
+  rmSync(REFUNDS_FILE, { force: true });
+  rmSync(USAGE_FILE, { force: true });
+});
+
+startServers().then(() => runChecks('Merchant payments', [
+  ['a held payment settles once its job succeeds', async () => {
+    const before = balance();
+    const { baseURL, accepted } = await requestRide(HELD_PORT);
+    // Verified, not charged, while the agent runs
+    assert.strictEqual(balance(), before);
+
+    const job = await waitForJob(baseURL, accepted, { pollIntervalMs: 100 });
+    assert.strictEqual(job.status, 'succeeded', JSON.stringify(job.error));
+    assert.strictEqual(job.payment?.status, 'settled');
+    assert.ok(job.payment?.transaction);
+    assert.strictEqual(balance(), before - PRICE);
+  }],
+
+  ['a held payment is released when its job fails', async () => {
+    const before = balance();
+    const { baseURL, accepted } = await requestRide(HELD_PORT);
+    const job = await cancelJob(baseURL, accepted);
+    assert.strictEqual(job.status, 'failed');
+    assert.strictEqual(job.payment?.status, 'released');
+    assert.strictEqual(balance(), before);
+  }],
+
+  ['an upfront payment settles before the 202 and goes to a refund when the job fails', async () => {
+    const before = balance();
+    const { baseURL, accepted } = await requestRide(UPFRONT_PORT);
+    assert.strictEqual(balance(), before - PRICE);
+
+    const job = await cancelJob(baseURL, accepted);
+    assert.strictEqual(job.status, 'failed');
+    // Logged for a manual payout
+    assert.strictEqual(job.payment?.status, 'refund_failed');
+    const refunds = readFileSync(REFUNDS_FILE, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    assert.deepStrictEqual(
+      refunds.map(r => [r.jobId, r.payer.toLowerCase(), r.amount, r.status]),
+      [[job.id, buyer.toLowerCase(), PRICE.toString(), 'failed']]
+    );
+  }],
+]));
@@ -0,0 +1,403 @@
+import type { Request, RequestHandler, Response } from "express";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { z } from "zod";
+import { paymentMiddleware } from "x402-express";
+import { exact } from "x402/schemes";
+import { findMatchingPaymentRequirements, processPriceToAtomicAmount } from "x402/shared";
+import type { ExactEvmPayload, PaymentPayload, PaymentRequirements } from "x402/types";
+import { useFacilitator } from "x402/verify";
+import { EVVMPrice, PaidEndpoint, PaymentPrice, X402Price, routeKey } from "./merchant-catalog.js";
+import { PaymentScheme, schemeOf } from "./payment-schemes.js";
+
+/**
+ * Merchant Payments
+ * Turns the catalog into one payment middleware per rail (an x402-express middleware
+ * per x402 network, an EVVM middleware per EVVM network) and fronts them with a
+ * single middleware: unpaid requests get one 402 whose `accepts` lists every rail
+ * the route takes, paid requests are handed to the rail that matches the X-PAYMENT header.
+ *
+ * x402 payments for job routes are verified up front but only settled when the job
+ * succeeds (MERCHANT_X402_SETTLEMENT=on-success, the default); a failed or timed-out
+ * job releases the authorization and nothing moves. Every other payment settles in
+ * its rail middleware, before or right after the handler responds.
+ */
+
+export type X402Settlement = "on-success" | "upfront";
+
+export interface MerchantPaymentConfig {
+  schemes: PaymentScheme[];
+  x402?: {
+    payTo: `0x${string}`;
+    facilitatorUrl: string;
+    /** When job routes settle (default on-success) */
+    settlement?: X402Settlement;
+  };
+  /** Longest a job runs; held x402 authorizations stay valid this long (plus a minute) */
+  jobTimeoutSeconds?: number;
+  evvm?: {
+    payTo: `0x${string}`;
+    relayerPrivateKey: `0x${string}`;
+    rpcUrl?: string;
+    defaultEvvmAddress: string;
+  };
+}
+
+/**
+ * The verified payment of a paid request (res.locals.payment)
+ */
+export interface RequestPayment {
+  scheme: PaymentScheme;
+  network: string;
+  payer?: string;
+  /** Atomic units */
+  amount?: string;
+  asset?: string;
+  /** Verified but not settled yet: settle() once the work succeeded, release() otherwise */
+  held?: {
+    /** Resolves with the settlement transaction */
+    settle: () => Promise<string>;
+    release: () => void;
+  };
+}
+
+export interface CatalogPayments {
+  /** Payment middleware for every catalog route and rail */
+  middleware: RequestHandler;
+  /** 402 `accepts` an unpaid request to the endpoint would get (for discovery) */
+  challenge: (endpoint: PaidEndpoint, req: Request) => Promise<Record<string, any>[]>;
+}
+
+interface PaymentRail {
+  scheme: PaymentScheme;
+  network: string;
+  routes: Set<string>;
+  /** Price of each route on this rail */
+  prices: Map<string, PaymentPrice>;
+  middleware: RequestHandler;
+  /** x402 only: verifies and settles held payments */
+  facilitator?: ReturnType<typeof useFacilitator>;
+}
+
+/**
+ * JSON Schema for 402 discovery metadata
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const { $schema, ...json } = zodToJsonSchema(schema, { $refStrategy: "none" }) as Record<string, any>;
+  return json;
+}
+
+function routeConfig(endpoint: PaidEndpoint, maxTimeoutSeconds?: number) {
+  // Merged into the requirement's `outputSchema.input` next to `type: "http"`, so drop the object type
+  const { type, ...input } = toJsonSchema(endpoint.input);
+  return {
+    description: endpoint.description,
+    ...(maxTimeoutSeconds ? { maxTimeoutSeconds } : {}),
+    inputSchema: (endpoint.method === "POST" ? { bodyType: "json", ...input } : input) as any,
+    outputSchema: toJsonSchema(endpoint.output) as any,
+  };
+}
+
+function groupByNetwork<P extends { network: string }>(entries: Array<{ endpoint: PaidEndpoint; price: P }>) {
+  const groups = new Map<string, Array<{ endpoint: PaidEndpoint; price: P }>>();
+  for (const entry of entries) {
+    groups.set(entry.price.network, [...(groups.get(entry.price.network) || []), entry]);
+  }
+  return groups;
+}
+
+async function buildRails(catalog: PaidEndpoint[], config: MerchantPaymentConfig): Promise<PaymentRail[]> {
+  const rails: PaymentRail[] = [];
+  const priced = catalog.flatMap(endpoint => endpoint.prices.map(price => ({ endpoint, price })));
+
+  if (config.schemes.includes("x402")) {
+    if (!config.x402) {
+      throw new Error("x402 payments enabled without an x402 config");
+    }
+    const x402 = priced.filter((p): p is { endpoint: PaidEndpoint; price: X402Price } => p.price.scheme === "x402");
+    const facilitator = { url: config.x402.facilitatorUrl as `${string}://${string}` };
+
+    // Held authorizations must outlive the job they pay for
+    const heldTimeout = holdsJobPayments(config) ? (config.jobTimeoutSeconds || 600) + 60 : undefined;
+
+    for (const [network, entries] of groupByNetwork(x402)) {
+      const routes = Object.fromEntries(entries.map(({ endpoint, price }) => [
+        routeKey(endpoint),
+        { price: price.price, network: price.network, config: routeConfig(endpoint, endpoint.job ? heldTimeout : undefined) },
+      ]));
+      rails.push({
+        scheme: "x402",
+        network,
+        routes: new Set(Object.keys(routes)),
+        prices: new Map(entries.map(({ endpoint, price }) => [routeKey(endpoint), price])),
+        middleware: paymentMiddleware(config.x402.payTo, routes, facilitator),
+        facilitator: useFacilitator(facilitator),
+      });
+    }
+  }
+
+  if (config.schemes.includes("evvm")) {
+    if (!config.evvm) {
+      throw new Error("EVVM payments enabled without an EVVM config (RELAYER_PRIVATE_KEY)");
+    }
+    const evvm = priced.filter((p): p is { endpoint: PaidEndpoint; price: EVVMPrice } => p.price.scheme === "evvm");
+
+    // Loaded only when EVVM is enabled, so x402-only merchants don't need the EVVM packages
+    const { evvmPaymentMiddleware } = await import("@evvm/x402-middleware");
+
+    for (const [network, entries] of groupByNetwork(evvm)) {
+      const routes = Object.fromEntries(entries.map(({ endpoint, price }) => [
+        routeKey(endpoint),
+        {
+          price: price.price,
+          tokenAddress: price.tokenAddress,
+          evvmID: price.evvmID,
+          network: price.network,
+          config: routeConfig(endpoint),
+        },
+      ]));
+      rails.push({
+        scheme: "evvm",
+        network,
+        routes: new Set(Object.keys(routes)),
+        prices: new Map(entries.map(({ endpoint, price }) => [routeKey(endpoint), price])),
+        middleware: evvmPaymentMiddleware(config.evvm.payTo, routes, {
+          defaultEvvmAddress: config.evvm.defaultEvvmAddress,
+          relayerPrivateKey: config.evvm.relayerPrivateKey,
+          rpcUrl: config.evvm.rpcUrl,
+        }),
+      });
+    }
+  }
+
+  return rails;
+}
+
+/**
+ * Decode the scheme/network of an X-PAYMENT header without validating it
+ */
+function decodePaymentTarget(header: string): { scheme?: string; network?: string } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(header, "base64").toString("utf-8"));
+    return { scheme: decoded?.scheme, network: decoded?.network };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Payer of an X-PAYMENT header (x402 or EVVM) without validating it, so a request can be
+ * placed per payer before the payment middleware runs
+ */
+export function payerOf(header: string | undefined): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(header, "base64").toString("utf-8"))?.payload || {};
+    const from = (payload.authorization || payload).from;
+    return typeof from === "string" ? from : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function holdsJobPayments(config: MerchantPaymentConfig): boolean {
+  return (config.x402?.settlement || "on-success") === "on-success";
+}
+
+/**
+ * Payer, amount and asset of an X-PAYMENT header on a rail (not validated)
+ */
+function describePayment(header: string, rail: PaymentRail, key: string): RequestPayment {
+  let payload: Record<string, any> = {};
+  try {
+    payload = JSON.parse(Buffer.from(header, "base64").toString("utf-8"))?.payload || {};
+  } catch {
+    // Left to the rail middleware to reject
+  }
+  const authorization = payload.authorization || payload;
+  const price = rail.prices.get(key);
+
+  let asset: string | undefined;
+  if (price?.scheme === "evvm") {
+    asset = authorization.token || price.tokenAddress;
+  } else if (price) {
+    const atomic = processPriceToAtomicAmount(price.price, price.network);
+    asset = "error" in atomic ? undefined : atomic.asset.address;
+  }
+
+  return {
+    scheme: rail.scheme,
+    network: rail.network,
+    payer: authorization.from,
+    amount: authorization.value?.toString() || authorization.amount?.toString() || (price?.scheme === "evvm" ? price.price : undefined),
+    asset,
+  };
+}
+
+/**
+ * The request as an unpaid one (no X-PAYMENT header), to read a route's 402
+ */
+function withoutPayment(req: Request): Request {
+  return Object.create(req, {
+    header: { value: (name: string) => (name.toLowerCase() === "x-payment" ? undefined : req.header(name)) },
+  });
+}
+
+/**
+ * Run a rail middleware against a stand-in response and keep its 402 body
+ */
+function collectChallenge(rail: PaymentRail, req: Request): Promise<Record<string, any> | null> {
+  // Ask for JSON so the x402 paywall page is not rendered
+  const jsonReq = Object.create(req, {
+    header: { value: (name: string) => (name.toLowerCase() === "accept" ? "application/json" : req.header(name)) },
+    get: { value: (name: string) => (name.toLowerCase() === "accept" ? "application/json" : req.get(name)) },
+  });
+
+  return new Promise((resolve, reject) => {
+    let statusCode = 200;
+    const res: any = {
+      status(code: number) { statusCode = code; return res; },
+      json(body: any) { resolve(statusCode === 402 ? body : null); return res; },
+      send() { resolve(null); return res; },
+      setHeader() { return res; },
+      set() { return res; },
+      header() { return res; },
+    };
+    Promise.resolve(rail.middleware(jsonReq, res, () => resolve(null))).catch(reject);
+  });
+}
+
+/**
+ * Payment middleware and discovery challenges for a catalog
+ */
+export async function createCatalogPayments(
+  catalog: PaidEndpoint[],
+  config: MerchantPaymentConfig
+): Promise<CatalogPayments> {
+  const rails = await buildRails(catalog, config);
+  const routes = new Set(catalog.map(routeKey));
+  const jobRoutes = new Set(catalog.filter(endpoint => endpoint.job).map(routeKey));
+
+  // Nonces of held x402 authorizations, so one authorization can't pay for two jobs
+  const heldNonces = new Set<string>();
+
+  /**
+   * Verify an x402 payment like x402-express does, but leave settling to the route
+   */
+  const hold = async (rail: PaymentRail, header: string, key: string, req: Request, res: Response, next: () => void) => {
+    const accepts: PaymentRequirements[] = (await collectChallenge(rail, withoutPayment(req)))?.accepts || [];
+    const reject = (error: string, payer?: string) => res.status(402).json({ x402Version: 1, error, accepts, ...(payer ? { payer } : {}) });
+
+    let decoded: PaymentPayload;
+    try {
+      decoded = exact.evm.decodePayment(header);
+      decoded.x402Version = 1;
+    } catch (error: any) {
+      return reject(error?.message || "Invalid or malformed payment header");
+    }
+
+    const requirement = findMatchingPaymentRequirements(accepts, decoded);
+    if (!requirement) {
+      return reject("Unable to find matching payment requirements");
+    }
+
+    const verification = await rail.facilitator!.verify(decoded, requirement);
+    if (!verification.isValid) {
+      return reject(verification.invalidReason || "Payment verification failed", verification.payer);
+    }
+
+    const nonce = (decoded.payload as ExactEvmPayload).authorization.nonce;
+    if (heldNonces.has(nonce)) {
+      return reject("This payment authorization is already held for another request", verification.payer);
+    }
+    heldNonces.add(nonce);
+
+    const payment: RequestPayment = {
+      ...describePayment(header, rail, key),
+      held: {
+        settle: async () => {
+          try {
+            const settlement = await rail.facilitator!.settle(decoded, requirement);
+            if (!settlement.success) {
+              throw new Error(settlement.errorReason || "Payment settlement failed");
+            }
+            return settlement.transaction;
+          } finally {
+            heldNonces.delete(nonce);
+          }
+        },
+        release: () => {
+          heldNonces.delete(nonce);
+        },
+      },
+    };
+    res.locals.payment = payment;
+    next();
+  };
+
+  const challenge = async (endpoint: PaidEndpoint, req: Request) => {
+    // Pose as an unpaid request to the endpoint itself
+    const probe = Object.create(withoutPayment(req), {
+      method: { value: endpoint.method },
+      path: { value: endpoint.path },
+      originalUrl: { value: endpoint.path },
+    });
+
+    const key = routeKey(endpoint);
+    const challenges = await Promise.all(rails.filter(rail => rail.routes.has(key)).map(rail => collectChallenge(rail, probe)));
+    return challenges.flatMap(c => c?.accepts || []);
+  };
+
+  const middleware: RequestHandler = async (req: Request, res: Response, next) => {
+    const key = `${req.method.toUpperCase()} ${req.path}`;
+    if (!routes.has(key)) {
+      return next();
+    }
+
+    const routeRails = rails.filter(rail => rail.routes.has(key));
+    if (routeRails.length === 0) {
+      return res.status(503).json({ error: `No enabled payment scheme for ${key}` });
+    }
+
+    const header = req.header("X-PAYMENT");
+    if (header) {
+      const target = decodePaymentTarget(header);
+      const scheme = target ? schemeOf(target) : undefined;
+      const rail = routeRails.find(r => r.scheme === scheme && r.network === target?.network)
+        || routeRails.find(r => r.scheme === scheme)
+        || routeRails[0];
+
+      res.locals.paymentScheme = rail.scheme;
+      if (rail.scheme === "x402" && jobRoutes.has(key) && holdsJobPayments(config)) {
+        try {
+          return await hold(rail, header, key, req, res, next);
+        } catch (error) {
+          return next(error);
+        }
+      }
+      res.locals.payment = describePayment(header, rail, key);
+      return rail.middleware(req, res, next);
+    }
+
+    // A single rail keeps its own 402 (including the x402 browser paywall)
+    if (routeRails.length === 1) {
+      return routeRails[0].middleware(req, res, next);
+    }
+
+    try {
+      const challenges = (await Promise.all(routeRails.map(rail => collectChallenge(rail, req))))
+        .filter((c): c is Record<string, any> => c !== null);
+
+      res.status(402).json({
+        x402Version: 1,
+        error: "X-PAYMENT header is required",
+        accepts: challenges.flatMap(c => c.accepts || []),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return { middleware, challenge };
+}
@@ -0,0 +1,508 @@
+import express from "express";
+import { OpenAIAgent } from "./openai-agent.js";
+import { createProviderFromEnv } from "./llm-provider.js";
+import { runRecordingsFromEnv } from "./run-recordings.js";
+import { contextPolicyFromEnv } from "./context-manager.js";
+import { MCPClientPool, createMCPConnectionFromEnv } from "./mcp-client-pool.js";
+import type { MCPConnection } from "./mcp-client.js";
+import { AgentLease, AgentPool, AgentPoolFullError, agentPoolConfigFromEnv } from "./agent-pool.js";
+import { ApprovalQueue, approvalConfigFromEnv, approvalRetentionMs, createApprovalRouter } from "./approval.js";
+import { EndpointError, PaidEndpoint, createMerchantCatalog, routeKey } from "./merchant-catalog.js";
+import { MerchantPaymentConfig, RequestPayment, X402Settlement, createCatalogPayments, payerOf, toJsonSchema } from "./merchant-payments.js";
+import { PaymentScheme, parsePaymentSchemes } from "./payment-schemes.js";
+import { Job, JobAccepted, JobManager, JobPayment, createJobRouter, jobConfigFromEnv, webhookUrlOf } from "./jobs.js";
+import { RefundLog, RefundRecord, refundPayment, refunderFromEnv } from "./refunds.js";
+import { taskTemplatesFromEnv } from "./task-templates.js";
+import { UsageLog, UsageRecord, createUsageRouter } from "./usage-log.js";
+import { priceTableFromEnv } from "./agent-usage.js";
+import dotenv from "dotenv";
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Merchant Server
+ * One Express server for every paid endpoint in the merchant catalog. Each route
+ * accepts the payment schemes enabled here (Polygon x402 USDC, EVVM tokens or both)
+ * at the price the catalog sets for that scheme. Job endpoints (agent automation)
+ * answer 202 with a job ID and run once the payment is verified. Held x402 payments
+ * settle when the job succeeds; payments that settled up front (EVVM, or x402 with
+ * MERCHANT_X402_SETTLEMENT=upfront) are refunded when the work fails.
+ */
+
+export interface MerchantServerOptions {
+  /** Shown in logs and on /health */
+  name: string;
+  port: number | string;
+  schemes: PaymentScheme[];
+}
+
+// Default EVVM contract address for Sepolia
+const EVVM_SEPOLIA_ADDRESS = "0x9902984d86059234c3B6e11D5eAEC55f9627dD0f";
+
+/**
+ * Schemes from MERCHANT_SCHEMES, else x402 plus EVVM when a relayer key is configured
+ */
+export function merchantSchemesFromEnv(): PaymentScheme[] {
+  if (process.env.MERCHANT_SCHEMES) {
+    return parsePaymentSchemes(process.env.MERCHANT_SCHEMES);
+  }
+  return process.env.RELAYER_PRIVATE_KEY ? ["x402", "evvm"] : ["x402"];
+}
+
+function paymentConfigFromEnv(schemes: PaymentScheme[], jobTimeoutSeconds: number): MerchantPaymentConfig {
+  const config: MerchantPaymentConfig = { schemes, jobTimeoutSeconds };
+
+  if (schemes.includes("x402")) {
+    config.x402 = {
+      // Your wallet address to receive payments (replace with your actual address)
+      payTo: (process.env.RECEIVER_ADDRESS || "0x742d35Cc6634C0532925a3b844Bc454e4438f44e") as `0x${string}`,
+      // Using Polygon Amoy testnet facilitator
+      facilitatorUrl: process.env.FACILITATOR_URL || "https://facilitator.x402.rs",
+      // Settle job payments once the job succeeded (on-success) or before it runs (upfront)
+      settlement: (process.env.MERCHANT_X402_SETTLEMENT || "on-success") as X402Settlement,
+    };
+    if (!["on-success", "upfront"].includes(config.x402.settlement!)) {
+      throw new Error(`MERCHANT_X402_SETTLEMENT must be on-success or upfront, got "${config.x402.settlement}"`);
+    }
+  }
+
+  if (schemes.includes("evvm")) {
+    // Server's relayer private key (used to execute transactions on behalf of users)
+    const relayerPrivateKey = process.env.RELAYER_PRIVATE_KEY as `0x${string}`;
+    if (!relayerPrivateKey) {
+      console.error("RELAYER_PRIVATE_KEY environment variable is required for EVVM payments");
+      console.error("Add it to your .env file");
+      process.exit(1);
+    }
+
+    config.evvm = {
+      payTo: (process.env.RECEIVER_ADDRESS || "0x171550d64ed48a3767138149baac989f03890fd9") as `0x${string}`,
+      relayerPrivateKey,
+      // Optional: Custom RPC URL to avoid rate limiting
+      rpcUrl: process.env.RPC_URL,
+      defaultEvvmAddress: EVVM_SEPOLIA_ADDRESS,
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Settlement transaction from the X-PAYMENT-RESPONSE header a rail middleware set
+ */
+function settlementTransaction(res: express.Response): string | undefined {
+  const header = res.getHeader("X-PAYMENT-RESPONSE");
+  if (typeof header !== "string") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(header, "base64").toString("utf-8"))?.transaction || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 503 for an agent endpoint while every agent session is busy and the queue is full
+ */
+function agentPoolBusy(res: express.Response, error: AgentPoolFullError, refund?: RefundRecord) {
+  return res.status(503).set("Retry-After", String(error.retryAfterSeconds)).json({
+    status: "error",
+    summary: "All agent sessions are busy, retry later",
+    data: { error: error.message, retryAfterSeconds: error.retryAfterSeconds },
+    ...(refund ? { refund: { status: refund.status, transaction: refund.transaction, error: refund.error } } : {}),
+  });
+}
+
+/**
+ * Human-readable prices of an endpoint for the enabled schemes
+ */
+function describePrices(endpoint: PaidEndpoint, schemes: PaymentScheme[]): string {
+  return endpoint.prices
+    .filter(price => schemes.includes(price.scheme))
+    .map(price => price.scheme === "x402"
+      ? `${price.price.replace("$", "")} USDC on ${price.network}`
+      : `${price.price} token unit${price.price === "1" ? "" : "s"} via EVVM`)
+    .join(" or ");
+}
+
+export async function startMerchantServer(options: MerchantServerOptions): Promise<express.Express> {
+  const { name, port, schemes } = options;
+
+  // Pending human approvals for irreversible agent actions (APPROVAL_MODE=on)
+  const approvalQueue = new ApprovalQueue(approvalRetentionMs());
+
+  // MCP connection of each agent session: the Browser MCP server, or every server in
+  // MCP_SERVERS_FILE with {{session}} filled in
+  const mcpConnections: MCPConnection[] = [];
+
+  // Agent sessions for the agent endpoints (AGENT_POOL_SIZE), one browser each
+  const agentPoolConfig = agentPoolConfigFromEnv();
+  const agents = new AgentPool(agentPoolConfig, session => {
+    mcpConnections[session] = createMCPConnectionFromEnv(session);
+
+    // LLM backend from LLM_PROVIDER (OpenAI by default)
+    return new OpenAIAgent({
+      provider: createProviderFromEnv(),
+      model: process.env.LLM_MODEL,
+      mcp: mcpConnections[session],
+      approval: approvalConfigFromEnv(approvalQueue),
+      recordings: runRecordingsFromEnv(),
+      prices: priceTableFromEnv(),
+      context: contextPolicyFromEnv(),
+    });
+  });
+
+  if (agentPoolConfig.size > 1 && !process.env.MCP_SERVERS_FILE) {
+    console.warn("⚠️  AGENT_POOL_SIZE > 1 without MCP_SERVERS_FILE - every agent session drives the same browser");
+  }
+
+  const catalog = createMerchantCatalog({ templates: taskTemplatesFromEnv() });
+
+  // Background runs of job endpoints, polled with the free GET /jobs/:id
+  const jobConfig = jobConfigFromEnv();
+  const jobs = new JobManager(jobConfig);
+  const paymentConfig = paymentConfigFromEnv(schemes, jobs.timeoutSeconds);
+
+  // Pays back upfront-settled payments for failed work; sends from the receiver wallet
+  const refunds = refunderFromEnv(paymentConfig.evvm?.rpcUrl ? { sepolia: paymentConfig.evvm.rpcUrl } : {});
+  const refundLog = new RefundLog(process.env.REFUNDS_FILE || "./data/refunds.jsonl");
+
+  // LLM tokens and cost of agent runs next to what they were paid, for GET /usage
+  const usageLog = new UsageLog(process.env.USAGE_FILE || "./data/usage.jsonl");
+
+  /**
+   * Log the usage an agent route reported in its result or error body
+   */
+  const recordUsage = (route: string, body: Record<string, any> | undefined, payment: UsageRecord["payment"], jobId?: string): void => {
+    if (!body?.usage) {
+      return;
+    }
+    usageLog.append({
+      timestamp: new Date().toISOString(),
+      route,
+      jobId,
+      status: body.status || "error",
+      usage: body.usage,
+      payment,
+    });
+  };
+
+  const usagePaymentOf = (payment: RequestPayment | undefined, kept: boolean): UsageRecord["payment"] => payment && {
+    scheme: payment.scheme,
+    network: payment.network,
+    amount: payment.amount,
+    asset: payment.asset,
+    kept,
+  };
+
+  /**
+   * Refund a payment that settled before the work failed
+   */
+  const refund = (payment: RequestPayment, context: { route: string; jobId?: string; reason: string }): Promise<RefundRecord> => {
+    if (!payment.payer || !payment.amount || !payment.asset) {
+      const record: RefundRecord = {
+        scheme: payment.scheme, network: payment.network, payer: payment.payer || "", amount: payment.amount || "", asset: payment.asset || "",
+        ...context, timestamp: new Date().toISOString(), status: "failed", error: "Payer, amount or asset of the payment unknown",
+      };
+      return refundLog.append(record).then(() => record);
+    }
+    return refundPayment(refunds?.refunder ?? null, refundLog, {
+      scheme: payment.scheme, network: payment.network, payer: payment.payer, amount: payment.amount, asset: payment.asset,
+    }, context);
+  };
+
+  /**
+   * Settle, release or refund a job's payment once the job has finished
+   */
+  const finalizePayment = async (job: Job, payment: RequestPayment): Promise<void> => {
+    const record = job.payment!;
+    if (job.status === "succeeded") {
+      if (!payment.held) {
+        return;
+      }
+      try {
+        record.transaction = await payment.held.settle();
+        record.status = "settled";
+        console.log(`💸 Job ${job.id} payment settled: ${record.transaction}`);
+      } catch (error: any) {
+        record.status = "settle_failed";
+        record.error = error?.message || String(error);
+        console.error(`❌ Job ${job.id} payment did not settle: ${record.error}`);
+      }
+      return;
+    }
+
+    if (payment.held) {
+      payment.held.release();
+      record.status = "released";
+      console.log(`🔓 Job ${job.id} failed; payment released without settling`);
+      return;
+    }
+
+    const refunded = await refund(payment, { route: job.type, jobId: job.id, reason: job.error?.summary || "Job failed" });
+    record.status = refunded.status === "refunded" ? "refunded" : "refund_failed";
+    record.refundTransaction = refunded.transaction;
+    record.error = refunded.error;
+  };
+
+  /**
+   * Job record of a request's payment; upfront payments have already settled
+   */
+  const jobPaymentOf = (payment: RequestPayment): JobPayment => ({
+    status: payment.held ? "held" : "settled",
+    scheme: payment.scheme,
+    network: payment.network,
+    payer: payment.payer,
+    amount: payment.amount,
+    asset: payment.asset,
+  });
+
+  const app = express();
+
+  // Add JSON body parser middleware
+  app.use(express.json());
+
+  // Endpoints for deciding pending approvals, behind the admin token (registered before
+  // the payment middleware)
+  if (process.env.APPROVAL_ADMIN_TOKEN) {
+    app.use(createApprovalRouter(approvalQueue, process.env.APPROVAL_ADMIN_TOKEN));
+  } else if (process.env.APPROVAL_MODE === "on") {
+    console.warn("⚠️  APPROVAL_ADMIN_TOKEN not set - /approvals is disabled, pending approvals will expire");
+  }
+
+  app.use(createJobRouter(jobs));
+
+  app.use(createUsageRouter(usageLog));
+
+  const payments = await createCatalogPayments(catalog, paymentConfig);
+
+  // Free discovery of every paid route with its 402 requirements, in the shape of
+  // an x402 facilitator's /discovery/resources (registered before the payment middleware)
+  app.get("/discovery/resources", async (req, res, next) => {
+    try {
+      const items = await Promise.all(catalog.map(async endpoint => ({
+        resource: `${req.protocol}://${req.headers.host}${endpoint.path}`,
+        type: "http",
+        x402Version: 1,
+        accepts: await payments.challenge(endpoint, req),
+        lastUpdated: new Date().toISOString(),
+        metadata: {
+          method: endpoint.method,
+          path: endpoint.path,
+          description: endpoint.description,
+          inputSchema: toJsonSchema(endpoint.input),
+          outputSchema: toJsonSchema(endpoint.output),
+          // Answered with 202 { jobId, statusUrl }; the output is the finished job's result
+          ...(endpoint.job ? { job: true } : {}),
+        },
+      })));
+      const paid = items.filter(item => item.accepts.length > 0);
+
+      res.json({
+        x402Version: 1,
+        items: paid,
+        pagination: { limit: paid.length, offset: 0, total: paid.length },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Checks that need no payment run before the payment middleware, so nobody pays for a
+  // request that is turned away: invalid input or webhook URL is a 400, and a full agent
+  // queue (or the payer's share of it) a 503. The payer is read from the unverified
+  // header here, and checked again once the payment is verified.
+  for (const endpoint of catalog) {
+    const register = endpoint.method === "GET" ? app.get.bind(app) : app.post.bind(app);
+
+    register(endpoint.path, (req, res, next) => {
+      const parsed = endpoint.input.safeParse(endpoint.method === "GET" ? req.query : req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          status: "error",
+          summary: `Invalid request to ${routeKey(endpoint)}`,
+          data: { error: parsed.error.issues.map(i => `${i.path.join(".") || "input"}: ${i.message}`).join("; ") },
+        });
+      }
+      res.locals.input = parsed.data;
+
+      if (endpoint.job) {
+        try {
+          res.locals.webhookUrl = webhookUrlOf(req, jobConfig.webhookAllowedHosts);
+        } catch (error: any) {
+          return res.status(400).json({ status: "error", data: { error: error.message } });
+        }
+      }
+
+      res.locals.tenant = payerOf(req.header("X-PAYMENT")) || req.ip || "anonymous";
+      const full = endpoint.agent ? agents.checkCapacity(res.locals.tenant) : null;
+      if (full) {
+        return agentPoolBusy(res, full);
+      }
+      next();
+    });
+  }
+
+  app.use(payments.middleware);
+
+  for (const endpoint of catalog) {
+    const register = endpoint.method === "GET" ? app.get.bind(app) : app.post.bind(app);
+
+    register(endpoint.path, async (req, res) => {
+      // Validated before the payment middleware
+      const input = res.locals.input;
+
+      // Agent endpoints take their place in the pool before the job is accepted. A 503
+      // leaves an x402 payment unsettled (a held one is released); EVVM has already
+      // settled, so it is refunded.
+      let session: AgentLease | undefined;
+      if (endpoint.agent) {
+        const payment: RequestPayment | undefined = res.locals.payment;
+        try {
+          session = agents.enqueue(payment?.payer || res.locals.tenant);
+        } catch (error) {
+          if (!(error instanceof AgentPoolFullError)) {
+            throw error;
+          }
+          payment?.held?.release();
+          const refunded = payment?.scheme === "evvm"
+            ? await refund(payment, { route: routeKey(endpoint), reason: "All agent sessions are busy" })
+            : undefined;
+          return agentPoolBusy(res, error, refunded);
+        }
+      }
+
+      if (endpoint.job) {
+        const payment: RequestPayment | undefined = res.locals.payment;
+        const job = jobs.create(routeKey(endpoint), res.locals.webhookUrl, payment && jobPaymentOf(payment));
+        const scheme = res.locals.paymentScheme;
+
+        // Upfront payments settle before the 202 goes out (a failed settlement turns it
+        // into a 402, and the job never runs); held ones settle when the job succeeds
+        res.on("finish", () => {
+          if (res.statusCode !== 202) {
+            session?.release();
+            payment?.held?.release();
+            return jobs.discard(job.id);
+          }
+          if (job.payment && !payment?.held) {
+            job.payment.transaction = settlementTransaction(res);
+          }
+          jobs.run(
+            job.id,
+            context => endpoint.handler(input, { req, scheme, job: context, session }).finally(() => session?.release()),
+            async finished => {
+              if (payment) {
+                await finalizePayment(finished, payment);
+              }
+              const kept = finished.payment?.status === "settled";
+              recordUsage(job.type, finished.result || finished.error, usagePaymentOf(payment, kept), finished.id);
+            }
+          );
+        });
+
+        const accepted: JobAccepted = { status: "accepted", jobId: job.id, statusUrl: `/jobs/${job.id}`, eventsUrl: `/jobs/${job.id}/events` };
+        return res.status(202).location(accepted.statusUrl).json(accepted);
+      }
+
+      try {
+        const output = await endpoint.handler(input, { req, scheme: res.locals.paymentScheme, session });
+        res.json(output);
+        recordUsage(routeKey(endpoint), output, usagePaymentOf(res.locals.payment, true));
+      } catch (error: any) {
+        const body = error instanceof EndpointError ? error.body : { status: "error", data: { error: error?.message || String(error) } };
+        if (!(error instanceof EndpointError)) {
+          console.error(`\n❌ ${routeKey(endpoint)} failed:`, error);
+        }
+
+        // x402 only settles successful responses; EVVM has settled before the handler ran
+        const payment: RequestPayment | undefined = res.locals.payment;
+        if (payment?.scheme === "evvm") {
+          const refunded = await refund(payment, { route: routeKey(endpoint), reason: body.summary || "Request failed" });
+          body.refund = { status: refunded.status, transaction: refunded.transaction, error: refunded.error };
+        }
+        res.status(error instanceof EndpointError ? error.status : 500).json(body);
+        recordUsage(routeKey(endpoint), body, usagePaymentOf(payment, payment?.scheme === "evvm" && body.refund?.status !== "refunded"));
+      } finally {
+        session?.release();
+      }
+    });
+  }
+
+  // Health check endpoint (free)
+  app.get("/health", (req, res) => {
+    res.json({
+      status: "ok",
+      message: `${name} is running`,
+      schemes,
+      timestamp: new Date().toISOString(),
+      jobs: { running: jobs.list("running").length },
+      mcpServers: mcpConnections.flatMap((connection, session) => connection instanceof MCPClientPool
+        ? connection.getHealth().map(health => ({ session, ...health }))
+        : []),
+      agentPool: agents.stats(),
+    });
+  });
+
+  // Root endpoint
+  app.get("/", (req, res) => {
+    res.json({
+      message: `Welcome to ${name}`,
+      endpoints: {
+        "/health": "Free - Health check",
+        "/discovery/resources": "Free - Paid routes with their 402 requirements and schemas",
+        "/jobs/:id": "Free - Status, steps and result of a paid job",
+        "/jobs/:id/events": "Free - Server-Sent Events of a paid job (steps, agent events, done)",
+        "/jobs/:id/cancel": "Free - POST to stop a running job (its payment is released or refunded)",
+        "/usage": "Free - LLM tokens, cost and revenue per route and day",
+        ...Object.fromEntries(catalog
+          .filter(endpoint => describePrices(endpoint, schemes))
+          .map(endpoint => [endpoint.path, `Paid - ${endpoint.description} (${describePrices(endpoint, schemes)})`])),
+      },
+    });
+  });
+
+  await new Promise<void>(resolve => app.listen(port, () => resolve()));
+  jobs.start();
+  approvalQueue.start();
+
+  console.log(`\n🚀 ${name} running at http://localhost:${port}`);
+  console.log(`\n📍 Available endpoints:`);
+  console.log(`   GET /health - Free endpoint`);
+  console.log(`   GET /discovery/resources - Free discovery of the paid routes`);
+  console.log(`   GET /jobs/:id - Free status of paid jobs`);
+  console.log(`   GET /jobs/:id/events - Free event stream of paid jobs`);
+  console.log(`   POST /jobs/:id/cancel - Free cancel of running jobs`);
+  console.log(`   GET /usage - Free LLM cost and revenue per route and day`);
+  for (const endpoint of catalog) {
+    const prices = describePrices(endpoint, schemes);
+    if (prices) {
+      console.log(`   ${routeKey(endpoint)} - Paid (${prices})${endpoint.job ? " - runs as a job" : ""}`);
+    }
+  }
+  if (paymentConfig.x402) {
+    console.log(`\n💰 x402 payments to: ${paymentConfig.x402.payTo}`);
+    console.log(`🔗 Facilitator: ${paymentConfig.x402.facilitatorUrl}`);
+    console.log(`⏳ Job payments settle: ${paymentConfig.x402.settlement}`);
+  }
+  if (paymentConfig.evvm) {
+    console.log(`\n💰 EVVM payments to: ${paymentConfig.evvm.payTo}`);
+    console.log(`📝 EVVM Contract: ${paymentConfig.evvm.defaultEvvmAddress}`);
+  }
+  const refundsNeeded = paymentConfig.evvm || paymentConfig.x402?.settlement === "upfront";
+  if (refunds) {
+    const refunder = await refunds.signer.getAddress();
+    const receivers = [paymentConfig.x402?.payTo, paymentConfig.evvm?.payTo].filter(Boolean).map(a => a!.toLowerCase());
+    if (!receivers.includes(refunder.toLowerCase())) {
+      console.warn(`⚠️  Refund signer ${refunder} is not a receiver address; refunds are paid from it anyway`);
+    }
+    console.log(`↩️  Refunds from: ${refunder}`);
+  } else if (refundsNeeded) {
+    console.warn(`⚠️  No refund signer (REFUND_PRIVATE_KEY); failed upfront payments are only recorded in the refund log`);
+  }
+  console.log(`\n📝 Try it: curl http://localhost:${port}/weather?location=Miami\n`);
+
+  return app;
+}
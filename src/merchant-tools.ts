@@ -0,0 +1,413 @@
+import fs from "fs";
+import axios from "axios";
+import { z } from "zod";
+import { formatUnits } from "viem";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { PaymentChallenge } from "./spending-policy.js";
+import { PaymentScheme, parsePaymentSchemes, schemeOf } from "./payment-schemes.js";
+
+/**
+ * Merchant Tools
+ * Builds one MCP tool per paid capability from the merchants' 402 discovery
+ * metadata (GET /discovery/resources, or the 402 challenge of each listed route):
+ * the input schema becomes the tool parameters and the prices and networks go into
+ * the tool description. The same route served by several merchants (or on several
+ * rails) is one tool; the rail is picked when the tool is called. Adding an endpoint
+ * to a merchant's catalog exposes it to agents on the next refresh, without new MCP code.
+ */
+
+export interface MerchantConfig {
+  /** Merchant base URL, e.g. http://localhost:4021 */
+  url: string;
+  /** Only pay this merchant with these schemes (default: whatever it accepts) */
+  schemes?: PaymentScheme[];
+  /**
+   * Routes to probe for a 402 when the merchant has no /discovery/resources,
+   * e.g. ["GET /weather", "POST /request-uber"]
+   */
+  routes?: string[];
+}
+
+export interface MerchantsFile {
+  merchants: Record<string, MerchantConfig>;
+}
+
+export interface MerchantRoute {
+  merchant: string;
+  baseURL: string;
+  method: "GET" | "POST";
+  path: string;
+  /** Absolute URL of the paid resource */
+  resource: string;
+  description: string;
+  /** 402 requirements, narrowed to the schemes the merchant is configured for */
+  accepts: PaymentChallenge[];
+  /** JSON Schema of the query (GET) or JSON body (POST) */
+  inputSchema: Record<string, any>;
+  outputSchema?: Record<string, any>;
+}
+
+/**
+ * Handler behind every merchant tool; `routes` are the merchants offering the capability
+ */
+export type PaidRouteCaller = (
+  routes: MerchantRoute[],
+  toolName: string,
+  args: Record<string, any>,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => Promise<CallToolResult>;
+
+// Keys x402 puts next to the JSON Schema in `outputSchema.input`
+const HTTP_INPUT_KEYS = ["type", "method", "discoverable", "bodyType", "queryParams", "bodyFields", "headerFields"];
+
+/**
+ * Merchants from MERCHANTS_FILE, else the x402 and EVVM payment servers
+ */
+export function loadMerchants(path?: string): Record<string, MerchantConfig> {
+  if (!path) {
+    return {
+      payment: { url: process.env.PAYMENT_SERVER_URL || "http://localhost:4021" },
+      evvm: { url: process.env.EVVM_SERVER_URL || "http://localhost:4022" },
+    };
+  }
+
+  const file = JSON.parse(fs.readFileSync(path, "utf-8")) as MerchantsFile;
+  if (!file.merchants || typeof file.merchants !== "object") {
+    throw new Error(`${path} must contain a "merchants" object`);
+  }
+
+  for (const [name, merchant] of Object.entries(file.merchants)) {
+    if (!merchant.url) {
+      throw new Error(`Merchant "${name}" in ${path} has no url`);
+    }
+    if (merchant.schemes) {
+      merchant.schemes = parsePaymentSchemes(merchant.schemes.join(","));
+    }
+  }
+
+  return file.merchants;
+}
+
+// Path prefixes that already read as a verb in a tool name
+const VERBS = ["get", "list", "search", "request", "create", "book", "buy", "send"];
+
+/**
+ * MCP tool name for a route, e.g. GET /weather → get_weather, POST /request-uber → request_uber
+ */
+export function toolNameFor(method: string, path: string): string {
+  const slug = path.replace(/^\/+|\/+$/g, "").replace(/[^a-zA-Z0-9]+/g, "_").toLowerCase() || "root";
+  const hasVerb = VERBS.some(verb => slug === verb || slug.startsWith(`${verb}_`));
+  return hasVerb || method !== "GET" ? slug : `get_${slug}`;
+}
+
+/**
+ * Human-readable price of one 402 requirement
+ */
+export function describePrice(requirement: PaymentChallenge): string {
+  const amount = requirement.maxAmountRequired ?? (requirement as any).amount ?? (requirement as any).price ?? "?";
+
+  if (schemeOf(requirement) === "x402") {
+    const token = requirement.extra?.name || "USDC";
+    // x402 amounts are atomic units; USDC has 6 decimals
+    const value = /^\d+$/.test(String(amount)) ? formatUnits(BigInt(amount), 6) : amount;
+    return `${value} ${token} on ${requirement.network} (x402)`;
+  }
+
+  return `${amount} token unit${String(amount) === "1" ? "" : "s"} on ${requirement.network} (EVVM)`;
+}
+
+/**
+ * Tool description: what the route does, who sells it and every price on offer
+ */
+export function describeRoutes(routes: MerchantRoute[]): string {
+  const [first] = routes;
+  const offers = routes.flatMap(route => route.accepts.map(a => `${describePrice(a)} from ${route.merchant}`));
+  return [
+    `${first.description}.`,
+    `Paid ${first.method} ${first.path}, paid automatically from this server's wallet on the best rail it can use.`,
+    `Price per call: ${offers.join(" or ")}.`,
+  ].join(" ");
+}
+
+/**
+ * Convert the JSON Schema subset produced by zod-to-json-schema back into zod
+ */
+export function jsonSchemaToZod(schema: Record<string, any> = {}): z.ZodTypeAny {
+  let type: z.ZodTypeAny;
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0 && schema.enum.every((v: unknown) => typeof v === "string")) {
+    type = z.enum(schema.enum as [string, ...string[]]);
+  } else if (schema.anyOf || schema.oneOf) {
+    const options = (schema.anyOf || schema.oneOf).map((option: Record<string, any>) => jsonSchemaToZod(option));
+    type = options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  } else {
+    switch (Array.isArray(schema.type) ? schema.type[0] : schema.type) {
+      case "string": {
+        let str = z.string();
+        if (typeof schema.minLength === "number") str = str.min(schema.minLength);
+        if (typeof schema.maxLength === "number") str = str.max(schema.maxLength);
+        type = str;
+        break;
+      }
+      case "number":
+      case "integer": {
+        let num = schema.type === "integer" ? z.number().int() : z.number();
+        if (typeof schema.minimum === "number") num = num.min(schema.minimum);
+        if (typeof schema.maximum === "number") num = num.max(schema.maximum);
+        type = num;
+        break;
+      }
+      case "boolean":
+        type = z.boolean();
+        break;
+      case "array":
+        type = z.array(jsonSchemaToZod(schema.items));
+        break;
+      case "object":
+        type = schema.properties
+          ? z.object(jsonSchemaToZodShape(schema)).passthrough()
+          : z.record(z.any());
+        break;
+      default:
+        type = z.any();
+    }
+  }
+
+  if (schema.description) {
+    type = type.describe(schema.description);
+  }
+  return type;
+}
+
+/**
+ * Tool parameters (zod raw shape) from an object JSON Schema
+ */
+export function jsonSchemaToZodShape(schema: Record<string, any> = {}): z.ZodRawShape {
+  const required = new Set<string>(schema.required || []);
+  const shape: z.ZodRawShape = {};
+
+  for (const [key, property] of Object.entries<Record<string, any>>(schema.properties || {})) {
+    const type = jsonSchemaToZod(property);
+    // Defaults are applied by the merchant, so the parameter is simply optional here
+    shape[key] = required.has(key) && property.default === undefined ? type : type.optional();
+  }
+
+  return shape;
+}
+
+function routeFromRequirements(
+  merchant: string,
+  config: MerchantConfig,
+  resource: string,
+  accepts: PaymentChallenge[],
+  metadata: Record<string, any> = {}
+): MerchantRoute | null {
+  const usable = accepts.filter(a => !config.schemes || config.schemes.includes(schemeOf(a)));
+  if (usable.length === 0) {
+    return null;
+  }
+
+  const input: Record<string, any> = (usable[0] as any).outputSchema?.input || {};
+  const inputSchema = metadata.inputSchema || Object.fromEntries(
+    Object.entries(input).filter(([key]) => !HTTP_INPUT_KEYS.includes(key))
+  );
+  const method = String(metadata.method || input.method || "GET").toUpperCase();
+
+  return {
+    merchant,
+    baseURL: config.url.replace(/\/+$/, ""),
+    method: method === "POST" ? "POST" : "GET",
+    path: metadata.path || new URL(resource).pathname,
+    resource,
+    description: metadata.description || usable[0].description || `${method} ${resource}`,
+    accepts: usable,
+    inputSchema: { type: "object", ...inputSchema },
+    outputSchema: metadata.outputSchema || (usable[0] as any).outputSchema?.output,
+  };
+}
+
+/**
+ * Paid routes of one merchant, from /discovery/resources or by probing its routes for a 402
+ */
+export async function discoverMerchant(merchant: string, config: MerchantConfig): Promise<MerchantRoute[]> {
+  const baseURL = config.url.replace(/\/+$/, "");
+
+  if (!config.routes) {
+    const response = await axios.get(`${baseURL}/discovery/resources`, { timeout: 5000 });
+    return (response.data?.items || [])
+      .filter((item: Record<string, any>) => item.type === "http")
+      .map((item: Record<string, any>) => routeFromRequirements(merchant, config, item.resource, item.accepts || [], item.metadata))
+      .filter((route: MerchantRoute | null): route is MerchantRoute => route !== null);
+  }
+
+  const routes: MerchantRoute[] = [];
+  for (const entry of config.routes) {
+    const [method, path] = entry.includes(" ") ? entry.split(/\s+/, 2) : ["GET", entry];
+    const response = await axios.request({
+      method,
+      url: `${baseURL}${path}`,
+      data: method.toUpperCase() === "POST" ? {} : undefined,
+      headers: { Accept: "application/json" },
+      timeout: 5000,
+      validateStatus: () => true,
+    });
+    if (response.status !== 402) {
+      console.warn(`⚠️  ${merchant} ${entry} answered ${response.status}, not 402 - skipped`);
+      continue;
+    }
+
+    const route = routeFromRequirements(merchant, config, `${baseURL}${path}`, response.data?.accepts || [], {
+      method: method.toUpperCase(),
+      path,
+    });
+    if (route) routes.push(route);
+  }
+  return routes;
+}
+
+interface MerchantTool {
+  routes: MerchantRoute[];
+  signature: string;
+  title: string;
+  description: string;
+  paramsSchema: z.ZodRawShape;
+  /** The tool as registered on each attached MCP server */
+  registered: Map<McpServer, RegisteredTool>;
+}
+
+/**
+ * Registers, updates and removes one MCP tool per discovered paid capability, on
+ * every attached MCP server (one per session)
+ */
+export class MerchantToolRegistry {
+  private tools = new Map<string, MerchantTool>();
+  private servers = new Set<McpServer>();
+  /** Last routes discovered per merchant, kept while a merchant is unreachable */
+  private discovered = new Map<string, MerchantRoute[]>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private merchants: Record<string, MerchantConfig>,
+    private call: PaidRouteCaller
+  ) {}
+
+  /**
+   * Register the current tools on a server and keep it in sync with later refreshes
+   */
+  attach(server: McpServer): void {
+    this.servers.add(server);
+    for (const [name, tool] of this.tools) {
+      this.register(server, name, tool);
+    }
+  }
+
+  /**
+   * Stop syncing a closed server
+   */
+  detach(server: McpServer): void {
+    this.servers.delete(server);
+    for (const tool of this.tools.values()) {
+      tool.registered.delete(server);
+    }
+  }
+
+  /**
+   * Discover every merchant and sync the registered tools.
+   * Tools of an unreachable merchant are kept until it answers again.
+   */
+  async refresh(): Promise<void> {
+    await Promise.all(Object.entries(this.merchants).map(async ([merchant, config]) => {
+      try {
+        this.discovered.set(merchant, await discoverMerchant(merchant, config));
+      } catch (error: any) {
+        console.warn(`⚠️  Could not discover paid routes of ${merchant} (${config.url}): ${error?.message || error}`);
+      }
+    }));
+
+    // Merchants in config order, so the first one's schema and description win
+    const grouped = new Map<string, MerchantRoute[]>();
+    for (const merchant of Object.keys(this.merchants)) {
+      for (const route of this.discovered.get(merchant) || []) {
+        const name = toolNameFor(route.method, route.path);
+        grouped.set(name, [...(grouped.get(name) || []), route]);
+      }
+    }
+
+    for (const [name, routes] of grouped) {
+      this.sync(name, routes);
+    }
+
+    for (const [name, entry] of this.tools) {
+      if (!grouped.has(name)) {
+        entry.registered.forEach(tool => tool.remove());
+        this.tools.delete(name);
+        console.log(`🗑️  Removed merchant tool ${name} (no merchant offers it any more)`);
+      }
+    }
+  }
+
+  /**
+   * Refresh every intervalMs in the background
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => console.error("Merchant tool refresh failed:", error?.message || error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getTools(): Array<{ tool: string; routes: MerchantRoute[] }> {
+    return [...this.tools].map(([tool, { routes }]) => ({ tool, routes }));
+  }
+
+  private sync(name: string, routes: MerchantRoute[]): void {
+    const description = describeRoutes(routes);
+    const inputSchema = routes[0].inputSchema;
+    const paramsSchema = jsonSchemaToZodShape(inputSchema);
+    const signature = JSON.stringify([description, inputSchema]);
+
+    const existing = this.tools.get(name);
+    if (existing) {
+      existing.routes = routes;
+      if (existing.signature !== signature) {
+        Object.assign(existing, { signature, description, paramsSchema });
+        existing.registered.forEach(tool => tool.update({ description, paramsSchema }));
+        console.log(`🔄 Updated merchant tool ${name}`);
+      }
+      return;
+    }
+
+    const tool: MerchantTool = { routes, signature, title: routes[0].description, description, paramsSchema, registered: new Map() };
+    this.tools.set(name, tool);
+    for (const server of this.servers) {
+      this.register(server, name, tool);
+    }
+    console.log(`🧩 Registered merchant tool ${name} → ${routes.map(r => `${r.method} ${r.resource}`).join(", ")}`);
+  }
+
+  private register(server: McpServer, name: string, tool: MerchantTool): void {
+    const callback = (args: Record<string, any>, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) =>
+      this.call(tool.routes, name, args, extra);
+
+    try {
+      tool.registered.set(server, server.registerTool(name, {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.paramsSchema,
+      }, callback as any));
+    } catch (error: any) {
+      console.warn(`⚠️  Could not register merchant tool ${name}: ${error?.message || error}`);
+    }
+  }
+}
@@ -0,0 +1,355 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+
+/**
+ * Mock Browser MCP Server
+ * Implements the Browser MCP tool names (`browser_navigate`, `browser_snapshot`,
+ * `browser_click`, `browser_type`, `browser_wait`, ...) against scripted page
+ * fixtures, so agent flows run offline and deterministically.
+ *
+ * Usage: tsx src/mock-browser-server.ts fixtures/browser/uber.json [fixtures/browser/amazon.json ...]
+ * The first fixture's start page is open when the server starts.
+ * Every action is recorded and readable as the `mock://actions` resource.
+ */
+
+export interface FixtureEffect {
+  /** Page to switch to */
+  goto?: string;
+  /** Refs to make visible */
+  show?: string[];
+  /** Refs to hide */
+  hide?: string[];
+}
+
+export interface FixtureElement {
+  ref: string;
+  role: string;
+  /** Accessible name; `{{typed}}` is replaced with the last text typed on the page */
+  name: string;
+  value?: string;
+  checked?: boolean;
+  hidden?: boolean;
+  onClick?: FixtureEffect;
+  onType?: FixtureEffect;
+}
+
+export interface FixturePage {
+  url: string;
+  title: string;
+  elements: FixtureElement[];
+}
+
+export interface BrowserFixture {
+  name: string;
+  /** Substring of URLs that navigate into this fixture */
+  urlPattern: string;
+  startPage: string;
+  pages: Record<string, FixturePage>;
+}
+
+export interface MockBrowserAction {
+  tool: string;
+  args: Record<string, any>;
+  page: string;
+  /** Accessible name of the target element, for click/type/hover/select */
+  element?: string;
+  error?: string;
+}
+
+interface PageState {
+  fixture: BrowserFixture;
+  pageId: string;
+  visible: Set<string>;
+  checked: Set<string>;
+  values: Map<string, string>;
+  typed: string;
+}
+
+export class MockBrowser {
+  readonly actions: MockBrowserAction[] = [];
+  private fixtures: BrowserFixture[];
+  private history: PageState[] = [];
+  private position = -1;
+
+  constructor(fixtures: BrowserFixture[]) {
+    if (fixtures.length === 0) {
+      throw new Error("Mock browser needs at least one fixture");
+    }
+    this.fixtures = fixtures;
+    this.open(fixtures[0], fixtures[0].startPage);
+  }
+
+  private get current(): PageState {
+    return this.history[this.position];
+  }
+
+  private get page(): FixturePage {
+    return this.current.fixture.pages[this.current.pageId];
+  }
+
+  navigate(url: string): string {
+    const fixture = this.fixtures.find(f => url.includes(f.urlPattern));
+    if (!fixture) {
+      return this.fail("browser_navigate", { url }, `No fixture matches ${url}`);
+    }
+
+    // Prefer the page whose URL matches exactly, else the fixture's start page
+    const pageId = Object.keys(fixture.pages).find(id => url.startsWith(fixture.pages[id].url)) || fixture.startPage;
+    this.open(fixture, pageId);
+    this.record("browser_navigate", { url });
+    return this.snapshot();
+  }
+
+  goBack(): string {
+    this.position = Math.max(0, this.position - 1);
+    this.record("browser_go_back", {});
+    return this.snapshot();
+  }
+
+  goForward(): string {
+    this.position = Math.min(this.history.length - 1, this.position + 1);
+    this.record("browser_go_forward", {});
+    return this.snapshot();
+  }
+
+  click(element: string, ref: string): string {
+    const target = this.find(ref);
+    if (!target) {
+      return this.fail("browser_click", { element, ref }, `Element ${ref} (${element}) not found on the page`);
+    }
+    this.record("browser_click", { element, ref }, this.label(target));
+    if (target.checked !== undefined) {
+      // Radio-style: one checked element per role on the page
+      for (const el of this.page.elements) {
+        if (el.role === target.role) this.current.checked.delete(el.ref);
+      }
+      this.current.checked.add(target.ref);
+    }
+    this.apply(target.onClick);
+    return this.snapshot();
+  }
+
+  hover(element: string, ref: string): string {
+    const target = this.find(ref);
+    if (!target) {
+      return this.fail("browser_hover", { element, ref }, `Element ${ref} (${element}) not found on the page`);
+    }
+    this.record("browser_hover", { element, ref }, this.label(target));
+    return this.snapshot();
+  }
+
+  type(element: string, ref: string, text: string, submit: boolean): string {
+    const target = this.find(ref);
+    if (!target) {
+      return this.fail("browser_type", { element, ref, text, submit }, `Element ${ref} (${element}) not found on the page`);
+    }
+    this.record("browser_type", { element, ref, text, submit }, this.label(target));
+    this.current.values.set(target.ref, text);
+    this.current.typed = text;
+    this.apply(target.onType);
+    return this.snapshot();
+  }
+
+  selectOption(element: string, ref: string, values: string[]): string {
+    const target = this.find(ref);
+    if (!target) {
+      return this.fail("browser_select_option", { element, ref, values }, `Element ${ref} (${element}) not found on the page`);
+    }
+    this.record("browser_select_option", { element, ref, values }, this.label(target));
+    this.current.values.set(target.ref, values.join(", "));
+    return this.snapshot();
+  }
+
+  record(tool: string, args: Record<string, any>, element?: string, error?: string): void {
+    this.actions.push({ tool, args, page: this.current.pageId, element, error });
+  }
+
+  /**
+   * Aria-style snapshot in the same layout Browser MCP returns
+   */
+  snapshot(): string {
+    const lines = this.page.elements
+      .filter(el => this.current.visible.has(el.ref))
+      .map(el => {
+        const value = this.current.values.get(el.ref) ?? el.value;
+        const checked = this.current.checked.has(el.ref) ? " [checked]" : "";
+        return `- ${el.role} "${this.label(el)}"${value ? `: ${value}` : ""}${checked} [ref=${el.ref}]`;
+      });
+
+    return [
+      `- Page URL: ${this.page.url}`,
+      `- Page Title: ${this.page.title}`,
+      `- Page Snapshot`,
+      "```yaml",
+      ...lines,
+      "```",
+    ].join("\n");
+  }
+
+  private open(fixture: BrowserFixture, pageId: string): void {
+    const page = fixture.pages[pageId];
+    if (!page) {
+      throw new Error(`Fixture ${fixture.name} has no page ${pageId}`);
+    }
+
+    this.history = this.history.slice(0, this.position + 1);
+    this.history.push({
+      fixture,
+      pageId,
+      visible: new Set(page.elements.filter(el => !el.hidden).map(el => el.ref)),
+      checked: new Set(page.elements.filter(el => el.checked).map(el => el.ref)),
+      values: new Map(),
+      typed: "",
+    });
+    this.position = this.history.length - 1;
+  }
+
+  private apply(effect?: FixtureEffect): void {
+    if (!effect) return;
+    for (const ref of effect.hide || []) this.current.visible.delete(ref);
+    for (const ref of effect.show || []) this.current.visible.add(ref);
+    if (effect.goto) {
+      const typed = this.current.typed;
+      this.open(this.current.fixture, effect.goto);
+      this.current.typed = typed;
+    }
+  }
+
+  private find(ref: string): FixtureElement | undefined {
+    return this.page.elements.find(el => el.ref === ref && this.current.visible.has(el.ref));
+  }
+
+  private label(el: FixtureElement): string {
+    return el.name.replace(/\{\{typed\}\}/g, this.current.typed);
+  }
+
+  private fail(tool: string, args: Record<string, any>, error: string): string {
+    this.record(tool, args, undefined, error);
+    throw new Error(error);
+  }
+}
+
+/**
+ * Register the Browser MCP tool set on an MCP server, backed by a MockBrowser
+ */
+export function registerMockBrowserTools(mcp: McpServer, browser: MockBrowser): void {
+  const text = (value: string) => ({ content: [{ type: "text" as const, text: value }] });
+  const run = (fn: () => string) => {
+    try {
+      return text(fn());
+    } catch (error: any) {
+      return { ...text(error?.message || String(error)), isError: true };
+    }
+  };
+  const target = {
+    element: z.string().describe("Human-readable element description used to obtain permission to interact with the element"),
+    ref: z.string().describe("Exact target element reference from the page snapshot"),
+  };
+
+  mcp.registerTool("browser_navigate", {
+    description: "Navigate to a URL",
+    inputSchema: { url: z.string().describe("The URL to navigate to") },
+  }, async ({ url }) => run(() => browser.navigate(url)));
+
+  mcp.registerTool("browser_go_back", {
+    description: "Go back to the previous page",
+    inputSchema: {},
+  }, async () => run(() => browser.goBack()));
+
+  mcp.registerTool("browser_go_forward", {
+    description: "Go forward to the next page",
+    inputSchema: {},
+  }, async () => run(() => browser.goForward()));
+
+  mcp.registerTool("browser_snapshot", {
+    description: "Capture accessibility snapshot of the current page. Use this for getting references to elements to interact with.",
+    inputSchema: {},
+  }, async () => run(() => {
+    browser.record("browser_snapshot", {});
+    return browser.snapshot();
+  }));
+
+  mcp.registerTool("browser_click", {
+    description: "Perform click on a web page",
+    inputSchema: target,
+  }, async ({ element, ref }) => run(() => browser.click(element, ref)));
+
+  mcp.registerTool("browser_hover", {
+    description: "Hover over element on page",
+    inputSchema: target,
+  }, async ({ element, ref }) => run(() => browser.hover(element, ref)));
+
+  mcp.registerTool("browser_type", {
+    description: "Type text into editable element",
+    inputSchema: {
+      ...target,
+      text: z.string().describe("Text to type into the element"),
+      submit: z.boolean().default(false).describe("Whether to submit entered text (press Enter after)"),
+    },
+  }, async ({ element, ref, text: value, submit }) => run(() => browser.type(element, ref, value, submit ?? false)));
+
+  mcp.registerTool("browser_select_option", {
+    description: "Select an option in a dropdown",
+    inputSchema: {
+      ...target,
+      values: z.array(z.string()).describe("Array of values to select in the dropdown"),
+    },
+  }, async ({ element, ref, values }) => run(() => browser.selectOption(element, ref, values)));
+
+  mcp.registerTool("browser_press_key", {
+    description: "Press a key on the keyboard",
+    inputSchema: { key: z.string().describe("Name of the key to press or a character to generate, such as `ArrowLeft` or `a`") },
+  }, async ({ key }) => run(() => {
+    browser.record("browser_press_key", { key });
+    return `Pressed key ${key}`;
+  }));
+
+  mcp.registerTool("browser_wait", {
+    description: "Wait for a specified time in seconds",
+    inputSchema: { time: z.number().describe("The time to wait in seconds") },
+  }, async ({ time }) => run(() => {
+    // Recorded but not slept, so scripted runs stay fast
+    browser.record("browser_wait", { time });
+    return `Waited for ${time} seconds`;
+  }));
+
+  mcp.registerTool("browser_get_console_logs", {
+    description: "Get the console logs from the browser",
+    inputSchema: {},
+  }, async () => run(() => {
+    browser.record("browser_get_console_logs", {});
+    return "";
+  }));
+
+  mcp.resource("actions", "mock://actions", {
+    description: "Every action the mock browser has received, in order",
+    mimeType: "application/json",
+  }, async (uri) => ({
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(browser.actions) }],
+  }));
+}
+
+/**
+ * Load a fixture file
+ */
+export function loadBrowserFixture(path: string): BrowserFixture {
+  return JSON.parse(readFileSync(path, "utf-8")) as BrowserFixture;
+}
+
+if (require.main === module) {
+  const paths = process.argv.slice(2);
+  if (paths.length === 0) {
+    console.error("Usage: tsx src/mock-browser-server.ts <fixture.json> [more fixtures...]");
+    process.exit(1);
+  }
+
+  const mcp = new McpServer({ name: "mock-browser", version: "0.1.0" });
+  registerMockBrowserTools(mcp, new MockBrowser(paths.map(loadBrowserFixture)));
+
+  mcp.connect(new StdioServerTransport()).then(() => {
+    // stdout carries the protocol; log to stderr
+    console.error(`Mock Browser MCP server running with fixtures: ${paths.join(", ")}`);
+  });
+}
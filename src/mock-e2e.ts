@@ -0,0 +1,130 @@
+import { readFileSync } from 'fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { OpenAIAgent } from './openai-agent';
+import { MCPClient } from './mcp-client';
+import { AgentPool } from './agent-pool';
+import { registerAgentTools } from './agent-tools';
+import { taskTemplatesFromEnv } from './task-templates';
+import { ScriptFile, ScriptedProvider } from './scripted-provider';
+import type { MockBrowserAction } from './mock-browser-server';
+
+/**
+ * Offline end-to-end run
+ * Drives the agent with a scripted LLM against the mock Browser MCP server and checks
+ * the click sequence it produced: once through OpenAIAgent.processMessage, and once
+ * through the script's MCP agent tool (e.g. uber_request_ride) called by an MCP client.
+ *
+ * Usage: npm run e2e:mock [-- amazon uber]
+ */
+
+const FIXTURES = ['fixtures/browser/uber.json', 'fixtures/browser/amazon.json'];
+
+/**
+ * A fresh mock browser and an agent driving it with the script
+ */
+function createScriptedAgent(script: ScriptFile): { agent: OpenAIAgent; browser: MCPClient } {
+  const browser = new MCPClient({
+    type: 'stdio',
+    command: 'npx',
+    args: ['tsx', 'src/mock-browser-server.ts', ...FIXTURES],
+  });
+  return { agent: new OpenAIAgent({ provider: new ScriptedProvider(script.steps), mcp: browser }), browser };
+}
+
+/**
+ * Compare the clicks the mock browser saw with the script's expected ones and report
+ */
+async function checkClicks(label: string, script: ScriptFile, browser: MCPClient, result: string, ok = true): Promise<boolean> {
+  const resource = await browser.readResource('mock://actions');
+  const actions = JSON.parse(resource.text) as MockBrowserAction[];
+  const clicks = actions.filter(a => a.tool === 'browser_click' && !a.error).map(a => a.element);
+  const errors = actions.filter(a => a.error);
+  const expected = script.expectedClicks || [];
+
+  ok = ok && errors.length === 0 && JSON.stringify(clicks) === JSON.stringify(expected);
+  console.log(`\n${ok ? '✅' : '❌'} ${label}`);
+  console.log(`   Clicks:   ${JSON.stringify(clicks)}`);
+  if (!ok) {
+    console.log(`   Expected: ${JSON.stringify(expected)}`);
+    for (const action of errors) {
+      console.log(`   Error:    ${action.tool} ${action.error}`);
+    }
+  }
+  console.log(`   Result:   ${result}`);
+  return ok;
+}
+
+async function runScenario(name: string, script: ScriptFile): Promise<boolean> {
+  if (!script.task) {
+    throw new Error(`Script ${name} has no task`);
+  }
+
+  const { agent, browser } = createScriptedAgent(script);
+  try {
+    await agent.initialize();
+    const result = await agent.processMessage(script.task);
+    return await checkClicks(name, script, browser, result);
+  } finally {
+    await agent.cleanup();
+  }
+}
+
+/**
+ * Call the script's agent tool over MCP, the way an MCP client of the server would
+ */
+async function runToolScenario(name: string, script: ScriptFile): Promise<boolean> {
+  const tool = script.tool!;
+  const { agent, browser } = createScriptedAgent(script);
+  const agents = new AgentPool({ size: 1, maxQueue: 1, maxQueuePerTenant: 1, maxWaitMs: 60_000 }, () => agent);
+
+  const server = new McpServer({ name: 'mock-e2e', version: '0.1.0' }, { capabilities: { logging: {} } });
+  registerAgentTools(server, { agents, templates: taskTemplatesFromEnv() });
+  const client = new Client({ name: 'mock-e2e-client', version: '0.1.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+  try {
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    const response = await client.callTool({ name: tool.name, arguments: tool.arguments });
+    const output = response.structuredContent as { status?: string } | undefined;
+    return await checkClicks(`${name} (${tool.name} tool)`, script, browser, JSON.stringify(output), output?.status === 'success');
+  } finally {
+    await client.close();
+    await agents.close();
+  }
+}
+
+async function main() {
+  const scenarios = process.argv.slice(2);
+  let failed = 0;
+
+  for (const name of scenarios.length > 0 ? scenarios : ['amazon', 'uber']) {
+    let script: ScriptFile;
+    try {
+      script = JSON.parse(readFileSync(`fixtures/scripts/${name}.json`, 'utf-8')) as ScriptFile;
+    } catch (error: any) {
+      console.error(`\n❌ ${name}: ${error?.message || error}`);
+      failed++;
+      continue;
+    }
+
+    const runs: Array<[string, () => Promise<boolean>]> = [[name, () => runScenario(name, script)]];
+    if (script.tool) {
+      runs.push([`${name} (${script.tool.name} tool)`, () => runToolScenario(name, script)]);
+    }
+    for (const [label, run] of runs) {
+      try {
+        if (!await run()) failed++;
+      } catch (error: any) {
+        console.error(`\n❌ ${label}: ${error?.message || error}`);
+        failed++;
+      }
+    }
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
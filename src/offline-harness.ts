@@ -0,0 +1,241 @@
+import { spawn, type ChildProcess } from "child_process";
+import axios from "axios";
+import { privateKeyToAccount } from "viem/accounts";
+import { withPaymentInterceptor, createSigner, decodeXPaymentResponse } from "x402-axios";
+import { LocalChain } from "./local-chain.js";
+import { fundAddress, startLocalFacilitator, DEFAULT_FUNDING } from "./local-facilitator.js";
+import { startLocalRelayer, EVVM_NETWORK } from "./local-evvm-relayer.js";
+import { MCPClient } from "./mcp-client.js";
+import { isJobAccepted, waitForJob } from "./jobs.js";
+
+/**
+ * Offline Harness
+ * Boots the local x402 facilitator and EVVM relayer stand-in, then starts the x402
+ * payment server, the EVVM payment server and the MCP server wired to them, with a
+ * scripted LLM and the mock browser. The whole 402 → sign → settle → response loop
+ * runs on localhost with funded test keys.
+ *
+ * Usage:
+ *   npm run offline                      # keep everything running until Ctrl+C
+ *   npm run offline -- --smoke           # run paid calls end to end, then exit
+ *   npm run offline -- --without evvm    # skip a service (payment, evvm, mcp)
+ */
+
+// Well-known anvil development keys - never hold real funds
+const BUYER_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const EVVM_BUYER_KEY = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+const RELAYER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+// Token the EVVM server charges in (see evvm-server.ts)
+const EVVM_TOKEN = "0x2FE943eE9bD346aF46d46BD36c9ccb86201Da21A";
+
+const FACILITATOR_PORT = 4020;
+const RELAYER_PORT = 8545;
+
+interface Service {
+  name: "payment" | "evvm" | "mcp";
+  script: string;
+  healthUrl: string;
+}
+
+const SERVICES: Service[] = [
+  { name: "payment", script: "src/payment-server.ts", healthUrl: "http://localhost:4021/health" },
+  { name: "evvm", script: "src/evvm-server.ts", healthUrl: "http://localhost:4022/health" },
+  { name: "mcp", script: "src/echo-server.ts", healthUrl: "http://localhost:3000/health" },
+];
+
+const children: ChildProcess[] = [];
+
+function startService(service: Service, env: NodeJS.ProcessEnv): ChildProcess {
+  const child = spawn(process.execPath, ["--import", "tsx", service.script], {
+    env: { ...process.env, ...env },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  const prefix = (chunk: Buffer) => chunk.toString().split("\n").filter(Boolean).map(line => `[${service.name}] ${line}`).join("\n");
+  child.stdout?.on("data", chunk => console.log(prefix(chunk)));
+  child.stderr?.on("data", chunk => console.error(prefix(chunk)));
+  child.on("exit", code => {
+    if (code !== null && code !== 0) {
+      console.error(`❌ ${service.name} exited with code ${code}`);
+    }
+  });
+
+  children.push(child);
+  return child;
+}
+
+async function waitForHealth(service: Service, child: ChildProcess, timeoutMs: number = 60000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`${service.name} exited before becoming healthy`);
+    }
+    try {
+      await axios.get(service.healthUrl, { timeout: 1000 });
+      return;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+
+  throw new Error(`${service.name} did not answer ${service.healthUrl} within ${timeoutMs / 1000}s`);
+}
+
+async function shutdown(): Promise<void> {
+  for (const child of children) {
+    if (child.exitCode === null) child.kill("SIGTERM");
+  }
+}
+
+/**
+ * Paid calls through every running service; returns the number of failures
+ */
+async function smoke(running: Set<string>): Promise<number> {
+  let failures = 0;
+  const check = async (label: string, fn: () => Promise<unknown>) => {
+    try {
+      const result = await fn();
+      console.log(`\n✅ ${label}\n${JSON.stringify(result, null, 2)}`);
+    } catch (error: any) {
+      failures++;
+      console.error(`\n❌ ${label}: ${error?.response?.data ? JSON.stringify(error.response.data) : error?.message || error}`);
+    }
+  };
+
+  if (running.has("payment")) {
+    await check("x402 GET /weather (direct)", async () => {
+      const api = withPaymentInterceptor(
+        axios.create({ baseURL: "http://localhost:4021" }),
+        await createSigner("polygon-amoy", BUYER_KEY)
+      );
+      const response = await api.get("/weather?location=Lisbon");
+      return {
+        data: response.data,
+        settlement: decodeXPaymentResponse(response.headers["x-payment-response"]),
+      };
+    });
+
+    await check("x402 POST /request-uber (direct, scripted agent)", async () => {
+      const api = withPaymentInterceptor(
+        axios.create({ baseURL: "http://localhost:4021" }),
+        await createSigner("polygon-amoy", BUYER_KEY)
+      );
+      // Answered with 202 once paid; the agent runs as a job
+      const response = await api.post("/request-uber", { destination: "Obelisco" });
+      if (response.status !== 202 || !isJobAccepted(response.data)) {
+        throw new Error(`Expected 202 with a job ID, got ${response.status}`);
+      }
+      const job = await waitForJob("http://localhost:4021", response.data, {
+        onStep: step => console.log(`   [job] ${step.message}`),
+      });
+      if (job.status !== "succeeded") {
+        throw new Error(`Job ${job.id} failed: ${JSON.stringify(job.error)}`);
+      }
+      return {
+        data: job.result,
+        steps: job.steps.length,
+        settlement: decodeXPaymentResponse(response.headers["x-payment-response"]),
+      };
+    });
+  }
+
+  if (running.has("mcp")) {
+    const client = new MCPClient({ type: "http", url: "http://localhost:3000/mcp" });
+    await client.connect();
+    try {
+      // One tool per capability; the MCP server picks the rail (PAYMENT_STRATEGY)
+      const merchants = running.has("payment") || running.has("evvm");
+      const tools = [
+        merchants && { name: "get_weather", args: { location: "Lisbon" } },
+        merchants && { name: "request_uber", args: { destination: "Obelisco" } },
+      ].filter(Boolean) as Array<{ name: string; args: Record<string, any> }>;
+
+      for (const tool of tools) {
+        await check(`MCP ${tool.name}`, async () => {
+          const result = await client.callTool(tool.name, tool.args);
+          const text = result?.content?.[0]?.text;
+          const parsed = text ? JSON.parse(text) : result;
+          if (parsed?.status === "error") {
+            throw new Error(parsed.data?.error || text);
+          }
+          return parsed;
+        });
+      }
+    } finally {
+      await client.disconnect();
+    }
+  }
+
+  return failures;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const without = new Set(args.flatMap((arg, i) => (arg === "--without" ? args[i + 1].split(",") : [])));
+  const services = SERVICES.filter(service => !without.has(service.name));
+
+  // Shared in-memory chain for x402 settlement and EVVM relaying
+  const chain = new LocalChain();
+  const facilitator = await startLocalFacilitator(chain, FACILITATOR_PORT);
+  const relayer = await startLocalRelayer(chain, RELAYER_PORT);
+
+  const buyer = privateKeyToAccount(BUYER_KEY).address;
+  const evvmBuyer = privateKeyToAccount(EVVM_BUYER_KEY).address;
+  fundAddress(chain, buyer);
+  chain.mint(EVVM_NETWORK, EVVM_TOKEN, evvmBuyer, DEFAULT_FUNDING);
+
+  console.log(`\n🏦 Local facilitator: ${facilitator.url}`);
+  console.log(`⛓️  Local EVVM relayer: ${relayer.url}`);
+  console.log(`👛 x402 buyer ${buyer} and EVVM buyer ${evvmBuyer} funded with ${DEFAULT_FUNDING} units`);
+
+  const env: NodeJS.ProcessEnv = {
+    FACILITATOR_URL: facilitator.url,
+    RPC_URL: relayer.url,
+    RELAYER_PRIVATE_KEY: RELAYER_KEY,
+    POLYGON_PRIVATE_KEY: BUYER_KEY,
+    EVVM_PRIVATE_KEY: EVVM_BUYER_KEY,
+    PAYMENT_SERVER_URL: "http://localhost:4021",
+    EVVM_SERVER_URL: "http://localhost:4022",
+    PAYMENT_LEDGER_FILE: process.env.PAYMENT_LEDGER_FILE || "./data/offline-payments.jsonl",
+    // Agent flows run against the mock browser with a scripted LLM
+    LLM_PROVIDER: "scripted",
+    LLM_SCRIPT_FILE: process.env.LLM_SCRIPT_FILE || "fixtures/scripts/uber.json",
+    MCP_SERVERS_FILE: "mcp-servers.mock.json",
+  };
+
+  process.on("SIGINT", async () => {
+    await shutdown();
+    await Promise.all([facilitator.close(), relayer.close()]);
+    process.exit(0);
+  });
+
+  let exitCode = 0;
+  try {
+    for (const service of services) {
+      console.log(`\n▶️  Starting ${service.name} (${service.script})`);
+      const child = startService(service, env);
+      await waitForHealth(service, child);
+      console.log(`✅ ${service.name} is up (${service.healthUrl})`);
+    }
+
+    if (!args.includes("--smoke")) {
+      console.log(`\n🟢 Offline stack running - Ctrl+C to stop`);
+      return;
+    }
+
+    const failures = await smoke(new Set(services.map(service => service.name)));
+    console.log(`\n💰 Balances after smoke run:\n${JSON.stringify(chain.listBalances(), null, 2)}`);
+    exitCode = failures > 0 ? 1 : 0;
+  } catch (error: any) {
+    console.error(`\n❌ ${error?.message || error}`);
+    exitCode = 1;
+  }
+
+  await shutdown();
+  await Promise.all([facilitator.close(), relayer.close()]);
+  process.exit(exitCode);
+}
+
+main();
@@ -1,62 +1,480 @@
-import OpenAI from 'openai';
-import { MCPClient, MCPTool } from './mcp-client';
+import { MCPClient, MCPConnection, MCPTool } from './mcp-client';
+import { ApprovalConfig, ApprovalHandler, DEFAULT_RISK_RULES, classifyToolCall } from './approval';
+import { LLMMessage, LLMProvider, LLMResponseFormat, toolDefinitionsFromMCP } from './llm-provider';
+import { OpenAIProvider } from './openai-provider';
+import { AgentOutcome, AgentResult, ResultSchema, envelopeJsonSchema, parseAgentAnswer, resultInstructions } from './agent-result';
+import { AgentEventBody, AgentEventListener, AgentEventStream, previewOf, runEvents } from './agent-events';
+import { ContextManager, ContextPolicy } from './context-manager';
+import { PriceTable, RunUsage, UsageMeter, priceTableFromEnv } from './agent-usage';
+import { RunRecorder, RunRecording, RunRecordingStore, SnapshotElement, bindStep, describeRecordedStep, findAnchor, parseSnapshot } from './run-recordings';
 
 export interface AgentConfig {
-  apiKey: string;
+  /** OpenAI API key, used when no provider is given */
+  apiKey?: string;
   model?: string;
   temperature?: number;
+  /** LLM backend for the tool loop; defaults to OpenAI with apiKey */
+  provider?: LLMProvider;
+  /** MCP server(s) to take tools from; defaults to the Browser MCP server */
+  mcp?: MCPConnection;
+  approval?: ApprovalConfig;
+  /** Saved runs for runTask's `recording` option (see run-recordings.ts) */
+  recordings?: RunRecordingStore;
+  /** Model prices for usage cost estimates (default: built-in table plus LLM_PRICES_FILE) */
+  prices?: PriceTable;
+  /** How much of the conversation is sent per LLM call, and the token budget per run */
+  context?: ContextPolicy;
 }
 
+/**
+ * One step of the tool loop, reported as it happens
+ */
+export interface AgentStep {
+  /** LLM turn the step belongs to (1-based) */
+  turn: number;
+  maxTurns: number;
+  type: 'tool_call' | 'final';
+  tool?: string;
+  args?: Record<string, any>;
+  /** What the model said it was doing, or the final answer */
+  message?: string;
+  error?: string;
+  /** Replayed from a recording: turn and maxTurns count recorded steps, not LLM turns */
+  replayed?: boolean;
+}
+
+export interface ProcessOptions {
+  /** Overrides the configured approval handler for this run (e.g. to ask via MCP elicitation) */
+  approvalHandler?: ApprovalHandler;
+  /** Called after every tool call and with the final answer (e.g. job progress) */
+  onStep?: (step: AgentStep) => void;
+  /** Called once the run is over with its tokens, steps and estimated cost */
+  onUsage?: (usage: RunUsage) => void;
+  /** Called with every event of the run, in order (see agent-events.ts) */
+  onEvent?: AgentEventListener;
+  /**
+   * Cancels the run: the LLM request or tool call in flight is aborted (the MCP server
+   * is sent notifications/cancelled) and nothing else is called
+   */
+  signal?: AbortSignal;
+}
+
+export interface TaskOptions<T> extends ProcessOptions {
+  /** Shape of the result's `data` on success */
+  result: ResultSchema<T>;
+  /** Re-prompts after a final answer that doesn't validate, before giving up (default 2) */
+  maxRepairs?: number;
+  /**
+   * Replay the run saved under `key` if there is one, and save successful runs under it.
+   * `params` values are stored as {{name}} placeholders, so one recording serves every
+   * destination or product. Needs AgentConfig.recordings.
+   */
+  recording?: { key: string; params?: Record<string, string> };
+}
+
+/**
+ * How a tool-loop run ended
+ */
+type LoopEnd =
+  | { type: 'final'; content: string }
+  | { type: 'approval'; status: 'denied' | 'awaiting_approval'; summary: string; data: Record<string, any> }
+  | { type: 'max_turns'; maxTurns: number }
+  | { type: 'budget'; used: number; budget: number };
+
+/**
+ * What one runLoop call works with: result validation, the recorder, the usage meter and
+ * the event emitter of the run it belongs to (a replay makes several runLoop calls for one run)
+ */
+interface LoopRun {
+  validation?: { schema: ResultSchema; maxRepairs: number };
+  recorder?: RunRecorder;
+  usage: UsageMeter;
+  emit: (event: AgentEventBody) => void;
+}
+
+type ApprovalEnd = Extract<LoopEnd, { type: 'approval' }>;
+
+/**
+ * A tool call that ran (or failed), or the approval that stopped it
+ */
+type ToolOutcome = { type: 'result'; result: any; error?: string } | ApprovalEnd;
+
+// Answer shape for a single step handed back to the model during a replay
+const STEP_RESULT = { type: 'object' };
+
+/**
+ * Why a signal was aborted, for summaries and logs
+ */
+function abortReason(signal: AbortSignal): string {
+  const reason = signal.reason;
+  return reason instanceof Error ? reason.message : String(reason ?? 'aborted');
+}
+
+/**
+ * Wait for a promise unless the signal aborts first
+ */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      return onAbort();
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Outcome of a processMessage run: its free-form answer's status when it has one
+ */
+function outcomeOf(end: LoopEnd): AgentOutcome {
+  switch (end.type) {
+    case 'final': {
+      const answer = parseAgentAnswer(end.content, STEP_RESULT);
+      return answer.ok ? answer.result.status : 'success';
+    }
+    case 'approval':
+      return end.status === 'denied' ? 'failed' : 'needs_human';
+    default:
+      return 'incomplete';
+  }
+}
+
+const FREE_FORM_OUTPUT = `CRITICAL INSTRUCTION FOR FINAL OUTPUT:
+          When the task is completed, your final response MUST be a valid JSON object containing all the relevant information you extracted or achieved. 
+          Do not wrap it in markdown code blocks like \`\`\`json ... \`\`\`. Just return the raw JSON string.
+          
+          Example format:
+          {
+            "status": "success",
+            "summary": "Task completed successfully",
+            "data": {
+              "extracted_field_1": "value",
+              "extracted_field_2": "value"
+            }
+          }`;
+
 export class OpenAIAgent {
-  private openai: OpenAI;
-  private mcpClient: MCPClient;
+  private provider: LLMProvider;
+  private mcpClient: MCPConnection;
   private model: string;
+  private temperature?: number;
   private availableTools: MCPTool[] = [];
+  private approval?: ApprovalConfig;
+  private recordings?: RunRecordingStore;
+  private prices: PriceTable;
+  private context: ContextManager;
+  /** Elements of the latest snapshot a tool returned in this run; risk rules read labels from it */
+  private page: SnapshotElement[] | null = null;
 
   constructor(config: AgentConfig) {
-    this.openai = new OpenAI({
-      apiKey: config.apiKey,
-    });
-    this.model = config.model || 'gpt-5-nano';
-    this.mcpClient = new MCPClient();
+    if (!config.provider && !config.apiKey) {
+      throw new Error('AgentConfig needs either a provider or an OpenAI apiKey');
+    }
+
+    this.provider = config.provider || new OpenAIProvider({ apiKey: config.apiKey! });
+    this.model = config.model || this.provider.defaultModel;
+    this.temperature = config.temperature;
+    this.mcpClient = config.mcp || new MCPClient();
+    this.approval = config.approval;
+    this.recordings = config.recordings;
+    this.prices = config.prices || priceTableFromEnv();
+    this.context = new ContextManager(config.context);
   }
 
   /**
    * Initialize the agent and connect to MCP server
    */
   async initialize(): Promise<void> {
-    console.log('Initializing OpenAI Agent...');
+    console.log(`Initializing agent (${this.provider.name}, ${this.model})...`);
     await this.mcpClient.connect();
     this.availableTools = await this.mcpClient.listTools();
     console.log(`Agent initialized with ${this.availableTools.length} available tools`);
   }
 
   /**
-   * Convert MCP tools to OpenAI function format
+   * Authorization section of the system prompt, depending on whether approvals are enabled
    */
-  private convertToOpenAIFunctions(): OpenAI.ChatCompletionTool[] {
-    return this.availableTools.map(tool => ({
-      type: 'function' as const,
-      function: {
-        name: tool.name,
-        description: tool.description || `Execute ${tool.name} operation`,
-        parameters: tool.inputSchema || {
-          type: 'object',
-          properties: {},
-        },
-      },
-    }));
+  private authorizationPrompt(): string {
+    if (this.approval?.enabled) {
+      return `USER AUTHORIZATION:
+          Irreversible actions (placing orders, requesting rides, submitting payments) require human approval.
+          The system pauses automatically before those clicks and asks a human; do not ask the user yourself.
+          If the user's request implies completing a purchase, proceed to the final button as usual.`;
+    }
+
+    return `USER AUTHORIZATION:
+          The user has explicitly authorized you to perform ALL actions, including financial transactions, clicking 'Buy Now', 'Place Order', or 'Submit Payment'. 
+          DO NOT STOP to ask for confirmation before the final step. 
+          If the user's request implies completing a purchase (e.g., "buy this", "submit the form"), YOU MUST CLICK THE FINAL BUTTON to complete the task.`;
   }
 
   /**
    * Process a user message and execute browser automation tasks
    */
-  async processMessage(userMessage: string): Promise<string> {
+  async processMessage(userMessage: string, options: ProcessOptions = {}): Promise<string> {
+    const usage = new UsageMeter(this.prices, this.model);
+    const emit = runEvents(options.onEvent);
+    this.page = null;
+    emit({ type: 'run_started', task: userMessage, provider: this.provider.name, model: this.model });
+
+    let end: LoopEnd;
+    try {
+      end = await this.runLoop(userMessage, options, { usage, emit });
+    } catch (error: any) {
+      const finished = usage.finish();
+      options.onUsage?.(finished);
+      if (options.signal?.aborted) {
+        console.log(`  ⏹️  Run cancelled: ${abortReason(options.signal)}`);
+        emit({ type: 'run_finished', status: 'incomplete', summary: `Cancelled: ${abortReason(options.signal)}`, usage: finished });
+      } else {
+        emit({ type: 'error', message: error?.message || String(error) });
+        emit({ type: 'run_finished', status: 'failed', usage: finished });
+      }
+      throw error;
+    }
+
+    const finished = usage.finish();
+    options.onUsage?.(finished);
+    emit({ type: 'run_finished', status: outcomeOf(end), usage: finished });
+
+    switch (end.type) {
+      case 'final':
+        return end.content || 'Task completed';
+      case 'approval':
+        return JSON.stringify({ status: end.status, summary: end.summary, data: end.data });
+      case 'max_turns':
+        return "Maximum conversation steps reached. The task may be incomplete.";
+      case 'budget':
+        return `Token budget of ${end.budget} reached after ${end.used} tokens. The task may be incomplete.`;
+    }
+  }
+
+  /**
+   * Run a task whose final answer must match a result schema. Invalid answers are sent
+   * back to the model with the validation errors, up to maxRepairs times.
+   */
+  async runTask<T>(task: string, options: TaskOptions<T>): Promise<AgentResult<T>> {
+    const { result: schema, maxRepairs = 2, recording } = options;
+    const store = recording && this.recordings;
+    const saved = store ? store.get(recording.key) : undefined;
+    const recorder = store ? new RunRecorder() : undefined;
+    const usage = new UsageMeter(this.prices, this.model);
+    const validation = { schema, maxRepairs };
+    const emit = runEvents(options.onEvent);
+    this.page = null;
+    emit({ type: 'run_started', task, provider: this.provider.name, model: this.model, ...(saved ? { replay: saved.key } : {}) });
+
+    let end: LoopEnd;
+    try {
+      end = saved
+        ? await this.replay(saved, task, options, { validation, recorder: recorder!, usage, emit })
+        : await this.runLoop(task, options, { validation, recorder, usage, emit });
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        // Stopped from outside: not finished, and not the task's fault
+        const reason = abortReason(options.signal);
+        console.log(`  ⏹️  Run cancelled: ${reason}`);
+        const cancelled: AgentResult<T> = { status: 'incomplete', summary: `The run was cancelled: ${reason}`, usage: usage.finish() };
+        options.onUsage?.(cancelled.usage!);
+        emit({ type: 'run_finished', status: cancelled.status, summary: cancelled.summary, usage: cancelled.usage! });
+        return cancelled;
+      }
+      const message = error?.message || String(error);
+      const failed: AgentResult<T> = { status: 'failed', summary: `The agent run failed: ${message}`, error: message, usage: usage.finish() };
+      options.onUsage?.(failed.usage!);
+      emit({ type: 'error', message });
+      emit({ type: 'run_finished', status: failed.status, summary: failed.summary, usage: failed.usage! });
+      return failed;
+    }
+
+    const result: AgentResult<T> = { ...this.toAgentResult(end, schema, maxRepairs), usage: usage.finish() };
+    options.onUsage?.(result.usage!);
+    emit({ type: 'run_finished', status: result.status, summary: result.summary, usage: result.usage! });
+
+    if (store && recorder) {
+      if (result.status === 'success') {
+        // Re-saved after replays too, so steps the model redid replace the stale ones
+        store.save({ ...recorder.toRecording(recording!.key, recording!.params), replays: saved ? saved.replays + 1 : 0 });
+        console.log(`  💾 Saved run recording ${recording!.key} (${recorder.steps.length} steps)`);
+      } else if (saved && result.status === 'failed') {
+        // Start from a fresh LLM run next time
+        store.delete(recording!.key);
+        console.log(`  🗑️  Dropped run recording ${recording!.key} after a failed replay`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * runTask with its events as an async iterator:
+   *
+   *   const run = agent.streamTask(task, { result: schema });
+   *   for await (const event of run.events) console.log(event.type);
+   *   const result = await run.result;
+   */
+  streamTask<T>(task: string, options: TaskOptions<T>): { events: AgentEventStream; result: Promise<AgentResult<T>> } {
+    const events = new AgentEventStream();
+    const result = this.runTask(task, {
+      ...options,
+      onEvent: event => {
+        options.onEvent?.(event);
+        events.push(event);
+      },
+    });
+    result.then(() => events.close(), error => events.close(error));
+    return { events, result };
+  }
+
+  /**
+   * Map how a tool loop ended to a typed result
+   */
+  private toAgentResult<T>(end: LoopEnd, schema: ResultSchema<T>, maxRepairs: number): AgentResult<T> {
+    switch (end.type) {
+      case 'approval':
+        // A human said no: the task failed. No decision yet: a human still has to act.
+        return end.status === 'denied'
+          ? { status: 'failed', summary: end.summary, error: end.summary, data: end.data }
+          : { status: 'needs_human', summary: end.summary, data: end.data };
+      case 'max_turns':
+        return { status: 'incomplete', summary: `Stopped after ${end.maxTurns} turns before the task was finished` };
+      case 'budget':
+        return { status: 'incomplete', summary: `Stopped at the run's token budget (${end.used} of ${end.budget} tokens used) before the task was finished` };
+      case 'final': {
+        const parsed = parseAgentAnswer(end.content, schema);
+        if (parsed.ok) {
+          return parsed.result;
+        }
+        return {
+          status: 'failed',
+          summary: `The agent's final answer did not match the result schema after ${maxRepairs} repair attempt(s)`,
+          error: parsed.error,
+          raw: end.content,
+        };
+      }
+    }
+  }
+
+  /**
+   * Replay a recorded run against MCP without the model. A step whose element is no
+   * longer on the page (or whose call throws) is handed to the model on its own; the
+   * model also reads the result off the final page.
+   */
+  private async replay(
+    recording: RunRecording,
+    task: string,
+    options: TaskOptions<any>,
+    run: Required<LoopRun>
+  ): Promise<LoopEnd> {
+    const { recorder, usage, emit } = run;
+    const params = options.recording?.params || {};
+    const total = recording.steps.length;
+    console.log(`\n⏯️  Replaying run recording ${recording.key} (${total} steps)`);
+
+    let snapshot: SnapshotElement[] | null = null;
+    for (const [index, recorded] of recording.steps.entries()) {
+      options.signal?.throwIfAborted();
+      const step = bindStep(recorded, params);
+      let problem: string | undefined;
+      let args = step.args;
+
+      if (step.anchor) {
+        // Fresh snapshot when there is none, or the element may have appeared since
+        let element = snapshot ? findAnchor(snapshot, step.anchor) : undefined;
+        if (!element) {
+          snapshot = await this.replaySnapshot(recorder, options.signal);
+          element = snapshot ? findAnchor(snapshot, step.anchor) : undefined;
+        }
+        if (element) {
+          args = { ...args, ref: element.ref };
+        } else {
+          problem = `${step.anchor.role} "${step.anchor.name}" is not on the current page`;
+        }
+      }
+
+      if (!problem) {
+        console.log(`  ⏵ Step ${index + 1}/${total}: ${describeRecordedStep(step)}`);
+        emit({ type: 'tool_call', turn: index + 1, tool: step.tool, args, replayed: true });
+        const startedAt = Date.now();
+        const outcome = await this.executeTool(step.tool, args, options, task);
+        if (outcome.type === 'approval') {
+          return outcome;
+        }
+        usage.toolCall(true);
+        emit({
+          type: 'tool_result',
+          turn: index + 1,
+          tool: step.tool,
+          durationMs: Date.now() - startedAt,
+          preview: previewOf(outcome.result),
+          ...(outcome.error ? { error: outcome.error } : {}),
+          replayed: true,
+        });
+        if (!outcome.error) {
+          recorder.observe(step.tool, args, outcome.result);
+          options.onStep?.({ turn: index + 1, maxTurns: total, type: 'tool_call', tool: step.tool, args, replayed: true });
+          snapshot = parseSnapshot(outcome.result);
+          continue;
+        }
+        problem = outcome.error;
+      }
+
+      // Only this step goes back to the model
+      console.log(`  ↪ Step ${index + 1}/${total} no longer matches (${problem}); asking the model`);
+      emit({ type: 'retry', turn: index + 1, reason: `Recorded step ${index + 1} no longer matches (${problem}); asking the model`, attempt: 1, maxAttempts: 1 });
+      const end = await this.runLoop(
+        `You are resuming a recorded run of this task:\n${task}\n\n` +
+        `The recorded steps before this one were carried out. The next recorded step was: ${describeRecordedStep(step)}, ` +
+        `but it could not be replayed: ${problem}.\n` +
+        `Do only this step (or its equivalent on the current page), starting with browser_snapshot. Do not do any later steps. ` +
+        `Then answer with status "success" and empty data, or another status if the step cannot be done.`,
+        options,
+        { ...run, validation: { schema: STEP_RESULT, maxRepairs: run.validation.maxRepairs } }
+      );
+      if (end.type !== 'final') {
+        return end;
+      }
+      const answer = parseAgentAnswer(end.content, STEP_RESULT);
+      if (!answer.ok || answer.result.status !== 'success') {
+        return end;
+      }
+      snapshot = null;
+    }
+
+    // The recording has no answer: the model reads it off the final page
+    const page = this.availableTools.some(t => t.name === 'browser_snapshot')
+      ? await this.mcpClient.callTool('browser_snapshot', {}, { signal: options.signal })
+      : undefined;
+    return this.runLoop(
+      `${task}\n\nEvery step of this task has just been carried out by replaying a recorded run; do not repeat them. ` +
+      `Check the result on the current page and report it.` +
+      (typeof page === 'string' ? `\n\nCurrent page:\n${page}` : ''),
+      options,
+      run
+    );
+  }
+
+  /**
+   * The tool loop shared by processMessage and runTask
+   */
+  private async runLoop(
+    userMessage: string,
+    options: ProcessOptions,
+    run: LoopRun
+  ): Promise<LoopEnd> {
+    const { validation, recorder, usage, emit } = run;
     try {
       console.log('Processing message:', userMessage);
 
+      // Refresh tools: pooled servers may have reconnected or dropped since the last run
+      this.availableTools = await this.mcpClient.listTools();
+
       // Prepare the conversation with system context
-      const messages: OpenAI.ChatCompletionMessageParam[] = [
+      const messages: LLMMessage[] = [
         {
           role: 'system',
           content: `You are an AI assistant with access to browser automation tools via MCP.
@@ -71,24 +489,9 @@ export class OpenAIAgent {
           5. Be precise with your interactions. If a user specifies a button color or label, verify it in the snapshot.
           6. Report the results clearly.
 
-          USER AUTHORIZATION:
-          The user has explicitly authorized you to perform ALL actions, including financial transactions, clicking 'Buy Now', 'Place Order', or 'Submit Payment'. 
-          DO NOT STOP to ask for confirmation before the final step. 
-          If the user's request implies completing a purchase (e.g., "buy this", "submit the form"), YOU MUST CLICK THE FINAL BUTTON to complete the task.
+          ${this.authorizationPrompt()}
 
-          CRITICAL INSTRUCTION FOR FINAL OUTPUT:
-          When the task is completed, your final response MUST be a valid JSON object containing all the relevant information you extracted or achieved. 
-          Do not wrap it in markdown code blocks like \`\`\`json ... \`\`\`. Just return the raw JSON string.
-          
-          Example format:
-          {
-            "status": "success",
-            "summary": "Task completed successfully",
-            "data": {
-              "extracted_field_1": "value",
-              "extracted_field_2": "value"
-            }
-          }
+          ${validation ? resultInstructions(validation.schema) : FREE_FORM_OUTPUT}
           
           Always explain what you're doing before executing browser actions.`,
         },
@@ -98,68 +501,221 @@ export class OpenAIAgent {
         },
       ];
 
-      let maxSteps = 20; // Safety limit for the conversation loop
+      const maxTurns = 20; // Safety limit for the conversation loop
+      let maxSteps = maxTurns;
+      let repairs = 0;
+
+      const responseFormat: LLMResponseFormat | undefined = validation
+        ? { type: 'json_schema', name: 'agent_result', schema: envelopeJsonSchema(validation.schema) }
+        : undefined;
 
       while (maxSteps > 0) {
-        // Get OpenAI's response with function calling
-        const response = await this.openai.chat.completions.create({
+        options.signal?.throwIfAborted();
+
+        // Stale snapshots, repeated and oversized tool outputs are compacted in what is sent
+        const context = this.context.prepare(messages);
+        const budget = this.context.maxRunTokens;
+        if (budget !== undefined && usage.tokens + context.stats.estimatedTokens > budget) {
+          console.log(`  🛑 Token budget reached (${usage.tokens} of ${budget} used, next call ~${context.stats.estimatedTokens})`);
+          return { type: 'budget', used: usage.tokens, budget };
+        }
+
+        // Get the model's response with function calling
+        const turn = maxTurns - maxSteps + 1;
+        const requestedAt = Date.now();
+        const response = await this.provider.complete({
           model: this.model,
-          messages,
-          tools: this.convertToOpenAIFunctions(),
-          tool_choice: 'auto',
+          messages: context.messages,
+          tools: toolDefinitionsFromMCP(this.availableTools),
+          temperature: this.temperature,
+          responseFormat,
+          signal: options.signal,
         });
 
-        const assistantMessage = response.choices[0].message;
+        usage.llmCall(response);
+
+        const assistantMessage = response.message;
         messages.push(assistantMessage);
+        emit({
+          type: 'model_response',
+          turn,
+          maxTurns,
+          model: response.model || this.model,
+          ...(assistantMessage.content ? { content: assistantMessage.content } : {}),
+          toolCalls: (assistantMessage.toolCalls || []).map(call => call.name),
+          promptTokens: response.usage?.promptTokens,
+          completionTokens: response.usage?.completionTokens,
+          durationMs: Date.now() - requestedAt,
+        });
 
         // Check if the assistant wants to call tools
-        if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-          console.log(`\n🤖 AI Requesting ${assistantMessage.tool_calls.length} tool(s)...`);
+        if (assistantMessage.toolCalls && assistantMessage.toolCalls.length > 0) {
+          console.log(`\n🤖 AI Requesting ${assistantMessage.toolCalls.length} tool(s)...`);
           
-          for (const toolCall of assistantMessage.tool_calls) {
-            console.log(`  > Executing tool: ${toolCall.function.name}`);
+          for (const toolCall of assistantMessage.toolCalls) {
+            console.log(`  > Executing tool: ${toolCall.name}`);
 
             let result: any;
+            let args: Record<string, any> = {};
+            let error: string | undefined;
             try {
               // Parse the arguments
-              const args = JSON.parse(toolCall.function.arguments);
-
-              // Call the MCP tool
-              result = await this.mcpClient.callTool(
-                toolCall.function.name,
-                args
-              );
-              
-              console.log(`  ✓ Tool executed`);
-            } catch (error: any) {
-              console.error(`  ✗ Error executing ${toolCall.function.name}:`, error);
-              result = `Error executing ${toolCall.function.name}: ${error?.message || String(error)}`;
+              args = JSON.parse(toolCall.arguments);
+            } catch (err: any) {
+              console.error(`  ✗ Error executing ${toolCall.name}:`, err);
+              error = err?.message || String(err);
             }
 
+            emit({ type: 'tool_call', turn, tool: toolCall.name, args });
+            const startedAt = Date.now();
+            if (error) {
+              result = `Error executing ${toolCall.name}: ${error}`;
+            } else {
+              const outcome = await this.executeTool(toolCall.name, args, options, userMessage);
+              if (outcome.type === 'approval') {
+                return outcome;
+              }
+              ({ result, error } = outcome);
+              usage.toolCall();
+              recorder?.observe(toolCall.name, args, result, error);
+            }
+            emit({
+              type: 'tool_result',
+              turn,
+              tool: toolCall.name,
+              durationMs: Date.now() - startedAt,
+              preview: previewOf(result),
+              ...(error ? { error } : {}),
+            });
+
+            options.onStep?.({
+              turn,
+              maxTurns,
+              type: 'tool_call',
+              tool: toolCall.name,
+              args,
+              message: assistantMessage.content || undefined,
+              error,
+            });
+
             // Add the tool result to the conversation history
             messages.push({
               role: 'tool',
+              toolCallId: toolCall.id,
+              name: toolCall.name,
               content: typeof result === 'string' ? result : JSON.stringify(result),
-              tool_call_id: toolCall.id,
             });
           }
           
           // Continue the loop to let the AI process the tool results
           maxSteps--;
         } else {
+          const content = assistantMessage.content || '';
+
+          // Send an answer that doesn't match the result schema back with what is wrong
+          const check = validation && parseAgentAnswer(content, validation.schema);
+          if (check && !check.ok && repairs < validation!.maxRepairs) {
+            repairs++;
+            console.log(`  ↺ Final answer rejected (${check.error}); asking for a corrected one (${repairs}/${validation!.maxRepairs})`);
+            emit({ type: 'retry', turn, reason: `Final answer rejected: ${check.error}`, attempt: repairs, maxAttempts: validation!.maxRepairs });
+            messages.push({
+              role: 'user',
+              content: `Your final answer was rejected: ${check.error}. Reply with only the corrected JSON object.`,
+            });
+            continue;
+          }
+
           // No more tools to call, return the final response
-          return assistantMessage.content || 'Task completed';
+          options.onStep?.({ turn, maxTurns, type: 'final', message: content || undefined });
+          emit({ type: 'final_answer', turn, content });
+          return { type: 'final', content };
         }
       }
 
-      return "Maximum conversation steps reached. The task may be incomplete.";
+      return { type: 'max_turns', maxTurns };
 
     } catch (error) {
-      console.error('Error processing message:', error);
+      if (!options.signal?.aborted) {
+        console.error('Error processing message:', error);
+      }
       throw error;
     }
   }
 
+  /**
+   * Snapshot taken by a replay, shown to the recorder so re-saved steps keep their anchors
+   */
+  private async replaySnapshot(recorder: RunRecorder, signal?: AbortSignal): Promise<SnapshotElement[] | null> {
+    const page = await this.mcpClient.callTool('browser_snapshot', {}, { signal });
+    recorder.observe('browser_snapshot', {}, page);
+    const elements = parseSnapshot(page);
+    this.page = elements || this.page;
+    return elements;
+  }
+
+  /**
+   * Call one MCP tool, pausing for a human first when the call matches a risk rule
+   */
+  private async executeTool(
+    toolName: string,
+    args: Record<string, any>,
+    options: ProcessOptions,
+    task: string
+  ): Promise<ToolOutcome> {
+    try {
+      // Pause risky calls until a human approves them
+      const risk = this.approval?.enabled
+        ? classifyToolCall(this.approval.rules || DEFAULT_RISK_RULES, toolName, args, this.page)
+        : null;
+
+      if (risk) {
+        const handler = options.approvalHandler || this.approval!.handler;
+        const { approvalId, decision } = await untilAborted(handler({
+          toolName,
+          args,
+          reason: risk.reason || `${toolName} requires approval`,
+          task,
+        }), options.signal);
+
+        if (!decision || !decision.approved) {
+          console.log(`  ✋ ${toolName} ${decision ? 'denied' : 'not approved in time'}`);
+          return {
+            type: 'approval',
+            status: decision ? 'denied' : 'awaiting_approval',
+            summary: decision
+              ? `A human denied ${toolName}${decision.note ? `: ${decision.note}` : ''}`
+              : `Stopped before ${toolName}: no approval decision was made in time`,
+            data: {
+              approvalId,
+              tool: toolName,
+              args,
+              reason: risk.reason,
+              decidedBy: decision?.decidedBy,
+            },
+          };
+        }
+
+        console.log(`  👍 ${toolName} approved by ${decision.decidedBy || 'human'}`);
+      }
+
+      // Call the MCP tool
+      options.signal?.throwIfAborted();
+      const result = await this.mcpClient.callTool(toolName, args, { signal: options.signal });
+      console.log(`  ✓ Tool executed`);
+      // Refs in later calls point into the latest snapshot
+      this.page = parseSnapshot(result) || this.page;
+      return { type: 'result', result };
+    } catch (err: any) {
+      if (options.signal?.aborted) {
+        // Cancelled: end the run instead of telling the model the tool failed
+        throw err;
+      }
+      console.error(`  ✗ Error executing ${toolName}:`, err);
+      const error = err?.message || String(err);
+      return { type: 'result', result: `Error executing ${toolName}: ${error}`, error };
+    }
+  }
+
   /**
    * Execute a specific browser automation task
    */
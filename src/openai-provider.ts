@@ -0,0 +1,112 @@
+import OpenAI from 'openai';
+import { LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMResponseFormat } from './llm-provider';
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  /** Point at any OpenAI-compatible server (llama.cpp, Ollama, vLLM) */
+  baseURL?: string;
+  name?: string;
+  defaultModel?: string;
+  /** Send LLMRequest.responseFormat as response_format (default true) */
+  structuredOutputs?: boolean;
+}
+
+/**
+ * OpenAI chat completions (and OpenAI-compatible servers)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private openai: OpenAI;
+  private structuredOutputs: boolean;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.openai = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+    });
+    this.name = config.name || 'openai';
+    this.defaultModel = config.defaultModel || 'gpt-5-nano';
+    this.structuredOutputs = config.structuredOutputs ?? true;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      tools: request.tools.length > 0
+        ? request.tools.map(tool => ({
+            type: 'function' as const,
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters,
+            },
+          }))
+        : undefined,
+      tool_choice: request.tools.length > 0 ? 'auto' : undefined,
+      temperature: request.temperature,
+      response_format: this.structuredOutputs ? toResponseFormat(request.responseFormat) : undefined,
+    }, { signal: request.signal });
+
+    const choice = response.choices[0];
+    const message = choice.message;
+
+    return {
+      message: {
+        role: 'assistant',
+        content: message.content,
+        toolCalls: message.tool_calls?.map(call => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+      },
+      model: response.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: choice.finish_reason,
+    };
+  }
+}
+
+function toResponseFormat(format?: LLMResponseFormat): OpenAI.ChatCompletionCreateParams['response_format'] {
+  if (!format) {
+    return undefined;
+  }
+  if (format.type === 'json') {
+    return { type: 'json_object' };
+  }
+  // Not strict: strict mode needs every property required and no open objects
+  return { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: false } };
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls && message.toolCalls.length > 0
+          ? message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: call.arguments },
+            }))
+          : undefined,
+      };
+    case 'tool':
+      return {
+        role: 'tool',
+        content: message.content,
+        tool_call_id: message.toolCallId,
+      };
+    default:
+      return message;
+  }
+}
@@ -0,0 +1,466 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { dirname } from "path";
+import { createHash, randomUUID } from "crypto";
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import type { PaymentRail } from "./payment-selector.js";
+
+/**
+ * Payment Ledger
+ * Append-only JSONL log of every paid call made by the MCP server: the 402
+ * challenge, the signed payment, the settlement header, any refund from the merchant
+ * and the final outcome. Each line is one event; events of the same call share a `paymentId`.
+ */
+
+export type PaymentOutcome = "pending" | "success" | "error" | "policy_denied" | "refunded";
+
+/**
+ * A refund the merchant sent (or failed to send) for work that failed after payment
+ */
+export interface PaymentRefund {
+  status: "refunded" | "failed";
+  transaction?: string;
+  error?: string;
+}
+
+export type LedgerEvent =
+  | { type: "challenge"; accepts: any[] }
+  | { type: "signed"; network?: string; scheme?: string; payer?: string; payTo?: string; amount?: string; asset?: string }
+  | { type: "settlement"; settlement: Record<string, any> }
+  | { type: "refund"; refund: PaymentRefund }
+  | { type: "outcome"; outcome: PaymentOutcome; error?: string };
+
+export type LedgerEntry = LedgerEvent & {
+  paymentId: string;
+  timestamp: string;
+  tool: string;
+  argsHash: string;
+  host: string;
+  url?: string;
+  /** Spending policy agent the call was paid for */
+  agentId?: string;
+};
+
+/**
+ * A paid call folded together from its ledger events
+ */
+export interface PaymentRecord {
+  paymentId: string;
+  tool: string;
+  argsHash: string;
+  host: string;
+  url?: string;
+  agentId?: string;
+  startedAt: string;
+  network?: string;
+  scheme?: string;
+  asset?: string;
+  amount?: string;
+  payTo?: string;
+  payer?: string;
+  transactionHash?: string;
+  settlement?: Record<string, any>;
+  refund?: PaymentRefund;
+  challenge?: any[];
+  outcome: PaymentOutcome;
+  error?: string;
+}
+
+export interface PaymentFilter {
+  /** ISO date or timestamp, inclusive */
+  from?: string;
+  /** ISO date or timestamp, exclusive */
+  to?: string;
+  network?: string;
+  tool?: string;
+  host?: string;
+  outcome?: PaymentOutcome;
+}
+
+export type SpendGroupBy = "network" | "asset" | "tool" | "host" | "day";
+
+export interface SpendSummaryRow {
+  key: string;
+  payments: number;
+  /** Sum of atomic units; only meaningful within a single asset */
+  total: string;
+  assets: Record<string, string>;
+}
+
+export interface SpendSummary {
+  groupBy: SpendGroupBy;
+  payments: number;
+  failed: number;
+  denied: number;
+  rows: SpendSummaryRow[];
+}
+
+export class PaymentLedger {
+  private path: string;
+  private agentId?: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string, options: { agentId?: string } = {}) {
+    this.path = path;
+    this.agentId = options.agentId;
+  }
+
+  /**
+   * Start tracking one paid call
+   */
+  begin(tool: string, args: Record<string, any>, url: string): PaymentTrace {
+    return new PaymentTrace(this, {
+      paymentId: randomUUID(),
+      tool,
+      argsHash: hashArgs(args),
+      host: hostOf(url),
+      url,
+      agentId: this.agentId,
+    });
+  }
+
+  /**
+   * Append an entry (writes are serialized so lines never interleave)
+   */
+  append(entry: LedgerEntry): Promise<void> {
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, JSON.stringify(entry) + "\n", "utf-8");
+      })
+      .catch(error => {
+        console.error("Failed to write payment ledger entry:", error);
+      });
+    return this.writes;
+  }
+
+  /**
+   * Read all raw ledger entries
+   */
+  async readEntries(): Promise<LedgerEntry[]> {
+    await this.writes;
+
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return [];
+      throw error;
+    }
+
+    return raw
+      .split("\n")
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as LedgerEntry);
+  }
+
+  /**
+   * List paid calls, newest first
+   */
+  async listPayments(filter: PaymentFilter = {}, limit: number = 50): Promise<PaymentRecord[]> {
+    const records = foldEntries(await this.readEntries()).filter(record => matches(record, filter));
+    records.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    return records.slice(0, limit);
+  }
+
+  /**
+   * Paid calls since `from` that count as spent: successful or settled ones, and ones
+   * left pending (e.g. by a restart mid-call) whose outcome is unknown
+   */
+  async listSpends(from: string): Promise<PaymentRecord[]> {
+    return foldEntries(await this.readEntries())
+      .filter(record => matches(record, { from }))
+      .filter(record => record.amount && record.asset && record.network)
+      .filter(record => record.outcome === "success" || record.outcome === "pending" || (record.outcome === "error" && record.settlement));
+  }
+
+  /**
+   * Summarize successful spend grouped by network, asset, tool, host or day
+   */
+  async getSpendSummary(filter: PaymentFilter = {}, groupBy: SpendGroupBy = "network"): Promise<SpendSummary> {
+    const records = foldEntries(await this.readEntries()).filter(record => matches(record, filter));
+    const rows = new Map<string, { payments: number; total: bigint; assets: Map<string, bigint> }>();
+
+    for (const record of records) {
+      if (record.outcome !== "success" || !record.amount) continue;
+
+      const key = groupKey(record, groupBy);
+      const row = rows.get(key) || { payments: 0, total: 0n, assets: new Map<string, bigint>() };
+      const amount = BigInt(record.amount);
+      const asset = record.asset || "unknown";
+
+      row.payments++;
+      row.total += amount;
+      row.assets.set(asset, (row.assets.get(asset) || 0n) + amount);
+      rows.set(key, row);
+    }
+
+    return {
+      groupBy,
+      payments: records.filter(r => r.outcome === "success").length,
+      failed: records.filter(r => r.outcome === "error").length,
+      denied: records.filter(r => r.outcome === "policy_denied").length,
+      rows: [...rows.entries()].map(([key, row]) => ({
+        key,
+        payments: row.payments,
+        total: row.total.toString(),
+        assets: Object.fromEntries([...row.assets.entries()].map(([asset, total]) => [asset, total.toString()])),
+      })),
+    };
+  }
+}
+
+interface TraceContext {
+  paymentId: string;
+  tool: string;
+  argsHash: string;
+  host: string;
+  url?: string;
+  agentId?: string;
+}
+
+/**
+ * Records the events of a single paid call
+ */
+export class PaymentTrace {
+  readonly paymentId: string;
+  private ledger: PaymentLedger;
+  private base: TraceContext;
+  private signed: Extract<LedgerEvent, { type: "signed" }> | null = null;
+  private settlement: Record<string, any> | null = null;
+  private refunded: PaymentRefund | null = null;
+  private rail: PaymentRail | null = null;
+
+  constructor(ledger: PaymentLedger, base: TraceContext) {
+    this.ledger = ledger;
+    this.base = base;
+    this.paymentId = base.paymentId;
+  }
+
+  challenge(accepts: any[]): void {
+    this.record({ type: "challenge", accepts });
+  }
+
+  sign(paymentHeader: string, accepts: any[] = []): void {
+    const payment = decodeBase64Json(paymentHeader) || {};
+    const authorization = payment.payload?.authorization || payment.payload || {};
+    const requirement = accepts.find(a => a.network === payment.network) || accepts[0] || {};
+
+    this.signed = {
+      type: "signed",
+      network: payment.network || requirement.network,
+      scheme: payment.scheme || requirement.scheme,
+      payer: authorization.from,
+      payTo: authorization.to || requirement.payTo,
+      amount: authorization.value?.toString() || authorization.amount?.toString() || requirement.maxAmountRequired,
+      asset: requirement.asset,
+    };
+    this.record(this.signed);
+  }
+
+  /**
+   * Remember which rail was chosen, for `paymentInfo.rail`
+   */
+  useRail(rail: PaymentRail): void {
+    this.rail = rail;
+  }
+
+  settle(settlement: Record<string, any>): void {
+    this.settlement = settlement;
+    this.record({ type: "settlement", settlement });
+  }
+
+  /**
+   * Record the merchant's refund; a successful one also ends the call as "refunded"
+   */
+  refund(refund: PaymentRefund, error?: any): void {
+    this.refunded = refund;
+    this.record({ type: "refund", refund });
+    if (refund.status === "refunded") {
+      this.fail(error, "refunded");
+    }
+  }
+
+  succeed(): void {
+    this.record({ type: "outcome", outcome: "success" });
+  }
+
+  fail(error: any, outcome: "error" | "policy_denied" | "refunded" = "error"): void {
+    this.record({ type: "outcome", outcome, error: error?.message || String(error) });
+  }
+
+  /**
+   * Payment details for a tool result, read from the signed payment and settlement
+   */
+  paymentInfo(): Record<string, any> {
+    if (!this.signed) {
+      return this.rail ? { paid: false, rail: this.rail } : { paid: false };
+    }
+
+    return {
+      paid: true,
+      paymentId: this.paymentId,
+      network: this.signed.network,
+      transactionHash: this.settlement?.transaction || this.settlement?.transactionHash,
+      from: this.settlement?.payer || this.settlement?.from || this.signed.payer,
+      to: this.settlement?.to || this.signed.payTo,
+      amount: this.settlement?.amount?.toString() || this.signed.amount,
+      asset: this.signed.asset,
+      ...(this.rail ? { rail: this.rail } : {}),
+      ...(this.refunded ? { refund: this.refunded } : {}),
+    };
+  }
+
+  private record(event: LedgerEvent): void {
+    this.ledger.append({ ...this.base, ...event, timestamp: new Date().toISOString() } as LedgerEntry);
+  }
+}
+
+type LedgerRequestConfig = InternalAxiosRequestConfig & { __ledgerAccepts?: any[] };
+
+/**
+ * Record the 402 challenge, signed payment and settlement of requests made
+ * through an axios instance. Must be applied BEFORE the spending policy and the
+ * payment interceptor so the challenge is recorded exactly as the merchant sent it.
+ */
+export function withPaymentLedger<T extends AxiosInstance>(
+  client: T,
+  trace: PaymentTrace,
+  decodeSettlement: (header: string) => Record<string, any> | null | undefined
+): T {
+  client.interceptors.request.use((config: LedgerRequestConfig) => {
+    const paymentHeader = config.headers?.["X-PAYMENT"];
+    if (paymentHeader) {
+      trace.sign(String(paymentHeader), config.__ledgerAccepts);
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      const header = response.headers["x-payment-response"];
+      if (header) {
+        try {
+          const settlement = decodeSettlement(header);
+          if (settlement) {
+            trace.settle(settlement);
+          }
+        } catch (error) {
+          console.error("Failed to decode payment response header:", error);
+        }
+      }
+      return response;
+    },
+    async (error) => {
+      const config = error.config as (LedgerRequestConfig & { __is402Retry?: boolean }) | undefined;
+      if (error.response?.status === 402 && config && !config.__is402Retry) {
+        const accepts = error.response.data?.accepts || [];
+        trace.challenge(accepts);
+        config.__ledgerAccepts = accepts;
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+}
+
+function foldEntries(entries: LedgerEntry[]): PaymentRecord[] {
+  const records = new Map<string, PaymentRecord>();
+
+  for (const entry of entries) {
+    let record = records.get(entry.paymentId);
+    if (!record) {
+      record = {
+        paymentId: entry.paymentId,
+        tool: entry.tool,
+        argsHash: entry.argsHash,
+        host: entry.host,
+        url: entry.url,
+        agentId: entry.agentId,
+        startedAt: entry.timestamp,
+        outcome: "pending",
+      };
+      records.set(entry.paymentId, record);
+    }
+
+    switch (entry.type) {
+      case "challenge":
+        record.challenge = entry.accepts;
+        break;
+      case "signed":
+        record.network = entry.network;
+        record.scheme = entry.scheme;
+        record.asset = entry.asset;
+        record.amount = entry.amount;
+        record.payTo = entry.payTo;
+        record.payer = entry.payer;
+        break;
+      case "settlement":
+        record.settlement = entry.settlement;
+        record.transactionHash = entry.settlement.transaction || entry.settlement.transactionHash;
+        record.network = record.network || entry.settlement.network;
+        break;
+      case "refund":
+        record.refund = entry.refund;
+        break;
+      case "outcome":
+        record.outcome = entry.outcome;
+        record.error = entry.error;
+        break;
+    }
+  }
+
+  return [...records.values()];
+}
+
+function matches(record: PaymentRecord, filter: PaymentFilter): boolean {
+  const started = Date.parse(record.startedAt);
+  if (filter.from && started < Date.parse(filter.from)) return false;
+  if (filter.to && started >= Date.parse(filter.to)) return false;
+  if (filter.network && record.network !== filter.network) return false;
+  if (filter.tool && record.tool !== filter.tool) return false;
+  if (filter.host && record.host !== filter.host) return false;
+  if (filter.outcome && record.outcome !== filter.outcome) return false;
+  return true;
+}
+
+function groupKey(record: PaymentRecord, groupBy: SpendGroupBy): string {
+  switch (groupBy) {
+    case "day":
+      return record.startedAt.slice(0, 10);
+    case "asset":
+      return record.asset || "unknown";
+    default:
+      return record[groupBy] || "unknown";
+  }
+}
+
+/**
+ * Stable SHA-256 of tool arguments (keys sorted) so calls can be correlated without storing inputs
+ */
+export function hashArgs(args: Record<string, any>): string {
+  const stable = (value: any): any => {
+    if (Array.isArray(value)) return value.map(stable);
+    if (value && typeof value === "object") {
+      return Object.keys(value).sort().reduce((acc, key) => ({ ...acc, [key]: stable(value[key]) }), {});
+    }
+    return value;
+  };
+  return createHash("sha256").update(JSON.stringify(stable(args))).digest("hex");
+}
+
+function decodeBase64Json(value: string): any {
+  try {
+    return JSON.parse(Buffer.from(value, "base64").toString("utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,67 @@
+import type { AxiosInstance } from "axios";
+import { SupportedEVMNetworks } from "x402/types";
+import type { PaymentChallenge } from "./spending-policy.js";
+
+/**
+ * Payment Schemes
+ * Merchants may advertise several payment rails in one 402 `accepts` list:
+ * Polygon/Base x402 USDC ("exact" scheme) and EVVM signature payments.
+ * Each client interceptor only understands one of them, so the list is
+ * narrowed to the rail the caller is about to pay with.
+ */
+
+export type PaymentScheme = "x402" | "evvm";
+
+export const PAYMENT_SCHEMES: PaymentScheme[] = ["x402", "evvm"];
+
+/**
+ * Which rail a 402 requirement (or a decoded payment header) belongs to
+ */
+export function schemeOf(requirement: { scheme?: string; network?: string }): PaymentScheme {
+  return requirement.scheme === "exact" && (SupportedEVMNetworks as readonly string[]).includes(requirement.network || "")
+    ? "x402"
+    : "evvm";
+}
+
+/**
+ * Parse a comma-separated scheme list (e.g. MERCHANT_SCHEMES=x402,evvm)
+ */
+export function parsePaymentSchemes(value: string): PaymentScheme[] {
+  const schemes = value.split(",").map(s => s.trim()).filter(Boolean);
+  for (const scheme of schemes) {
+    if (!PAYMENT_SCHEMES.includes(scheme as PaymentScheme)) {
+      throw new Error(`Unknown payment scheme "${scheme}" (expected ${PAYMENT_SCHEMES.join(" or ")})`);
+    }
+  }
+  return schemes as PaymentScheme[];
+}
+
+/**
+ * Drop 402 `accepts` entries of other rails (and other networks or assets, when given)
+ * before the payment interceptor sees them, so the rail a selector chose is the one paid.
+ * Register before the spending policy and the x402 / EVVM payment interceptor.
+ */
+export function withPaymentScheme<T extends AxiosInstance>(client: T, scheme: PaymentScheme, network?: string, asset?: string): T {
+  client.interceptors.response.use(
+    response => response,
+    async (error) => {
+      if (!error.response || error.response.status !== 402 || error.config?.__is402Retry) {
+        return Promise.reject(error);
+      }
+
+      const offered: PaymentChallenge[] = error.response.data?.accepts || [];
+      const accepts = offered.filter(a => schemeOf(a) === scheme
+        && (!network || a.network === network)
+        && (!asset || String(a.asset).toLowerCase() === asset.toLowerCase()));
+      if (offered.length > 0 && accepts.length === 0) {
+        const rails = [...new Set(offered.map(a => `${schemeOf(a)} on ${a.network}`))].join(", ");
+        return Promise.reject(new Error(`Merchant does not accept ${scheme} payments${network ? ` on ${network}` : ""}${asset ? ` in ${asset}` : ""} (offered: ${rails})`));
+      }
+
+      error.response.data = { ...error.response.data, accepts };
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+}
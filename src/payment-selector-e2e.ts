@@ -0,0 +1,147 @@
+import assert from 'assert';
+import axios from 'axios';
+import { PaymentChallenge, PolicyDeniedError, PolicyEngine, SpendingPolicy, withSpendingPolicy } from './spending-policy';
+import { NoPayableRailError, PaymentOption, RailSelector, RailSelectorOptions } from './payment-selector';
+import { withPaymentScheme } from './payment-schemes';
+import { startFake402Server } from './fake-402-server';
+import { runChecks } from './e2e-checks';
+
+/**
+ * Payment rail selection checks: strategies, unpayable rails, the spending policy, and
+ * the client pinned to the chosen rail.
+ *
+ * Usage: npx tsx src/payment-selector-e2e.ts
+ */
+
+const MERCHANT = 'http://localhost:4021/request-uber';
+const AMOY_USDC = '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582';
+const BASE_SEPOLIA_USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const EVVM_TOKEN = '0x0000000000000000000000000000000000000001';
+
+function x402(network: string, amount: string, asset = network === 'base-sepolia' ? BASE_SEPOLIA_USDC : AMOY_USDC): PaymentOption {
+  return {
+    resource: MERCHANT,
+    requirement: {
+      scheme: 'exact',
+      network,
+      maxAmountRequired: amount,
+      asset,
+      payTo: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      description: 'Selector e2e',
+      mimeType: 'application/json',
+      maxTimeoutSeconds: 60,
+    },
+  };
+}
+
+function evvm(price: string): PaymentOption {
+  return {
+    resource: MERCHANT,
+    requirement: { scheme: 'evvm', network: 'sepolia', maxAmountRequired: price, asset: EVVM_TOKEN, payTo: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e' },
+  };
+}
+
+function selectorFor(options: Partial<RailSelectorOptions> = {}, policy?: SpendingPolicy): RailSelector {
+  const engine = policy ? new PolicyEngine({ agents: { default: policy } }) : null;
+  return new RailSelector({
+    strategy: 'cheapest',
+    unsupportedReason: () => null,
+    policyDenial: engine ? option => engine.evaluate('default', option.resource || '', option.requirement) : undefined,
+    ...options,
+  });
+}
+
+runChecks('Payment rail selection', [
+  ['cheapest picks the lowest price in the same asset', async () => {
+    const { option, rail } = await selectorFor().select([x402('polygon-amoy', '2000'), x402('polygon-amoy', '1000')]);
+    assert.strictEqual(option.requirement.maxAmountRequired, '1000');
+    assert.deepStrictEqual(rail.alternatives.map(a => a.reason), ['ranked lower by cheapest']);
+  }],
+
+  ['cheapest compares different assets only with asset prices', async () => {
+    const offers = [x402('polygon-amoy', '1000000'), evvm('2')];
+    const unpriced = await selectorFor({ preferredNetworks: ['sepolia'] }).select(offers);
+    assert.strictEqual(unpriced.rail.scheme, 'evvm');
+    assert.match(unpriced.rail.alternatives[0].reason, /prices are in different assets/);
+
+    const priced = await selectorFor({
+      preferredNetworks: ['sepolia'],
+      assetPrices: { [`polygon-amoy:${AMOY_USDC.toLowerCase()}`]: 1, [`sepolia:${EVVM_TOKEN}`]: 0.75 },
+    }).select(offers);
+    assert.strictEqual(priced.rail.scheme, 'x402');
+  }],
+
+  ['fastest picks the quickest settlement, preferred-network the first listed network', async () => {
+    const offers = [evvm('1'), x402('polygon-amoy', '5000'), x402('base-sepolia', '5000')];
+    assert.strictEqual((await selectorFor({ strategy: 'fastest' }).select(offers)).rail.network, 'base-sepolia');
+
+    const preferred = await selectorFor({ strategy: 'preferred-network', preferredNetworks: ['sepolia', 'polygon-amoy'] }).select(offers);
+    assert.strictEqual(preferred.rail.scheme, 'evvm');
+    assert.deepStrictEqual(preferred.rail.alternatives.map(a => a.network), ['polygon-amoy', 'base-sepolia']);
+  }],
+
+  ['rails without a wallet or with too little balance are passed over', async () => {
+    const selector = selectorFor({
+      unsupportedReason: (_requirement, scheme) => (scheme === 'evvm' ? 'no EVVM wallet configured' : null),
+      balanceOf: async requirement => (requirement.network === 'polygon-amoy' ? 500n : null),
+    });
+    const { rail } = await selector.select([evvm('1'), x402('polygon-amoy', '1000'), x402('base-sepolia', '3000')]);
+    assert.strictEqual(rail.network, 'base-sepolia');
+    assert.deepStrictEqual(rail.alternatives.map(a => a.reason), ['no EVVM wallet configured', 'insufficient balance (500 < 1000)']);
+
+    await assert.rejects(selector.select([evvm('1'), x402('polygon-amoy', '1000')]), NoPayableRailError);
+    await assert.rejects(selector.select([]), /did not offer any payment option/);
+  }],
+
+  ['an unreadable balance does not rule a rail out', async () => {
+    const { rail } = await selectorFor({ balanceOf: async () => { throw new Error('RPC down'); } })
+      .select([x402('polygon-amoy', '1000')]);
+    assert.strictEqual(rail.network, 'polygon-amoy');
+  }],
+
+  ['a rail the policy denies is passed over for an allowed one', async () => {
+    const { option, rail } = await selectorFor({}, { networks: { 'base-sepolia': {} } })
+      .select([x402('polygon-amoy', '1000'), x402('base-sepolia', '2000')]);
+    assert.strictEqual(option.requirement.network, 'base-sepolia');
+    assert.match(rail.alternatives[0].reason, /denied by spending policy \(network_not_allowed\)/);
+  }],
+
+  ['a rail over a policy cap is passed over', async () => {
+    const { option } = await selectorFor({}, { networks: { 'polygon-amoy': { maxPerRequest: '500' }, 'base-sepolia': {} } })
+      .select([x402('polygon-amoy', '1000'), x402('base-sepolia', '2000')]);
+    assert.strictEqual(option.requirement.network, 'base-sepolia');
+  }],
+
+  ['the call is policy_denied only when the policy denies every payable rail', async () => {
+    await assert.rejects(
+      selectorFor({}, { maxPerRequest: '500' }).select([x402('polygon-amoy', '1000'), x402('base-sepolia', '2000')]),
+      (error: any) => error instanceof PolicyDeniedError && error.denial.rule === 'max_per_request'
+    );
+  }],
+
+  ['the paid client is pinned to the chosen asset, not the policy\'s first pick', async () => {
+    const other = '0x0000000000000000000000000000000000000abc';
+    const accepts = [x402('polygon-amoy', '1000', other).requirement, x402('polygon-amoy', '1000').requirement];
+    const server = await startFake402Server(accepts);
+    const engine = new PolicyEngine({ agents: { default: {} } });
+
+    // What the payment interceptor would be asked to sign
+    const offeredToSigner = async (asset?: string) => {
+      const api = withSpendingPolicy(withPaymentScheme(axios.create({ baseURL: server.url }), 'x402', 'polygon-amoy', asset), engine, 'default');
+      let signed: PaymentChallenge[] = [];
+      api.interceptors.response.use(undefined, error => {
+        signed = error.response?.data?.accepts || [];
+        return Promise.reject(error);
+      });
+      await api.get('/paid').catch(() => undefined);
+      return signed.map(a => a.asset);
+    };
+
+    try {
+      assert.deepStrictEqual(await offeredToSigner(), [other]);
+      assert.deepStrictEqual(await offeredToSigner(AMOY_USDC), [AMOY_USDC]);
+    } finally {
+      await server.close();
+    }
+  }],
+]);
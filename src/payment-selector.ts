@@ -0,0 +1,255 @@
+import { PaymentChallenge, PolicyDenial, PolicyDeniedError } from "./spending-policy.js";
+import { PaymentScheme, schemeOf } from "./payment-schemes.js";
+
+/**
+ * Payment Selector
+ * When merchants accept several rails for the same call, pick the one to pay with:
+ * drop rails this server has no wallet for or can't afford, then rank the rest by
+ * strategy - cheapest price, preferred network order or fastest settlement. Rails the
+ * spending policy would deny are dropped too, so an allowed rail is never passed over.
+ *
+ * Prices in different assets (e.g. x402 USDC and an EVVM token) are only compared when
+ * every asset has a configured price; otherwise "cheapest" can't rank them and falls
+ * back to network preference and settlement time.
+ */
+
+export type SelectionStrategy = "cheapest" | "preferred-network" | "fastest";
+
+export const SELECTION_STRATEGIES: SelectionStrategy[] = ["cheapest", "preferred-network", "fastest"];
+
+export interface PaymentOption {
+  requirement: PaymentChallenge;
+  /** URL the payment is for (the merchant route), for the spending policy's host allowlist */
+  resource?: string;
+}
+
+export interface RailSelectorOptions {
+  strategy: SelectionStrategy;
+  /** Network names in order of preference (used by "preferred-network" and as a tie-breaker) */
+  preferredNetworks?: string[];
+  /**
+   * Value of one whole token of each asset in a common unit, keyed by `network:asset`
+   * (asset address lowercased), so "cheapest" can compare rails paid in different assets
+   */
+  assetPrices?: Record<string, number>;
+  /** Why the wallet can't pay this requirement, or null when it can */
+  unsupportedReason: (requirement: PaymentChallenge, scheme: PaymentScheme) => string | null;
+  /** Why the spending policy would deny paying this option, or null when it allows it */
+  policyDenial?: (option: PaymentOption) => PolicyDenial | null;
+  /** Available balance in the requirement's atomic units, or null when unknown */
+  balanceOf?: (requirement: PaymentChallenge, scheme: PaymentScheme) => Promise<bigint | null>;
+}
+
+/**
+ * The rail a payment went out on, as reported in `paymentInfo.rail`
+ */
+export interface PaymentRail {
+  scheme: PaymentScheme;
+  network: string;
+  asset: string;
+  amount: string;
+  strategy: SelectionStrategy;
+  /** Other rails that were offered, with why they were not used */
+  alternatives: Array<{ scheme: PaymentScheme; network: string; amount: string; reason: string }>;
+}
+
+export interface RailSelection<T extends PaymentOption> {
+  option: T;
+  rail: PaymentRail;
+}
+
+// Typical seconds from signed payment to settled transaction
+const SETTLEMENT_SECONDS: Record<string, number> = {
+  "x402:base": 2,
+  "x402:base-sepolia": 2,
+  "x402:polygon": 3,
+  "x402:polygon-amoy": 3,
+  "evvm:sepolia": 15,
+};
+
+export class NoPayableRailError extends Error {
+  constructor(readonly alternatives: PaymentRail["alternatives"]) {
+    super(alternatives.length > 0
+      ? `No payment rail this wallet can use: ${alternatives.map(a => `${a.scheme} on ${a.network} (${a.reason})`).join("; ")}`
+      : "Merchant did not offer any payment option");
+    this.name = "NoPayableRailError";
+  }
+}
+
+/**
+ * Strategy, preferred networks and asset prices from PAYMENT_STRATEGY /
+ * PAYMENT_PREFERRED_NETWORKS / PAYMENT_ASSET_PRICES (`network:asset=price,...`)
+ */
+export function selectionConfigFromEnv(): Pick<RailSelectorOptions, "strategy" | "preferredNetworks" | "assetPrices"> {
+  const strategy = (process.env.PAYMENT_STRATEGY || "cheapest") as SelectionStrategy;
+  if (!SELECTION_STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown PAYMENT_STRATEGY "${strategy}" (expected ${SELECTION_STRATEGIES.join(", ")})`);
+  }
+
+  return {
+    strategy,
+    preferredNetworks: (process.env.PAYMENT_PREFERRED_NETWORKS || "").split(",").map(n => n.trim()).filter(Boolean),
+    assetPrices: parseAssetPrices(process.env.PAYMENT_ASSET_PRICES || ""),
+  };
+}
+
+function parseAssetPrices(value: string): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const entry of value.split(",").map(e => e.trim()).filter(Boolean)) {
+    const [key, price] = entry.split("=");
+    const [network, asset] = (key || "").split(":");
+    if (!network || !asset || !(Number(price) > 0)) {
+      throw new Error(`Invalid PAYMENT_ASSET_PRICES entry "${entry}" (expected network:asset=price)`);
+    }
+    prices[assetKey(network.trim(), asset.trim())] = Number(price);
+  }
+  return prices;
+}
+
+function assetKey(network: string, asset: string): string {
+  return `${network}:${String(asset).toLowerCase()}`;
+}
+
+function amountOf(requirement: PaymentChallenge): string {
+  return String(requirement.maxAmountRequired ?? requirement.amount ?? requirement.price ?? "0");
+}
+
+/**
+ * Price in whole tokens of the requirement's own asset. x402 amounts are atomic USDC
+ * units (6 decimals); EVVM prices are whole token units unless the requirement says otherwise.
+ */
+export function paymentValue(requirement: PaymentChallenge): number {
+  const decimals = Number(requirement.extra?.decimals ?? (schemeOf(requirement) === "x402" ? 6 : 0));
+  return Number(amountOf(requirement)) / 10 ** decimals;
+}
+
+export function settlementSeconds(requirement: PaymentChallenge): number {
+  const scheme = schemeOf(requirement);
+  return SETTLEMENT_SECONDS[`${scheme}:${requirement.network}`] ?? (scheme === "x402" ? 5 : 20);
+}
+
+export class RailSelector {
+  private options: RailSelectorOptions;
+
+  constructor(options: RailSelectorOptions) {
+    this.options = options;
+  }
+
+  get strategy(): SelectionStrategy {
+    return this.options.strategy;
+  }
+
+  /**
+   * Choose the option to pay with; throws PolicyDeniedError when the spending policy
+   * denied every rail the wallet could pay, NoPayableRailError when none is payable
+   */
+  async select<T extends PaymentOption>(offers: T[]): Promise<RailSelection<T>> {
+    const alternatives: PaymentRail["alternatives"] = [];
+    const payable: T[] = [];
+    let firstDenial: PolicyDenial | null = null;
+
+    for (const offer of offers) {
+      const { requirement } = offer;
+      const scheme = schemeOf(requirement);
+      const summary = { scheme, network: requirement.network, amount: amountOf(requirement) };
+
+      const unsupported = this.options.unsupportedReason(requirement, scheme);
+      if (unsupported) {
+        alternatives.push({ ...summary, reason: unsupported });
+        continue;
+      }
+
+      const denial = this.options.policyDenial?.(offer) ?? null;
+      if (denial) {
+        alternatives.push({ ...summary, reason: `denied by spending policy (${denial.rule}): ${denial.message}` });
+        firstDenial = firstDenial || denial;
+        continue;
+      }
+
+      const balance = await this.balanceOf(requirement, scheme);
+      if (balance !== null && /^\d+$/.test(summary.amount) && balance < BigInt(summary.amount)) {
+        alternatives.push({ ...summary, reason: `insufficient balance (${balance} < ${summary.amount})` });
+        continue;
+      }
+
+      payable.push(offer);
+    }
+
+    if (payable.length === 0) {
+      throw firstDenial ? new PolicyDeniedError(firstDenial) : new NoPayableRailError(alternatives);
+    }
+
+    const byPrice = this.pricesComparable(payable.map(offer => offer.requirement));
+    const [chosen, ...rest] = [...payable].sort((a, b) => this.compare(a.requirement, b.requirement, byPrice));
+    for (const offer of rest) {
+      alternatives.push({
+        scheme: schemeOf(offer.requirement),
+        network: offer.requirement.network,
+        amount: amountOf(offer.requirement),
+        reason: this.options.strategy === "cheapest" && !byPrice
+          ? "ranked lower by preferred network and settlement time (prices are in different assets without PAYMENT_ASSET_PRICES)"
+          : `ranked lower by ${this.options.strategy}`,
+      });
+    }
+
+    return {
+      option: chosen,
+      rail: {
+        scheme: schemeOf(chosen.requirement),
+        network: chosen.requirement.network,
+        asset: chosen.requirement.asset,
+        amount: amountOf(chosen.requirement),
+        strategy: this.options.strategy,
+        alternatives,
+      },
+    };
+  }
+
+  private async balanceOf(requirement: PaymentChallenge, scheme: PaymentScheme): Promise<bigint | null> {
+    if (!this.options.balanceOf) {
+      return null;
+    }
+    try {
+      return await this.options.balanceOf(requirement, scheme);
+    } catch (error: any) {
+      // An unreadable balance doesn't rule the rail out; the payment itself will tell
+      console.warn(`⚠️  Could not read ${scheme} balance on ${requirement.network}: ${error?.message || error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Prices can be ranked when every requirement is in the same asset, or every asset has a price
+   */
+  private pricesComparable(requirements: PaymentChallenge[]): boolean {
+    const keys = new Set(requirements.map(r => assetKey(r.network, r.asset)));
+    return keys.size <= 1 || [...keys].every(key => this.options.assetPrices?.[key] !== undefined);
+  }
+
+  /**
+   * Price in the common unit of `assetPrices`, or in whole tokens when the asset has no price
+   */
+  private priceOf(requirement: PaymentChallenge): number {
+    return paymentValue(requirement) * (this.options.assetPrices?.[assetKey(requirement.network, requirement.asset)] ?? 1);
+  }
+
+  private compare(a: PaymentChallenge, b: PaymentChallenge, byPrice: boolean): number {
+    const cheapest = byPrice ? this.priceOf(a) - this.priceOf(b) : 0;
+    const fastest = settlementSeconds(a) - settlementSeconds(b);
+    const preferred = this.networkRank(a.network) - this.networkRank(b.network);
+
+    switch (this.options.strategy) {
+      case "cheapest":
+        return cheapest || preferred || fastest;
+      case "fastest":
+        return fastest || cheapest || preferred;
+      case "preferred-network":
+        return preferred || cheapest || fastest;
+    }
+  }
+
+  private networkRank(network: string): number {
+    const index = (this.options.preferredNetworks || []).indexOf(network);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  }
+}
@@ -0,0 +1,93 @@
+import axios from "axios";
+import { withPaymentInterceptor, createSigner, type Hex } from "x402-axios";
+import { generatePrivateKey } from "viem/accounts";
+import { PolicyEngine, PolicyDeniedError, loadSpendingPolicy, withSpendingPolicy } from "./spending-policy.js";
+import { startFake402Server } from "./fake-402-server.js";
+
+/**
+ * Dry-run a spending policy against a local fake 402 server.
+ *
+ * Usage:
+ *   npm run policy:check -- <policy-file> [--agent default] [--amount 1000]
+ *     [--network polygon-amoy] [--asset 0x41E9...] [--requests 3] [--port 4021]
+ *
+ * Payments are signed with a throwaway key and never settled.
+ */
+
+// USDC on Polygon Amoy
+const DEFAULT_ASSET = "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582";
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      options[argv[i].slice(2)] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { options, positional };
+}
+
+async function runPolicyCheck() {
+  const { options, positional } = parseArgs(process.argv.slice(2));
+  const policyFile = positional[0] || process.env.SPENDING_POLICY_FILE;
+
+  if (!policyFile) {
+    console.error("Usage: npm run policy:check -- <policy-file> [--agent id] [--amount n] [--network name] [--asset address] [--requests n] [--port n]");
+    process.exit(1);
+  }
+
+  const agentId = options.agent || "default";
+  const requests = parseInt(options.requests || "1", 10);
+  const engine = new PolicyEngine(loadSpendingPolicy(policyFile));
+
+  const server = await startFake402Server([
+    {
+      scheme: "exact",
+      network: options.network || "polygon-amoy",
+      maxAmountRequired: options.amount || "1000",
+      asset: options.asset || DEFAULT_ASSET,
+      payTo: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+      description: "Policy check",
+      mimeType: "application/json",
+      maxTimeoutSeconds: 60,
+      extra: { name: "USDC", version: "2" },
+    },
+  ], parseInt(options.port || "0", 10));
+
+  console.log(`\n🧪 Checking policy ${policyFile} for agent "${agentId}" against ${server.url}`);
+
+  try {
+    const signer = await createSigner("polygon-amoy", generatePrivateKey() as Hex);
+    const api = withPaymentInterceptor(
+      withSpendingPolicy(axios.create({ baseURL: server.url }), engine, agentId),
+      signer
+    );
+
+    for (let i = 1; i <= requests; i++) {
+      try {
+        await api.get("/paid");
+        console.log(`  ✓ Request ${i}: payment allowed`);
+      } catch (error: any) {
+        if (error instanceof PolicyDeniedError) {
+          console.log(`  ✗ Request ${i}: policy_denied (${error.denial.rule}) - ${error.message}`);
+        } else {
+          console.log(`  ✗ Request ${i}: ${error?.message || String(error)}`);
+        }
+      }
+    }
+
+    console.log(`\n💰 Payments signed: ${server.paidRequests()} of ${requests}\n`);
+  } finally {
+    await server.close();
+  }
+}
+
+runPolicyCheck().catch(error => {
+  console.error("Policy check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,196 @@
+import assert from 'assert';
+import axios from 'axios';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { withPaymentInterceptor, createSigner, type Hex } from 'x402-axios';
+import { generatePrivateKey } from 'viem/accounts';
+import { PaymentChallenge, PolicyDeniedError, PolicyEngine, SpendingPolicy, loadSpendingPolicy, settleJobReservation, withSpendingPolicy } from './spending-policy';
+import { startFake402Server } from './fake-402-server';
+import { JobManager, createJobRouter, isJobAccepted, waitForJob } from './jobs';
+import { runChecks } from './e2e-checks';
+
+/**
+ * Spending policy checks against the fake 402 server: payments are signed with a
+ * throwaway key through withSpendingPolicy, exactly as the MCP server's paid tools do.
+ *
+ * Usage: npx tsx src/policy-e2e.ts
+ */
+
+// USDC on Polygon Amoy
+const USDC = '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function challenge(amount: string, network = 'polygon-amoy'): PaymentChallenge {
+  return {
+    scheme: 'exact',
+    network,
+    maxAmountRequired: amount,
+    asset: USDC,
+    payTo: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    description: 'Policy e2e',
+    mimeType: 'application/json',
+    maxTimeoutSeconds: 60,
+    extra: { name: 'USDC', version: '2' },
+  };
+}
+
+/**
+ * Send `requests` paid requests to a fresh fake 402 server; returns what happened to each
+ * (`paid` or the denied rule) and how many payments the server received
+ */
+async function payThroughPolicy(engine: PolicyEngine, accepts: PaymentChallenge[], requests: number, agentId = 'default') {
+  const server = await startFake402Server(accepts);
+  const signer = await createSigner('polygon-amoy', generatePrivateKey() as Hex);
+  const api = withPaymentInterceptor(withSpendingPolicy(axios.create({ baseURL: server.url }), engine, agentId), signer);
+  const outcomes: string[] = [];
+
+  try {
+    for (let i = 0; i < requests; i++) {
+      try {
+        await api.get('/paid');
+        outcomes.push('paid');
+      } catch (error) {
+        if (!(error instanceof PolicyDeniedError)) throw error;
+        outcomes.push(error.denial.rule);
+      }
+    }
+    return { outcomes, paid: server.paidRequests() };
+  } finally {
+    await server.close();
+  }
+}
+
+/**
+ * Pay a merchant that answers with a job (202) the way the MCP server's merchant tools
+ * do, follow the job to its end and settle the policy reservation. The job holds the
+ * payment and settles it on success or releases it on failure, like merchant-server.ts.
+ */
+async function payForJob(engine: PolicyEngine, outcome: 'succeeded' | 'failed') {
+  const jobs = new JobManager({ timeoutMs: 10_000, retentionMs: 60_000, webhookAttempts: 0 });
+  const app = express();
+  app.use(createJobRouter(jobs));
+  app.post('/job', (req, res) => {
+    if (!req.header('X-PAYMENT')) {
+      const resource = `${req.protocol}://${req.get('host')}${req.path}`;
+      return res.status(402).json({ x402Version: 1, error: 'X-PAYMENT header is required', accepts: [{ resource, ...challenge('1000') }] });
+    }
+    const job = jobs.create('POST /job', undefined, { status: 'held', scheme: 'x402', network: 'polygon-amoy', amount: '1000' });
+    jobs.run(
+      job.id,
+      async () => {
+        if (outcome === 'failed') throw new Error('The agent could not finish');
+        return { status: 'success' };
+      },
+      async finished => {
+        finished.payment!.status = finished.status === 'succeeded' ? 'settled' : 'released';
+      }
+    );
+    res.status(202).json({ status: 'accepted', jobId: job.id, statusUrl: `/jobs/${job.id}` });
+  });
+
+  const server = app.listen(0);
+  const baseURL = `http://localhost:${(server.address() as AddressInfo).port}`;
+  try {
+    const signer = await createSigner('polygon-amoy', generatePrivateKey() as Hex);
+    const api = withPaymentInterceptor(withSpendingPolicy(axios.create({ baseURL }), engine, 'default'), signer);
+    const response = await api.post('/job');
+    assert.ok(isJobAccepted(response.data), `expected a 202 job, got ${response.status}`);
+    // Counted while the job runs
+    assert.strictEqual(engine.spent('default', DAY_MS), 1000n);
+
+    const job = await waitForJob(baseURL, response.data, { pollIntervalMs: 50 });
+    settleJobReservation(engine, response, job);
+    return job;
+  } finally {
+    server.close();
+  }
+}
+
+function engineFor(policy: SpendingPolicy, now?: () => number): PolicyEngine {
+  return new PolicyEngine({ agents: { default: policy } }, { now });
+}
+
+runChecks('Spending policy', [
+  ['example policy passes its own dry run', async () => {
+    const engine = new PolicyEngine(loadSpendingPolicy('spending-policy.example.yaml'));
+    const { outcomes, paid } = await payThroughPolicy(engine, [challenge('1000')], 1);
+    assert.deepStrictEqual(outcomes, ['paid']);
+    assert.strictEqual(paid, 1);
+  }],
+
+  ['committed payments count toward the daily budget', async () => {
+    const engine = engineFor({ dailyBudget: '2500' });
+    const { outcomes, paid } = await payThroughPolicy(engine, [challenge('1000')], 3);
+    assert.deepStrictEqual(outcomes, ['paid', 'paid', 'daily_budget']);
+    assert.strictEqual(paid, 2);
+    assert.strictEqual(engine.spent('default', DAY_MS, { asset: USDC.toLowerCase() }), 2000n);
+  }],
+
+  ['per-request and network caps deny before anything is signed', async () => {
+    const perRequest = await payThroughPolicy(engineFor({ maxPerRequest: '500' }), [challenge('1000')], 1);
+    assert.deepStrictEqual(perRequest, { outcomes: ['max_per_request'], paid: 0 });
+
+    const network = await payThroughPolicy(engineFor({ networks: { 'polygon-amoy': { maxPerRequest: '900' } } }), [challenge('1000')], 1);
+    assert.deepStrictEqual(network, { outcomes: ['network_max_per_request'], paid: 0 });
+
+    const asset = await payThroughPolicy(engineFor({ assets: { [USDC]: { dailyBudget: '1500' } } }), [challenge('1000')], 2);
+    assert.deepStrictEqual(asset, { outcomes: ['paid', 'asset_daily_budget'], paid: 1 });
+  }],
+
+  ['hosts outside the allowlist are denied', async () => {
+    const { outcomes, paid } = await payThroughPolicy(engineFor({ allowedHosts: ['merchant.example'] }), [challenge('1000')], 1);
+    assert.deepStrictEqual(outcomes, ['host_not_allowed']);
+    assert.strictEqual(paid, 0);
+  }],
+
+  ['the 402 challenge is narrowed to the first allowed option', async () => {
+    const engine = engineFor({ networks: { 'polygon-amoy': {} } });
+    const { requirement } = engine.authorize('default', 'http://localhost:4021/paid', [challenge('1000', 'base-sepolia'), challenge('1000')]);
+    assert.strictEqual(requirement.network, 'polygon-amoy');
+
+    const { outcomes } = await payThroughPolicy(engineFor({ networks: { 'polygon-amoy': {} } }), [challenge('1000', 'base-sepolia'), challenge('1000')], 1);
+    assert.deepStrictEqual(outcomes, ['paid']);
+  }],
+
+  ['released and expired reservations stop counting', () => {
+    let now = Date.now();
+    const engine = engineFor({ dailyBudget: '1500' }, () => now);
+    const accepts = [challenge('1000')];
+
+    const released = engine.authorize('default', 'http://localhost:4021/paid', accepts);
+    engine.release(released.reservationId);
+    assert.strictEqual(engine.spent('default', DAY_MS), 0n);
+
+    engine.authorize('default', 'http://localhost:4021/paid', accepts);
+    assert.throws(() => engine.authorize('default', 'http://localhost:4021/paid', accepts), PolicyDeniedError);
+    now += 61_000;
+    assert.strictEqual(engine.spent('default', DAY_MS), 0n);
+    engine.authorize('default', 'http://localhost:4021/paid', accepts);
+  }],
+
+  ['a failed job whose payment was released gives the budget back', async () => {
+    const engine = engineFor({ dailyBudget: '1500' });
+    const job = await payForJob(engine, 'failed');
+    assert.strictEqual(job.payment?.status, 'released');
+    assert.strictEqual(engine.spent('default', DAY_MS), 0n);
+  }],
+
+  ['a succeeded job keeps its payment in the budget', async () => {
+    const engine = engineFor({ dailyBudget: '1500' });
+    await payForJob(engine, 'succeeded');
+    assert.strictEqual(engine.spent('default', DAY_MS), 1000n);
+    assert.deepStrictEqual((await payThroughPolicy(engine, [challenge('1000')], 1)).outcomes, ['daily_budget']);
+  }],
+
+  ['restored spends count toward the budgets of their own agent', async () => {
+    const engine = new PolicyEngine({ agents: { default: { dailyBudget: '1500' } } });
+    engine.restore([
+      { agentId: 'a1', network: 'polygon-amoy', asset: USDC, amount: '1000', timestamp: new Date().toISOString() },
+      // Past the weekly window: ignored
+      { agentId: 'a2', network: 'polygon-amoy', asset: USDC, amount: '1000', timestamp: Date.now() - 8 * DAY_MS },
+    ]);
+
+    assert.deepStrictEqual((await payThroughPolicy(engine, [challenge('1000')], 1, 'a1')).outcomes, ['daily_budget']);
+    assert.deepStrictEqual((await payThroughPolicy(engine, [challenge('1000')], 1, 'a2')).outcomes, ['paid']);
+  }],
+]);
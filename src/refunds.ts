@@ -0,0 +1,145 @@
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import { createPublicClient, createWalletClient, erc20Abi, getAddress, http } from "viem";
+import { ChainRegistry, chainRegistry } from "./chain-registry.js";
+import { REFUND_SIGNER_ENV, Signer, loadSigner, signerConfigFromEnv, toViemAccount } from "./signer.js";
+
+/**
+ * Refunds
+ * Payments that settle before the merchant has done the work (EVVM, or x402 with
+ * MERCHANT_X402_SETTLEMENT=upfront) are paid back when the work fails or times out:
+ * a token transfer from the receiver wallet to the payer, recorded in REFUNDS_FILE.
+ * EVVM payments are refunded as a plain ERC-20 transfer of the same token on the
+ * EVVM's host chain.
+ */
+
+/**
+ * A settled payment to pay back
+ */
+export interface RefundablePayment {
+  scheme: string;
+  network: string;
+  payer: string;
+  /** Atomic units */
+  amount: string;
+  asset: string;
+}
+
+export interface RefundRecord extends RefundablePayment {
+  timestamp: string;
+  /** Route the payment was for, e.g. "POST /request-uber" */
+  route: string;
+  jobId?: string;
+  reason: string;
+  status: "refunded" | "failed";
+  transaction?: string;
+  error?: string;
+}
+
+export interface Refunder {
+  /** Send the refund; resolves with the confirmed transaction hash */
+  refund(payment: RefundablePayment): Promise<string>;
+}
+
+/**
+ * ERC-20 transfers from the refund signer (the receiver wallet), confirmed by receipt
+ */
+export class OnChainRefunder implements Refunder {
+  private signer: Signer;
+  private chains: ChainRegistry;
+  private rpcUrls: Record<string, string>;
+
+  constructor(signer: Signer, chains: ChainRegistry = chainRegistry, rpcUrls: Record<string, string> = {}) {
+    this.signer = signer;
+    this.chains = chains;
+    this.rpcUrls = rpcUrls;
+  }
+
+  async refund(payment: RefundablePayment): Promise<string> {
+    const chain = this.chains.viemChain(payment.network);
+    const transport = http(this.rpcUrls[payment.network] || this.chains.get(payment.network).rpcUrl);
+    const wallet = createWalletClient({ account: await toViemAccount(this.signer), chain, transport });
+
+    const hash = await wallet.writeContract({
+      address: getAddress(payment.asset),
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [getAddress(payment.payer), BigInt(payment.amount)],
+      chain,
+      account: wallet.account,
+    });
+
+    const receipt = await createPublicClient({ chain, transport }).waitForTransactionReceipt({ hash, timeout: 120000 });
+    if (receipt.status !== "success") {
+      throw new Error(`Refund ${hash} on ${payment.network} reverted`);
+    }
+    return hash;
+  }
+}
+
+/**
+ * Refunder from REFUND_PRIVATE_KEY / REFUND_KEYSTORE_FILE, or null when none is configured.
+ * Refunds send transactions, so the signer must be able to sign them (not CDP or remote).
+ */
+export function refunderFromEnv(rpcUrls: Record<string, string> = {}): { refunder: Refunder; signer: Signer } | null {
+  const config = signerConfigFromEnv(REFUND_SIGNER_ENV);
+  if (!config) {
+    return null;
+  }
+  const signer = loadSigner(config);
+  return { refunder: new OnChainRefunder(signer, chainRegistry, rpcUrls), signer };
+}
+
+/**
+ * Append-only JSONL log of refunds, failed ones included so they can be paid by hand
+ */
+export class RefundLog {
+  private path: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  append(record: RefundRecord): Promise<void> {
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, JSON.stringify(record) + "\n", "utf-8");
+      })
+      .catch(error => {
+        console.error("Failed to write refund record:", error);
+      });
+    return this.writes;
+  }
+}
+
+/**
+ * Refund a payment (when a refunder is configured) and record the outcome
+ */
+export async function refundPayment(
+  refunder: Refunder | null,
+  log: RefundLog,
+  payment: RefundablePayment,
+  context: { route: string; jobId?: string; reason: string }
+): Promise<RefundRecord> {
+  const record: RefundRecord = { ...payment, ...context, timestamp: new Date().toISOString(), status: "failed" };
+
+  if (!refunder) {
+    record.error = "No refund signer configured (REFUND_PRIVATE_KEY or REFUND_KEYSTORE_FILE)";
+  } else {
+    try {
+      record.transaction = await refunder.refund(payment);
+      record.status = "refunded";
+      console.log(`↩️  Refunded ${payment.amount} of ${payment.asset} to ${payment.payer} on ${payment.network}: ${record.transaction}`);
+    } catch (error: any) {
+      record.error = error?.shortMessage || error?.message || String(error);
+    }
+  }
+
+  if (record.status === "failed") {
+    console.error(`❌ Refund of ${payment.amount} to ${payment.payer} on ${payment.network} failed: ${record.error}`);
+  }
+  await log.append(record);
+  return record;
+}
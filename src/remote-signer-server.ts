@@ -0,0 +1,161 @@
+import express from "express";
+import type { Server } from "http";
+import { isHex, type TypedDataDefinition } from "viem";
+import { Signer, SignerEnv, loadSigner, signerConfigFromEnv } from "./signer.js";
+import { bearerTokenMatches } from "./admin-auth.js";
+import dotenv from "dotenv";
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Remote Signer Server
+ * Holds a key (env key or keystore) away from the MCP server and signs payment
+ * payloads for RemoteSigner over HTTP. Typed data is limited to an allowlist of
+ * primary types (EIP-3009 TransferWithAuthorization by default) and raw hash
+ * signing is off unless enabled, so a leaked token can't sign arbitrary transactions.
+ *
+ * Usage:
+ *   SIGNER_PRIVATE_KEY=0x... SIGNER_TOKEN=secret npm run signer:remote -- --port 4030
+ *   SIGNER_KEYSTORE_FILE=./wallet.json SIGNER_KEYSTORE_PASSWORD=... npm run signer:remote
+ */
+
+export interface RemoteSignerOptions {
+  /** Bearer token clients must send; without one the server only listens on 127.0.0.1 */
+  token?: string;
+  /** EIP-712 primary types this server signs */
+  allowedTypes: string[];
+  /** Allow POST /sign/hash */
+  allowHash: boolean;
+}
+
+const SERVER_SIGNER_ENV: SignerEnv = {
+  backend: "SIGNER_BACKEND",
+  privateKey: "SIGNER_PRIVATE_KEY",
+  keystoreFile: "SIGNER_KEYSTORE_FILE",
+  keystorePassword: "SIGNER_KEYSTORE_PASSWORD",
+  remoteUrl: "SIGNER_UPSTREAM_URL",
+  remoteToken: "SIGNER_UPSTREAM_TOKEN",
+};
+
+/**
+ * Turn decimal strings back into bigints for the integer fields of typed data
+ */
+function reviveTypedData(typedData: Record<string, any>): TypedDataDefinition {
+  const types: Record<string, Array<{ name: string; type: string }>> = typedData.types || {};
+
+  const revive = (type: string, value: any): any => {
+    if (type.endsWith("[]")) {
+      return Array.isArray(value) ? value.map(v => revive(type.slice(0, -2), v)) : value;
+    }
+    if (types[type]) {
+      return Object.fromEntries(types[type].map(field => [field.name, revive(field.type, value?.[field.name])]));
+    }
+    if (/^u?int\d*$/.test(type) && (typeof value === "string" || typeof value === "number")) {
+      return BigInt(value);
+    }
+    return value;
+  };
+
+  return { ...typedData, message: revive(typedData.primaryType, typedData.message) } as TypedDataDefinition;
+}
+
+export function createRemoteSignerApp(signer: Signer, options: RemoteSignerOptions): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  app.use((req, res, next) => {
+    if (options.token && !bearerTokenMatches(req.header("Authorization"), options.token)) {
+      return res.status(401).json({ error: "Missing or invalid bearer token" });
+    }
+    next();
+  });
+
+  const handle = (fn: (body: any) => Promise<string>) => async (req: express.Request, res: express.Response) => {
+    try {
+      res.json({ signature: await fn(req.body || {}) });
+    } catch (error: any) {
+      res.status(error?.status || 500).json({ error: error?.message || String(error) });
+    }
+  };
+
+  const reject = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+  app.get("/address", async (_req, res) => {
+    res.json({ address: await signer.getAddress(), kind: signer.kind });
+  });
+
+  app.post("/sign/typed-data", handle(async ({ typedData }) => {
+    if (!typedData?.primaryType || !options.allowedTypes.includes(typedData.primaryType)) {
+      throw reject(403, `Primary type "${typedData?.primaryType}" is not allowed (allowed: ${options.allowedTypes.join(", ")})`);
+    }
+    console.log(`✍️  Signing ${typedData.primaryType} for ${typedData.domain?.name || "?"} on chain ${typedData.domain?.chainId}`);
+    return signer.signTypedData(reviveTypedData(typedData));
+  }));
+
+  app.post("/sign/message", handle(async ({ message }) => {
+    if (typeof message !== "string" && !isHex(message?.raw)) {
+      throw reject(400, "message must be a string or { raw: hex }");
+    }
+    console.log(`✍️  Signing message (${typeof message === "string" ? `${message.length} chars` : "raw"})`);
+    return signer.signMessage(message);
+  }));
+
+  app.post("/sign/hash", handle(async ({ hash }) => {
+    if (!options.allowHash) {
+      throw reject(403, "Raw hash signing is disabled (SIGNER_ALLOW_HASH=on)");
+    }
+    if (!isHex(hash) || hash.length !== 66) {
+      throw reject(400, "hash must be a 32-byte hex string");
+    }
+    console.log(`✍️  Signing hash ${hash}`);
+    return signer.signHash(hash);
+  }));
+
+  return app;
+}
+
+export async function startRemoteSigner(
+  signer: Signer,
+  options: RemoteSignerOptions,
+  port: number = 4030
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const app = createRemoteSignerApp(signer, options);
+  // Anyone who reaches a tokenless signer can ask it for signatures, so it stays on loopback
+  const server: Server = await new Promise(resolve => {
+    const s = options.token
+      ? app.listen(port, () => resolve(s))
+      : app.listen(port, "127.0.0.1", () => resolve(s));
+  });
+
+  return {
+    url: `http://localhost:${port}`,
+    close: () => new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const port = args.includes("--port") ? Number(args[args.indexOf("--port") + 1]) : 4030;
+
+  const config = signerConfigFromEnv(SERVER_SIGNER_ENV);
+  if (!config) {
+    console.error("Set SIGNER_PRIVATE_KEY or SIGNER_KEYSTORE_FILE + SIGNER_KEYSTORE_PASSWORD");
+    process.exit(1);
+  }
+
+  const signer = loadSigner(config);
+  const options: RemoteSignerOptions = {
+    token: process.env.SIGNER_TOKEN,
+    allowedTypes: (process.env.SIGNER_ALLOWED_TYPES || "TransferWithAuthorization").split(",").map(t => t.trim()).filter(Boolean),
+    allowHash: process.env.SIGNER_ALLOW_HASH === "on",
+  };
+
+  startRemoteSigner(signer, options, port).then(async server => {
+    console.log(`\n🔏 Remote signer (${signer.kind}) for ${await signer.getAddress()} running at ${server.url}`);
+    console.log(`   Typed data: ${options.allowedTypes.join(", ")} | raw hashes: ${options.allowHash ? "on" : "off"}`);
+    if (!options.token) {
+      console.warn("⚠️  SIGNER_TOKEN not set - listening on 127.0.0.1 only; set it to accept other hosts");
+    }
+  });
+}
@@ -0,0 +1,212 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Run Recordings
+ * A successful task run is saved as the list of browser tool calls it made, each
+ * element-targeting call anchored to the role and accessible name of its element in
+ * the snapshot the model saw. Later runs of the same task replay the list directly
+ * against MCP: the anchor is looked up in the current snapshot to get a fresh ref, and
+ * only steps whose anchor is gone go back to the LLM.
+ */
+
+/**
+ * Where an element-targeting step clicked or typed, independent of snapshot refs
+ */
+export interface SnapshotAnchor {
+  role: string;
+  /** Accessible name; may contain {{param}} placeholders */
+  name: string;
+}
+
+export interface RecordedStep {
+  tool: string;
+  /** Tool arguments; string values may contain {{param}} placeholders, `ref` is resolved on replay */
+  args: Record<string, any>;
+  anchor?: SnapshotAnchor;
+}
+
+export interface RunRecording {
+  version: 1;
+  key: string;
+  recordedAt: string;
+  /** Parameter names the placeholders refer to */
+  params: string[];
+  steps: RecordedStep[];
+  /** Successful replays since the recording was saved */
+  replays: number;
+}
+
+export interface SnapshotElement extends SnapshotAnchor {
+  ref: string;
+}
+
+// Tools that only read the page; the replay takes its own snapshots when it needs them
+const READ_ONLY_TOOLS = new Set(['browser_snapshot', 'browser_get_console_logs', 'browser_screenshot']);
+
+// `- button "See prices" [ref=s1e11]`, as Browser MCP (and the mock browser) print them
+const SNAPSHOT_LINE = /^\s*-\s+([\w-]+)\s+"((?:[^"\\]|\\.)*)".*\[ref=([^\]\s]+)\]/;
+
+/**
+ * Elements of an aria snapshot, or null when the text is not a snapshot
+ */
+export function parseSnapshot(text: unknown): SnapshotElement[] | null {
+  if (typeof text !== 'string' || !text.includes('[ref=')) {
+    return null;
+  }
+  const elements: SnapshotElement[] = [];
+  for (const line of text.split('\n')) {
+    const match = SNAPSHOT_LINE.exec(line);
+    if (match) {
+      elements.push({ role: match[1], name: match[2].replace(/\\(.)/g, '$1'), ref: match[3] });
+    }
+  }
+  return elements;
+}
+
+/**
+ * First element of a snapshot with the anchor's role and name
+ */
+export function findAnchor(elements: SnapshotElement[], anchor: SnapshotAnchor): SnapshotElement | undefined {
+  return elements.find(element => element.role === anchor.role && element.name === anchor.name);
+}
+
+/**
+ * Collects the tool calls of a live run for saving as a recording
+ */
+export class RunRecorder {
+  readonly steps: RecordedStep[] = [];
+  private snapshot: SnapshotElement[] | null = null;
+
+  /**
+   * Note a tool call and its result; failed and read-only calls are not replayed
+   */
+  observe(tool: string, args: Record<string, any>, result: unknown, error?: string): void {
+    if (!error && !READ_ONLY_TOOLS.has(tool)) {
+      const element = typeof args.ref === 'string' && this.snapshot
+        ? this.snapshot.find(e => e.ref === args.ref)
+        : undefined;
+      this.steps.push({
+        tool,
+        args,
+        ...(element ? { anchor: { role: element.role, name: element.name } } : {}),
+      });
+    }
+    // Refs in later calls come from the latest snapshot the model has seen
+    this.snapshot = parseSnapshot(result) || this.snapshot;
+  }
+
+  /**
+   * The recording, with parameter values replaced by {{name}} placeholders
+   */
+  toRecording(key: string, params: Record<string, string> = {}): RunRecording {
+    return {
+      version: 1,
+      key,
+      recordedAt: new Date().toISOString(),
+      params: Object.keys(params),
+      steps: this.steps.map(step => ({
+        tool: step.tool,
+        args: mapStrings(step.args, value => parameterize(value, params)),
+        ...(step.anchor ? { anchor: { role: step.anchor.role, name: parameterize(step.anchor.name, params) } } : {}),
+      })),
+      replays: 0,
+    };
+  }
+}
+
+/**
+ * A recorded step with this run's parameter values filled in
+ */
+export function bindStep(step: RecordedStep, params: Record<string, string>): RecordedStep {
+  return {
+    tool: step.tool,
+    args: mapStrings(step.args, value => fillPlaceholders(value, params)),
+    ...(step.anchor ? { anchor: { role: step.anchor.role, name: fillPlaceholders(step.anchor.name, params) } } : {}),
+  };
+}
+
+/**
+ * Short description of a step for logs and fallback prompts
+ */
+export function describeRecordedStep(step: RecordedStep): string {
+  if (step.anchor) {
+    const text = typeof step.args.text === 'string' ? ` with ${JSON.stringify(step.args.text)}` : '';
+    return `${step.tool} on ${step.anchor.role} "${step.anchor.name}"${text}`;
+  }
+  return `${step.tool} ${JSON.stringify(step.args)}`;
+}
+
+function parameterize(value: string, params: Record<string, string>): string {
+  // Longest values first, so a value inside another isn't replaced half-way; very short
+  // values would match by accident
+  const entries = Object.entries(params)
+    .filter(([, v]) => typeof v === 'string' && v.length >= 3)
+    .sort(([, a], [, b]) => b.length - a.length);
+  return entries.reduce((text, [name, v]) => text.split(v).join(`{{${name}}}`), value);
+}
+
+function fillPlaceholders(value: string, params: Record<string, string>): string {
+  return value.replace(/\{\{([a-zA-Z][a-zA-Z0-9_]*)\}\}/g, (placeholder, name) => params[name] ?? placeholder);
+}
+
+function mapStrings(args: Record<string, any>, fn: (value: string) => string): Record<string, any> {
+  return Object.fromEntries(Object.entries(args).map(([name, value]) => [
+    name,
+    typeof value === 'string' && name !== 'ref' ? fn(value) : value,
+  ]));
+}
+
+/**
+ * Recordings as one JSON file per task key
+ */
+export class RunRecordingStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private pathOf(key: string): string {
+    return join(this.dir, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  get(key: string): RunRecording | undefined {
+    const path = this.pathOf(key);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    try {
+      const recording = JSON.parse(readFileSync(path, 'utf-8')) as RunRecording;
+      return recording.version === 1 && Array.isArray(recording.steps) ? recording : undefined;
+    } catch (error) {
+      console.warn(`⚠️  Ignoring unreadable run recording ${path}:`, error);
+      return undefined;
+    }
+  }
+
+  save(recording: RunRecording): void {
+    mkdirSync(this.dir, { recursive: true });
+    const path = this.pathOf(recording.key);
+    // Write-then-rename so a concurrent reader never sees half a file
+    writeFileSync(`${path}.tmp`, JSON.stringify(recording, null, 2));
+    renameSync(`${path}.tmp`, path);
+  }
+
+  delete(key: string): void {
+    const path = this.pathOf(key);
+    if (existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+}
+
+/**
+ * Store from RUN_RECORDINGS=on and RUN_RECORDINGS_DIR (default ./data/recordings)
+ */
+export function runRecordingsFromEnv(): RunRecordingStore | undefined {
+  if (process.env.RUN_RECORDINGS !== 'on') {
+    return undefined;
+  }
+  return new RunRecordingStore(process.env.RUN_RECORDINGS_DIR || './data/recordings');
+}
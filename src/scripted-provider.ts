@@ -0,0 +1,97 @@
+import { readFileSync } from 'fs';
+import type { LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
+
+/**
+ * One scripted model turn: either tool calls or a final answer
+ */
+export type ScriptedStep =
+  | { toolCalls: Array<{ name: string; arguments?: Record<string, any> }> }
+  | { content: string };
+
+/**
+ * A scripted run stored as JSON (see fixtures/scripts)
+ */
+export interface ScriptFile {
+  description?: string;
+  /** Task passed to the agent by the e2e runner */
+  task?: string;
+  /** MCP agent tool the e2e runner also runs the script through (see agent-tools.ts) */
+  tool?: { name: string; arguments: Record<string, string> };
+  steps: ScriptedStep[];
+  /** Accessible names of the elements the run is expected to click, in order */
+  expectedClicks?: string[];
+}
+
+/**
+ * Deterministic provider that replays a fixed list of model turns.
+ * Steps can be functions of the request to react to earlier tool results.
+ * The script restarts whenever a new conversation begins, so a shared agent
+ * replays it for every run. Every request is kept in `requests` for assertions.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly defaultModel = 'scripted';
+  readonly requests: LLMRequest[] = [];
+  private steps: Array<ScriptedStep | ((request: LLMRequest) => ScriptedStep)>;
+  private position = 0;
+
+  constructor(steps: Array<ScriptedStep | ((request: LLMRequest) => ScriptedStep)>) {
+    this.steps = steps;
+  }
+
+  /**
+   * Load a provider from a script file
+   */
+  static fromFile(path: string): ScriptedProvider {
+    const script = JSON.parse(readFileSync(path, 'utf-8')) as ScriptFile;
+    return new ScriptedProvider(script.steps);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+
+    // Only the system prompt and the user task: a new run starts
+    if (!request.messages.some(m => m.role === 'assistant')) {
+      this.position = 0;
+    }
+
+    if (this.position >= this.steps.length) {
+      throw new Error(`Scripted provider ran out of steps after ${this.steps.length} turns`);
+    }
+
+    const next = this.steps[this.position];
+    const step = typeof next === 'function' ? next(request) : next;
+    const turn = ++this.position;
+
+    if ('toolCalls' in step) {
+      return {
+        message: {
+          role: 'assistant',
+          content: null,
+          toolCalls: step.toolCalls.map((call, index) => ({
+            id: `call_${turn}_${index}`,
+            name: call.name,
+            arguments: JSON.stringify(call.arguments || {}),
+          })),
+        },
+        model: this.defaultModel,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        finishReason: 'tool_calls',
+      };
+    }
+
+    return {
+      message: { role: 'assistant', content: step.content },
+      model: this.defaultModel,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      finishReason: 'stop',
+    };
+  }
+
+  /**
+   * Number of scripted turns not yet consumed
+   */
+  remaining(): number {
+    return this.steps.length - this.position;
+  }
+}
@@ -0,0 +1,170 @@
+import assert from 'assert';
+import { rmSync } from 'fs';
+import type { LocalAccount } from 'viem';
+import { SessionContext, SessionWalletConfig, SessionWalletError, SessionWalletManager, Treasury } from './session-wallets';
+import { runChecks } from './e2e-checks';
+
+/**
+ * Session wallet checks with an in-memory treasury: who may pay from which wallet, and
+ * how much the treasury sends out.
+ *
+ * Usage: npx tsx src/session-wallets-e2e.ts
+ */
+
+// Well-known development mnemonic - never holds real funds
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const STATE_FILE = '/tmp/session-wallets-e2e.json';
+
+/**
+ * Treasury that moves balances in memory, with made-up transaction hashes
+ */
+class MemoryTreasury implements Treasury {
+  readonly balances = new Map<string, bigint>();
+  /** Set to make sweeps fail, like an unreachable RPC */
+  sweepError?: string;
+  private transactions = 0;
+
+  async address(): Promise<`0x${string}`> {
+    return '0x000000000000000000000000000000000000beef';
+  }
+
+  async balanceOf(_network: string, _token: `0x${string}`, owner: `0x${string}`): Promise<bigint> {
+    return this.balances.get(owner.toLowerCase()) || 0n;
+  }
+
+  async fund(_network: string, _token: `0x${string}`, to: `0x${string}`, amount: bigint): Promise<string> {
+    this.balances.set(to.toLowerCase(), (this.balances.get(to.toLowerCase()) || 0n) + amount);
+    return `0xfund${++this.transactions}`;
+  }
+
+  async sweep(_network: string, _token: `0x${string}`, from: LocalAccount, amount: bigint): Promise<string> {
+    if (this.sweepError) throw new Error(this.sweepError);
+    this.balances.set(from.address.toLowerCase(), (this.balances.get(from.address.toLowerCase()) || 0n) - amount);
+    return `0xsweep${++this.transactions}`;
+  }
+}
+
+function managerFor(config: Partial<SessionWalletConfig> = {}) {
+  rmSync(STATE_FILE, { force: true });
+  const treasury = new MemoryTreasury();
+  const manager = new SessionWalletManager({
+    enabled: true,
+    mnemonic: MNEMONIC,
+    network: 'polygon-amoy',
+    token: 'usdc',
+    defaultAllowance: '1000000',
+    maxAllowance: '5000000',
+    maxTotalFunding: '20000000',
+    ttlSeconds: 3600,
+    autoProvision: true,
+    file: STATE_FILE,
+    ...config,
+  }, treasury);
+  return { manager, treasury };
+}
+
+/**
+ * Resolves to the HTTP status forSession() refused with, or 200 when it found a wallet
+ */
+async function statusFor(manager: SessionWalletManager, context: SessionContext): Promise<number> {
+  try {
+    await manager.forSession(context);
+    return 200;
+  } catch (error) {
+    if (!(error instanceof SessionWalletError)) throw error;
+    return error.status;
+  }
+}
+
+process.on('exit', () => rmSync(STATE_FILE, { force: true }));
+
+runChecks('Session wallets', [
+  ['an X-Session-Id header never selects a wallet', async () => {
+    const { manager } = managerFor();
+    await manager.create('client-1');
+    const header = { requestInfo: { headers: { 'x-session-id': 'client-1' } } };
+    assert.strictEqual(await statusFor(manager, header), 401);
+    assert.strictEqual(await statusFor(manager, { ...header, sessionId: 'mcp-session-1' }), 403);
+  }],
+
+  ['the authenticated client and the MCP session an admin created it for pay from it', async () => {
+    const { manager } = managerFor();
+    const byClient = await manager.create('client-1');
+    const bySession = await manager.create('mcp-session-1');
+    assert.strictEqual((await manager.forSession({ authInfo: { clientId: 'client-1' } })).address, byClient.address);
+    assert.strictEqual((await manager.forSession({ sessionId: 'mcp-session-1' })).address, bySession.address);
+    assert.notStrictEqual(byClient.address, bySession.address);
+  }],
+
+  ['only authenticated clients get a wallet provisioned on first use', async () => {
+    const { manager, treasury } = managerFor();
+    assert.strictEqual(await statusFor(manager, { sessionId: 'mcp-session-2' }), 403);
+    assert.strictEqual(manager.list().length, 0);
+
+    const wallet = await manager.forSession({ authInfo: { clientId: 'client-2' }, sessionId: 'mcp-session-2' });
+    assert.strictEqual(wallet.id, 'client-2');
+    assert.strictEqual(await treasury.balanceOf(wallet.network, wallet.asset, wallet.address), 1000000n);
+  }],
+
+  ['concurrent first calls of a client share one funded wallet', async () => {
+    const { manager, treasury } = managerFor();
+    const context = { authInfo: { clientId: 'client-4' } };
+    const [first, second] = await Promise.all([manager.forSession(context), manager.forSession(context)]);
+    assert.strictEqual(first, second);
+    assert.strictEqual(manager.list().length, 1);
+    assert.strictEqual(await treasury.balanceOf(first.network, first.asset, first.address), 1000000n);
+  }],
+
+  ['allowances and top-ups stay within maxAllowance', async () => {
+    const { manager, treasury } = managerFor();
+    await assert.rejects(manager.create('client-5', { allowance: '6000000' }), (error: any) => error.status === 409);
+    assert.strictEqual(manager.list().length, 0);
+
+    const wallet = await manager.create('client-5', { allowance: '2000000' });
+    await manager.topUp('client-5', '3000000');
+    assert.strictEqual(wallet.allowance, '5000000');
+    assert.strictEqual(await treasury.balanceOf(wallet.network, wallet.asset, wallet.address), 5000000n);
+    await assert.rejects(manager.topUp('client-5', '1'), /above the cap of 5000000/);
+    await assert.rejects(manager.topUp('client-5', '-1'), /positive integer/);
+  }],
+
+  ['maxTotalFunding caps the treasury until a wallet is swept back', async () => {
+    const { manager, treasury } = managerFor({ maxTotalFunding: '2000000' });
+    await manager.create('client-6');
+    await manager.create('client-7');
+    await assert.rejects(manager.create('client-8'), (error: any) => error.status === 409 && /above the cap of 2000000/.test(error.message));
+    await assert.rejects(manager.topUp('client-6', '1'), (error: any) => error.status === 409);
+
+    // A failed sweep still counts until it is retried
+    treasury.sweepError = 'RPC unreachable';
+    await manager.revoke('client-7');
+    assert.strictEqual(manager.outstanding(), 2000000n);
+    await assert.rejects(manager.create('client-8'), (error: any) => error.status === 409);
+
+    treasury.sweepError = undefined;
+    await manager.sweepDue();
+    assert.strictEqual(manager.outstanding(), 1000000n);
+    await manager.create('client-8');
+  }],
+
+  ['wallets past their TTL expire and are swept back', async () => {
+    const { manager, treasury } = managerFor();
+    const wallet = await manager.create('client-9', { ttlSeconds: 0 });
+    assert.strictEqual(await statusFor(manager, { authInfo: { clientId: 'client-9' } }), 403);
+    assert.strictEqual(wallet.status, 'expired');
+    assert.strictEqual(await treasury.balanceOf(wallet.network, wallet.asset, wallet.address), 0n);
+  }],
+
+  ['frozen and revoked wallets stop paying', async () => {
+    const { manager, treasury } = managerFor();
+    const wallet = await manager.create('client-3');
+    await manager.freeze('client-3');
+    assert.strictEqual(await statusFor(manager, { authInfo: { clientId: 'client-3' } }), 403);
+    await manager.unfreeze('client-3');
+    assert.strictEqual(await statusFor(manager, { authInfo: { clientId: 'client-3' } }), 200);
+
+    await manager.revoke('client-3');
+    assert.strictEqual(await statusFor(manager, { authInfo: { clientId: 'client-3' } }), 403);
+    assert.strictEqual(await treasury.balanceOf(wallet.network, wallet.asset, wallet.address), 0n);
+  }],
+]);
@@ -0,0 +1,640 @@
+import { Router, type Request, type Response } from "express";
+import { existsSync, readFileSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { randomBytes, randomUUID } from "crypto";
+import { erc20Abi, parseSignature, toHex, type LocalAccount } from "viem";
+import { ChainRegistry, chainRegistry } from "./chain-registry.js";
+import { DerivedKeySigner, toViemAccount } from "./signer.js";
+import { requireAdminToken } from "./admin-auth.js";
+import type { PaymentChallenge } from "./spending-policy.js";
+import type { PaymentScheme } from "./payment-schemes.js";
+import type { WalletService } from "./wallet-service.js";
+
+/**
+ * Session Wallets
+ * Each MCP session (or API key) pays from its own sub-account, derived from
+ * SESSION_WALLET_MNEMONIC and funded by the treasury wallet with a capped USDC
+ * allowance. A misbehaving client can spend at most what its wallet holds; when the
+ * session expires or is revoked, whatever is left is swept back to the treasury.
+ *
+ * Session wallets pay on the x402 rail only. Sweeps are EIP-3009 transfers signed by
+ * the session wallet and submitted by the treasury, so session wallets never need gas.
+ */
+
+export type SessionWalletStatus = "active" | "frozen" | "revoked" | "expired";
+
+export interface SessionWalletTransfer {
+  kind: "fund" | "top_up" | "sweep";
+  amount: string;
+  transaction: string;
+  at: string;
+}
+
+export interface SessionWallet {
+  /** Wallet key: API key client ID or MCP session ID (see walletKeyOf) */
+  id: string;
+  /** HD address index under the session wallet mnemonic */
+  index: number;
+  address: `0x${string}`;
+  network: string;
+  /** Token the allowance is paid in */
+  asset: `0x${string}`;
+  /** Total funded by the treasury (atomic units), top-ups included */
+  allowance: string;
+  status: SessionWalletStatus;
+  createdAt: string;
+  expiresAt: string;
+  closedAt?: string;
+  /** Set when sweeping back failed; retried by the expiry loop */
+  sweepError?: string;
+  transfers: SessionWalletTransfer[];
+}
+
+export interface SessionWalletConfig {
+  enabled: boolean;
+  mnemonic: string;
+  network: string;
+  /** Token symbol in the chain registry (e.g. "usdc") */
+  token: string;
+  /** Allowance a new session wallet is funded with (atomic units) */
+  defaultAllowance: string;
+  /**
+   * Most a session wallet may ever be funded with, top-ups included. A session key has
+   * one wallet for good, so this also caps what one client can get.
+   */
+  maxAllowance: string;
+  /** Most the treasury has out in session wallets at once (open wallets and unswept ones) */
+  maxTotalFunding: string;
+  ttlSeconds: number;
+  /** Provision a wallet on an authenticated client's first paid call */
+  autoProvision: boolean;
+  /** Where wallets are kept across restarts (addresses are re-derived from the mnemonic) */
+  file: string;
+}
+
+export interface CreateSessionWalletOptions {
+  allowance?: string;
+  ttlSeconds?: number;
+}
+
+/**
+ * Moves tokens between the treasury and session wallets
+ */
+export interface Treasury {
+  address(): Promise<`0x${string}`>;
+  balanceOf(network: string, token: `0x${string}`, owner: `0x${string}`): Promise<bigint>;
+  /** Pay `amount` from the treasury to a session wallet; returns the transaction hash */
+  fund(network: string, token: `0x${string}`, to: `0x${string}`, amount: bigint): Promise<string>;
+  /** Move `amount` from a session wallet back to the treasury; returns the transaction hash */
+  sweep(network: string, token: `0x${string}`, from: LocalAccount, amount: bigint): Promise<string>;
+}
+
+/**
+ * The parts of an MCP tool call's context that identify its caller
+ */
+export interface SessionContext {
+  authInfo?: { clientId?: string };
+  sessionId?: string;
+  requestInfo?: { headers?: Record<string, string | string[] | undefined> };
+}
+
+export class SessionWalletError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = "SessionWalletError";
+  }
+}
+
+const EIP3009_ABI = [
+  { type: "function", name: "name", stateMutability: "view", inputs: [], outputs: [{ type: "string" }] },
+  { type: "function", name: "version", stateMutability: "view", inputs: [], outputs: [{ type: "string" }] },
+  {
+    type: "function",
+    name: "transferWithAuthorization",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "validAfter", type: "uint256" },
+      { name: "validBefore", type: "uint256" },
+      { name: "nonce", type: "bytes32" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+/**
+ * Session wallet settings from SESSION_WALLETS and the SESSION_WALLET_* variables
+ */
+export function sessionWalletConfigFromEnv(): SessionWalletConfig {
+  const enabled = process.env.SESSION_WALLETS === "on";
+  if (enabled && !process.env.SESSION_WALLET_MNEMONIC) {
+    throw new Error("SESSION_WALLET_MNEMONIC is required when SESSION_WALLETS=on");
+  }
+
+  return {
+    enabled,
+    mnemonic: process.env.SESSION_WALLET_MNEMONIC || "",
+    network: process.env.SESSION_WALLET_NETWORK || "polygon-amoy",
+    token: process.env.SESSION_WALLET_TOKEN || "usdc",
+    defaultAllowance: process.env.SESSION_WALLET_ALLOWANCE || "1000000",
+    maxAllowance: process.env.SESSION_WALLET_MAX_ALLOWANCE || "5000000",
+    maxTotalFunding: process.env.SESSION_WALLET_MAX_TOTAL_FUNDING || "20000000",
+    ttlSeconds: parseInt(process.env.SESSION_WALLET_TTL_SECONDS || "3600", 10),
+    autoProvision: process.env.SESSION_WALLET_AUTO_PROVISION === "on",
+    file: process.env.SESSION_WALLETS_FILE || "./data/session-wallets.json",
+  };
+}
+
+/**
+ * Who a tool call belongs to, for sharing agent sessions fairly: the authenticated
+ * client, else the MCP session, else an X-Session-Id header (stateless clients).
+ * The header is the caller's to pick, so this is never a credential; see walletKeyOf.
+ */
+export function sessionKeyOf(context: SessionContext): string | null {
+  const header = context.requestInfo?.headers?.["x-session-id"];
+  return context.authInfo?.clientId || context.sessionId || (Array.isArray(header) ? header[0] : header) || null;
+}
+
+/**
+ * The key a tool call's session wallet is kept under: the authenticated client, else
+ * the MCP session (its ID is issued by the server). Never the X-Session-Id header, which
+ * would let anyone who knows a wallet's ID spend from it.
+ */
+export function walletKeyOf(context: SessionContext): string | null {
+  return context.authInfo?.clientId || context.sessionId || null;
+}
+
+function parseAmount(value: unknown, field: string): bigint {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new SessionWalletError(`${field} is required (atomic units as a decimal string)`);
+  }
+  if (!/^\d+$/.test(String(value)) || BigInt(value) === 0n) {
+    throw new SessionWalletError(`${field} must be a positive integer in atomic units, got "${value}"`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Treasury backed by the server's wallet: funds with an ERC-20 transfer and sweeps by
+ * submitting the session wallet's signed EIP-3009 authorization
+ */
+export class OnChainTreasury implements Treasury {
+  private wallet: WalletService;
+  private chains: ChainRegistry;
+
+  constructor(wallet: WalletService, chains: ChainRegistry = chainRegistry) {
+    this.wallet = wallet;
+    this.chains = chains;
+  }
+
+  async address() {
+    return (await this.wallet.getAddress()) as `0x${string}`;
+  }
+
+  balanceOf(network: string, token: `0x${string}`, owner: `0x${string}`) {
+    return this.chains.publicClient(network).readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [owner],
+    });
+  }
+
+  async fund(network: string, token: `0x${string}`, to: `0x${string}`, amount: bigint) {
+    const client = await this.wallet.createViemWalletClient(network);
+    const hash = await client.writeContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [to, amount],
+      chain: client.chain,
+      account: client.account,
+    });
+    return this.confirm(network, hash);
+  }
+
+  async sweep(network: string, token: `0x${string}`, from: LocalAccount, amount: bigint) {
+    const publicClient = this.chains.publicClient(network);
+    const [name, version] = await Promise.all([
+      publicClient.readContract({ address: token, abi: EIP3009_ABI, functionName: "name" }),
+      publicClient.readContract({ address: token, abi: EIP3009_ABI, functionName: "version" }),
+    ]);
+
+    const to = await this.address();
+    const nonce = toHex(randomBytes(32));
+    const validBefore = BigInt(Math.floor(Date.now() / 1000) + 3600);
+    const signature = await from.signTypedData({
+      domain: { name, version, chainId: this.chains.get(network).chainId, verifyingContract: token },
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: "TransferWithAuthorization",
+      message: { from: from.address, to, value: amount, validAfter: 0n, validBefore, nonce },
+    });
+    const { r, s, v, yParity } = parseSignature(signature);
+
+    const client = await this.wallet.createViemWalletClient(network);
+    const hash = await client.writeContract({
+      address: token,
+      abi: EIP3009_ABI,
+      functionName: "transferWithAuthorization",
+      args: [from.address, to, amount, 0n, validBefore, nonce, Number(v ?? BigInt(yParity + 27)), r, s],
+      chain: client.chain,
+      account: client.account,
+    });
+    return this.confirm(network, hash);
+  }
+
+  private async confirm(network: string, hash: `0x${string}`): Promise<string> {
+    const receipt = await this.chains.publicClient(network).waitForTransactionReceipt({ hash, timeout: 120000 });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} on ${network} reverted`);
+    }
+    return hash;
+  }
+}
+
+export class SessionWalletManager {
+  private config: SessionWalletConfig;
+  private treasury: Treasury;
+  private asset: `0x${string}`;
+  private wallets = new Map<string, SessionWallet>();
+  private accounts = new Map<string, LocalAccount>();
+  private provisioning = new Map<string, Promise<SessionWallet>>();
+  /** Funding sent but not confirmed yet, counted against maxTotalFunding */
+  private reserved = 0n;
+  private nextIndex = 0;
+  private writes: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(config: SessionWalletConfig, treasury: Treasury, chains: ChainRegistry = chainRegistry) {
+    this.config = config;
+    this.treasury = treasury;
+
+    const token = chains.token(config.network, config.token);
+    if (!token) {
+      throw new Error(`Session wallet token "${config.token}" is not configured on ${config.network}`);
+    }
+    this.asset = token.address;
+
+    if (existsSync(config.file)) {
+      const saved = JSON.parse(readFileSync(config.file, "utf-8")) as { wallets: SessionWallet[] };
+      for (const wallet of saved.wallets || []) {
+        this.wallets.set(wallet.id, wallet);
+        this.nextIndex = Math.max(this.nextIndex, wallet.index + 1);
+      }
+    }
+  }
+
+  list(status?: SessionWalletStatus): SessionWallet[] {
+    return [...this.wallets.values()].filter(w => !status || w.status === status);
+  }
+
+  get(id: string): SessionWallet | undefined {
+    return this.wallets.get(id);
+  }
+
+  /**
+   * Account a session wallet signs payments with
+   */
+  async account(wallet: SessionWallet): Promise<LocalAccount> {
+    let account = this.accounts.get(wallet.id);
+    if (!account) {
+      account = await toViemAccount(new DerivedKeySigner(this.config.mnemonic, wallet.index));
+      this.accounts.set(wallet.id, account);
+    }
+    return account;
+  }
+
+  balance(wallet: SessionWallet): Promise<bigint> {
+    return this.treasury.balanceOf(wallet.network, wallet.asset, wallet.address);
+  }
+
+  /**
+   * The wallet a tool call's session pays from. Only authenticated clients get one
+   * provisioned on first use (when auto-provisioning is on); MCP sessions only find
+   * wallets an admin created for them. Throws when the session has none or it can't pay
+   * (frozen, revoked, expired).
+   */
+  async forSession(context: SessionContext): Promise<SessionWallet> {
+    const id = walletKeyOf(context);
+    if (!id) {
+      throw new SessionWalletError("Paid tools need a session wallet: authenticate with an API key or OAuth, or use a stateful MCP session", 401);
+    }
+
+    // Concurrent first calls share one provisioning
+    const pending = this.provisioning.get(id);
+    const wallet = this.wallets.get(id) || (pending ? await pending : undefined);
+    if (!wallet) {
+      if (!this.config.autoProvision || id !== context.authInfo?.clientId) {
+        throw new SessionWalletError(`No session wallet for session ${id}`, 403);
+      }
+      return this.create(id);
+    }
+
+    if (wallet.status === "active" && Date.parse(wallet.expiresAt) <= Date.now()) {
+      await this.close(wallet, "expired");
+    }
+    if (wallet.status !== "active") {
+      throw new SessionWalletError(`Session wallet ${id} is ${wallet.status}`, 403);
+    }
+    return wallet;
+  }
+
+  /**
+   * Why a session wallet can't pay this requirement, or null when it can
+   */
+  unsupportedReason(wallet: SessionWallet, requirement: PaymentChallenge, scheme: PaymentScheme): string | null {
+    if (scheme !== "x402") {
+      return "session wallets pay with x402 only";
+    }
+    if (requirement.network !== wallet.network || requirement.asset?.toLowerCase() !== wallet.asset.toLowerCase()) {
+      return `session wallet holds ${this.config.token.toUpperCase()} on ${wallet.network} only`;
+    }
+    return null;
+  }
+
+  /**
+   * Derive a wallet for a session and fund it from the treasury
+   */
+  create(id: string = randomUUID(), options: CreateSessionWalletOptions = {}): Promise<SessionWallet> {
+    if (this.wallets.has(id) || this.provisioning.has(id)) {
+      return Promise.reject(new SessionWalletError(`Session wallet ${id} already exists`, 409));
+    }
+
+    const pending = this.provision(id, options).finally(() => this.provisioning.delete(id));
+    this.provisioning.set(id, pending);
+    return pending;
+  }
+
+  async topUp(id: string, amount: unknown): Promise<SessionWallet> {
+    const wallet = this.require(id);
+    const value = parseAmount(amount, "amount");
+    if (wallet.status !== "active" && wallet.status !== "frozen") {
+      throw new SessionWalletError(`Session wallet ${id} is ${wallet.status}`, 409);
+    }
+
+    const allowance = BigInt(wallet.allowance) + value;
+    if (allowance > BigInt(this.config.maxAllowance)) {
+      throw new SessionWalletError(
+        `Top-up would raise the allowance of ${id} to ${allowance}, above the cap of ${this.config.maxAllowance}`, 409
+      );
+    }
+
+    const transaction = await this.fund(wallet.network, wallet.asset, wallet.address, value);
+    wallet.allowance = allowance.toString();
+    wallet.transfers.push({ kind: "top_up", amount: value.toString(), transaction, at: new Date().toISOString() });
+    console.log(`💧 Session wallet ${id} topped up with ${value} (allowance ${allowance})`);
+    await this.persist();
+    return wallet;
+  }
+
+  async freeze(id: string): Promise<SessionWallet> {
+    return this.setStatus(id, "active", "frozen");
+  }
+
+  async unfreeze(id: string): Promise<SessionWallet> {
+    return this.setStatus(id, "frozen", "active");
+  }
+
+  /**
+   * Stop a session wallet for good and sweep its balance back to the treasury
+   */
+  async revoke(id: string): Promise<SessionWallet> {
+    const wallet = this.require(id);
+    if (wallet.status === "revoked" || wallet.status === "expired") {
+      throw new SessionWalletError(`Session wallet ${id} is already ${wallet.status}`, 409);
+    }
+    return this.close(wallet, "revoked");
+  }
+
+  /**
+   * Close a session's wallet when the session itself ends, sweeping it back
+   */
+  async release(id: string): Promise<void> {
+    const wallet = this.wallets.get(id);
+    if (wallet && (wallet.status === "active" || wallet.status === "frozen")) {
+      await this.close(wallet, "expired");
+    }
+  }
+
+  /**
+   * What the treasury has out in session wallets: allowances of open wallets and of
+   * closed ones not swept back yet, plus funding in flight
+   */
+  outstanding(): bigint {
+    let total = this.reserved;
+    for (const wallet of this.wallets.values()) {
+      if (wallet.status === "active" || wallet.status === "frozen" || wallet.sweepError) {
+        total += BigInt(wallet.allowance);
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Expire wallets past their TTL and retry failed sweeps
+   */
+  async sweepDue(): Promise<void> {
+    const now = Date.now();
+    for (const wallet of this.wallets.values()) {
+      if ((wallet.status === "active" || wallet.status === "frozen") && Date.parse(wallet.expiresAt) <= now) {
+        await this.close(wallet, "expired");
+      } else if (wallet.sweepError) {
+        await this.close(wallet, wallet.status);
+      }
+    }
+  }
+
+  /**
+   * Check for expired wallets every intervalMs
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.sweepDue().catch(error => console.error("Session wallet sweep failed:", error?.message || error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async provision(id: string, options: CreateSessionWalletOptions): Promise<SessionWallet> {
+    const allowance = parseAmount(options.allowance ?? this.config.defaultAllowance, "allowance");
+    if (allowance > BigInt(this.config.maxAllowance)) {
+      throw new SessionWalletError(`Allowance ${allowance} is above the cap of ${this.config.maxAllowance}`, 409);
+    }
+
+    const index = this.nextIndex++;
+    const address = await new DerivedKeySigner(this.config.mnemonic, index).getAddress();
+    const ttlSeconds = options.ttlSeconds ?? this.config.ttlSeconds;
+
+    console.log(`\n👛 Provisioning session wallet ${id} (${address}) with ${allowance} on ${this.config.network}`);
+    const transaction = await this.fund(this.config.network, this.asset, address, allowance);
+
+    const now = new Date();
+    const wallet: SessionWallet = {
+      id,
+      index,
+      address,
+      network: this.config.network,
+      asset: this.asset,
+      allowance: allowance.toString(),
+      status: "active",
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+      transfers: [{ kind: "fund", amount: allowance.toString(), transaction, at: now.toISOString() }],
+    };
+    this.wallets.set(id, wallet);
+    await this.persist();
+    return wallet;
+  }
+
+  /**
+   * Send treasury funds to a session wallet, within maxTotalFunding
+   */
+  private async fund(network: string, asset: `0x${string}`, address: `0x${string}`, amount: bigint): Promise<string> {
+    const total = this.outstanding() + amount;
+    if (total > BigInt(this.config.maxTotalFunding)) {
+      throw new SessionWalletError(
+        `Funding ${amount} would put ${total} in session wallets, above the cap of ${this.config.maxTotalFunding}`, 409
+      );
+    }
+    this.reserved += amount;
+    try {
+      return await this.treasury.fund(network, asset, address, amount);
+    } finally {
+      this.reserved -= amount;
+    }
+  }
+
+  private async close(wallet: SessionWallet, status: SessionWalletStatus): Promise<SessionWallet> {
+    // Stop payments first; the sweep can be retried
+    wallet.status = status;
+    wallet.closedAt ??= new Date().toISOString();
+
+    try {
+      const balance = await this.balance(wallet);
+      if (balance > 0n) {
+        const transaction = await this.treasury.sweep(wallet.network, wallet.asset, await this.account(wallet), balance);
+        wallet.transfers.push({ kind: "sweep", amount: balance.toString(), transaction, at: new Date().toISOString() });
+      }
+      delete wallet.sweepError;
+      console.log(`🧹 Session wallet ${wallet.id} ${status}; swept ${balance} back to the treasury`);
+    } catch (error: any) {
+      wallet.sweepError = error?.message || String(error);
+      console.error(`❌ Sweeping session wallet ${wallet.id} failed: ${wallet.sweepError}`);
+    }
+
+    await this.persist();
+    return wallet;
+  }
+
+  private async setStatus(id: string, from: SessionWalletStatus, to: SessionWalletStatus): Promise<SessionWallet> {
+    const wallet = this.require(id);
+    if (wallet.status !== from) {
+      throw new SessionWalletError(`Session wallet ${id} is ${wallet.status}, not ${from}`, 409);
+    }
+    wallet.status = to;
+    console.log(`${to === "frozen" ? "🧊" : "▶️ "} Session wallet ${id} ${to}`);
+    await this.persist();
+    return wallet;
+  }
+
+  private require(id: string): SessionWallet {
+    const wallet = this.wallets.get(id);
+    if (!wallet) {
+      throw new SessionWalletError(`Session wallet ${id} not found`, 404);
+    }
+    return wallet;
+  }
+
+  /**
+   * Write every wallet to the state file (writes are serialized)
+   */
+  private persist(): Promise<void> {
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(this.config.file), { recursive: true });
+        await writeFile(this.config.file, JSON.stringify({ wallets: this.list() }, null, 2) + "\n", "utf-8");
+      })
+      .catch(error => {
+        console.error("Failed to save session wallets:", error);
+      });
+    return this.writes;
+  }
+}
+
+/**
+ * Admin endpoints for session wallets, behind the admin token (SESSION_WALLET_ADMIN_TOKEN)
+ *
+ *   GET  /session-wallets?status=active
+ *   POST /session-wallets                { "id": "client-1", "allowance": "2000000", "ttlSeconds": 3600 }
+ *   GET  /session-wallets/:id            (with the live balance)
+ *   POST /session-wallets/:id/top-up     { "amount": "1000000" }
+ *   POST /session-wallets/:id/freeze
+ *   POST /session-wallets/:id/unfreeze
+ *   POST /session-wallets/:id/revoke     (sweeps the balance back to the treasury)
+ */
+export function createSessionWalletRouter(manager: SessionWalletManager, adminToken: string): Router {
+  const router = Router();
+  router.use("/session-wallets", requireAdminToken(adminToken));
+
+  const handle = (fn: (req: Request<{ id: string }>) => Promise<unknown>, status: number = 200) =>
+    async (req: Request<{ id: string }>, res: Response) => {
+      try {
+        res.status(status).json(await fn(req));
+      } catch (error: any) {
+        res.status(error instanceof SessionWalletError ? error.status : 500).json({ error: error?.message || String(error) });
+      }
+    };
+
+  router.get("/session-wallets", (req, res) => {
+    const status = req.query.status as SessionWalletStatus | undefined;
+    res.json({ wallets: manager.list(status) });
+  });
+
+  router.post("/session-wallets", handle(async (req) => {
+    const { id, allowance, ttlSeconds } = req.body || {};
+    if (ttlSeconds !== undefined && (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0)) {
+      throw new SessionWalletError("ttlSeconds must be a positive integer");
+    }
+    return manager.create(id || undefined, { allowance, ttlSeconds });
+  }, 201));
+
+  router.get("/session-wallets/:id", handle(async (req) => {
+    const wallet = manager.get(req.params.id);
+    if (!wallet) {
+      throw new SessionWalletError(`Session wallet ${req.params.id} not found`, 404);
+    }
+    const balance = await manager.balance(wallet).then(String, (error: any) => ({ error: error?.message || String(error) }));
+    return { ...wallet, balance };
+  }));
+
+  router.post("/session-wallets/:id/top-up", handle(req => manager.topUp(req.params.id, req.body?.amount)));
+  router.post("/session-wallets/:id/freeze", handle(req => manager.freeze(req.params.id)));
+  router.post("/session-wallets/:id/unfreeze", handle(req => manager.unfreeze(req.params.id)));
+  router.post("/session-wallets/:id/revoke", handle(req => manager.revoke(req.params.id)));
+
+  return router;
+}
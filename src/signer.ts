@@ -0,0 +1,351 @@
+import axios, { type AxiosInstance } from "axios";
+import {
+  getAddress,
+  hashMessage,
+  hashTypedData,
+  type Hex,
+  type LocalAccount,
+  type SignableMessage,
+  type TransactionSerializable,
+  type TypedDataDefinition,
+} from "viem";
+import { mnemonicToAccount, privateKeyToAccount, toAccount } from "viem/accounts";
+import type { WalletAddress } from "@coinbase/coinbase-sdk";
+import { decryptKeystore, readKeystore } from "./keystore.js";
+
+/**
+ * Signers
+ * Signing backends for x402 (EIP-712 / EIP-3009) and EVVM payment messages that never
+ * hand key material to their callers: a private key from the environment, a
+ * password-protected JSON keystore, a CDP wallet (signed through Coinbase's API) or a
+ * remote signer over HTTP. toViemAccount() adapts any of them to the viem account the
+ * payment interceptors sign with.
+ */
+
+export type SignerKind = "env" | "keystore" | "cdp" | "remote" | "derived";
+
+export interface Signer {
+  readonly kind: SignerKind;
+  getAddress(): Promise<`0x${string}`>;
+  signTypedData(data: TypedDataDefinition): Promise<Hex>;
+  signMessage(message: SignableMessage): Promise<Hex>;
+  /** Sign a raw 32-byte hash */
+  signHash(hash: Hex): Promise<Hex>;
+  signTransaction(transaction: TransactionSerializable): Promise<Hex>;
+}
+
+export type SignerConfig =
+  | { kind: "env"; privateKey: `0x${string}` }
+  | { kind: "keystore"; path: string; password: string }
+  | { kind: "remote"; url: string; token?: string };
+
+/**
+ * Environment variables one signer is configured from
+ */
+export interface SignerEnv {
+  /** Explicit backend (env, keystore, remote); otherwise the first one configured */
+  backend: string;
+  privateKey: string;
+  keystoreFile: string;
+  keystorePassword: string;
+  remoteUrl: string;
+  remoteToken: string;
+}
+
+/** The x402 wallet (CDP credentials are handled by WalletService) */
+export const WALLET_SIGNER_ENV: SignerEnv = {
+  backend: "SIGNER_BACKEND",
+  privateKey: "POLYGON_PRIVATE_KEY",
+  keystoreFile: "KEYSTORE_FILE",
+  keystorePassword: "KEYSTORE_PASSWORD",
+  remoteUrl: "REMOTE_SIGNER_URL",
+  remoteToken: "REMOTE_SIGNER_TOKEN",
+};
+
+/** The EVVM payer on Sepolia */
+export const EVVM_SIGNER_ENV: SignerEnv = {
+  backend: "EVVM_SIGNER_BACKEND",
+  privateKey: "EVVM_PRIVATE_KEY",
+  keystoreFile: "EVVM_KEYSTORE_FILE",
+  keystorePassword: "EVVM_KEYSTORE_PASSWORD",
+  remoteUrl: "EVVM_REMOTE_SIGNER_URL",
+  remoteToken: "EVVM_REMOTE_SIGNER_TOKEN",
+};
+
+/** The merchant's receiver wallet, for refunds */
+export const REFUND_SIGNER_ENV: SignerEnv = {
+  backend: "REFUND_SIGNER_BACKEND",
+  privateKey: "REFUND_PRIVATE_KEY",
+  keystoreFile: "REFUND_KEYSTORE_FILE",
+  keystorePassword: "REFUND_KEYSTORE_PASSWORD",
+  remoteUrl: "REFUND_REMOTE_SIGNER_URL",
+  remoteToken: "REFUND_REMOTE_SIGNER_TOKEN",
+};
+
+/**
+ * Signer config from the environment, or null when none of its variables are set
+ */
+export function signerConfigFromEnv(env: SignerEnv = WALLET_SIGNER_ENV): SignerConfig | null {
+  const read = (name: string) => process.env[name] || undefined;
+  const backend = read(env.backend)
+    || (read(env.keystoreFile) ? "keystore" : read(env.remoteUrl) ? "remote" : read(env.privateKey) ? "env" : undefined);
+
+  switch (backend) {
+    case undefined:
+      return null;
+    case "env":
+      if (!read(env.privateKey)) throw new Error(`${env.privateKey} is required for the env signer`);
+      return { kind: "env", privateKey: read(env.privateKey) as `0x${string}` };
+    case "keystore":
+      if (!read(env.keystoreFile) || read(env.keystorePassword) === undefined) {
+        throw new Error(`${env.keystoreFile} and ${env.keystorePassword} are required for the keystore signer`);
+      }
+      return { kind: "keystore", path: read(env.keystoreFile)!, password: read(env.keystorePassword)! };
+    case "remote":
+      if (!read(env.remoteUrl)) throw new Error(`${env.remoteUrl} is required for the remote signer`);
+      return { kind: "remote", url: read(env.remoteUrl)!, token: read(env.remoteToken) };
+    default:
+      throw new Error(`Unknown ${env.backend} "${backend}" (expected env, keystore or remote; CDP is configured with CDP_API_KEY_ID)`);
+  }
+}
+
+export function loadSigner(config: SignerConfig): Signer {
+  switch (config.kind) {
+    case "env":
+      return new EnvKeySigner(config.privateKey);
+    case "keystore":
+      return new KeystoreSigner(config.path, config.password);
+    case "remote":
+      return new RemoteSigner(config.url, config.token);
+  }
+}
+
+/**
+ * Viem account backed by a signer, for x402-axios and the EVVM client
+ */
+export async function toViemAccount(signer: Signer): Promise<LocalAccount> {
+  return toAccount({
+    address: await signer.getAddress(),
+    sign: ({ hash }) => signer.signHash(hash),
+    signMessage: ({ message }) => signer.signMessage(message),
+    signTypedData: (data) => signer.signTypedData(data as TypedDataDefinition),
+    signTransaction: (transaction) => signer.signTransaction(transaction),
+  });
+}
+
+/**
+ * Private key from the environment, held inside a viem account
+ */
+export class EnvKeySigner implements Signer {
+  readonly kind: SignerKind = "env";
+  private account: LocalAccount;
+
+  constructor(privateKey: `0x${string}`) {
+    this.account = privateKeyToAccount(privateKey);
+  }
+
+  async getAddress() {
+    return this.account.address;
+  }
+
+  signTypedData(data: TypedDataDefinition) {
+    return this.account.signTypedData(data);
+  }
+
+  signMessage(message: SignableMessage) {
+    return this.account.signMessage({ message });
+  }
+
+  signHash(hash: Hex) {
+    return this.account.sign!({ hash });
+  }
+
+  signTransaction(transaction: TransactionSerializable) {
+    return this.account.signTransaction(transaction);
+  }
+}
+
+/**
+ * Sub-account derived from a mnemonic at m/44'/60'/1'/0/<index> (session wallets).
+ * Account 1 keeps derived wallets apart from a treasury on the same mnemonic's account 0.
+ */
+export class DerivedKeySigner implements Signer {
+  readonly kind: SignerKind = "derived";
+  private account: LocalAccount;
+
+  constructor(mnemonic: string, index: number) {
+    this.account = mnemonicToAccount(mnemonic, { accountIndex: 1, addressIndex: index });
+  }
+
+  async getAddress() {
+    return this.account.address;
+  }
+
+  signTypedData(data: TypedDataDefinition) {
+    return this.account.signTypedData(data);
+  }
+
+  signMessage(message: SignableMessage) {
+    return this.account.signMessage({ message });
+  }
+
+  signHash(hash: Hex) {
+    return this.account.sign!({ hash });
+  }
+
+  signTransaction(transaction: TransactionSerializable) {
+    return this.account.signTransaction(transaction);
+  }
+}
+
+/**
+ * Password-protected JSON keystore, decrypted in memory on first signature
+ */
+export class KeystoreSigner implements Signer {
+  readonly kind: SignerKind = "keystore";
+  private path: string;
+  private password: string;
+  private account: LocalAccount | null = null;
+
+  constructor(path: string, password: string) {
+    this.path = path;
+    this.password = password;
+  }
+
+  async getAddress() {
+    // The keystore lists its address, so no decryption is needed
+    const { address } = readKeystore(this.path);
+    return getAddress(address.startsWith("0x") ? address : `0x${address}`);
+  }
+
+  async signTypedData(data: TypedDataDefinition) {
+    return this.unlock().signTypedData(data);
+  }
+
+  async signMessage(message: SignableMessage) {
+    return this.unlock().signMessage({ message });
+  }
+
+  async signHash(hash: Hex) {
+    return this.unlock().sign!({ hash });
+  }
+
+  async signTransaction(transaction: TransactionSerializable) {
+    return this.unlock().signTransaction(transaction);
+  }
+
+  private unlock(): LocalAccount {
+    if (!this.account) {
+      this.account = privateKeyToAccount(decryptKeystore(readKeystore(this.path), this.password));
+      console.log(`🔓 Keystore ${this.path} unlocked`);
+    }
+    return this.account;
+  }
+}
+
+/**
+ * CDP wallet address; hashes are signed by Coinbase (server signer or the imported seed)
+ */
+export class CdpSigner implements Signer {
+  readonly kind: SignerKind = "cdp";
+  private address: WalletAddress;
+
+  constructor(address: WalletAddress) {
+    this.address = address;
+  }
+
+  async getAddress() {
+    return this.address.getId() as `0x${string}`;
+  }
+
+  signTypedData(data: TypedDataDefinition) {
+    return this.signHash(hashTypedData(data));
+  }
+
+  signMessage(message: SignableMessage) {
+    return this.signHash(hashMessage(message));
+  }
+
+  async signHash(hash: Hex) {
+    const payload = await this.address.createPayloadSignature(hash);
+    const signed = await payload.wait({ timeoutSeconds: 30 });
+    const signature = signed.getSignature();
+    if (!signature) {
+      throw new Error(`CDP payload signature for ${hash} was not completed (status: ${signed.getStatus()})`);
+    }
+    return (signature.startsWith("0x") ? signature : `0x${signature}`) as Hex;
+  }
+
+  async signTransaction(): Promise<Hex> {
+    throw new Error("The CDP signer signs payment payloads only, not raw transactions");
+  }
+}
+
+/**
+ * JSON with bigints as decimal strings (typed data values, e.g. EIP-3009 amounts)
+ */
+export function toSignerJson(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v)));
+}
+
+/**
+ * Remote signer over HTTP (see remote-signer-server.ts for the protocol):
+ *   GET  /address            → { address }
+ *   POST /sign/typed-data    { typedData } → { signature }
+ *   POST /sign/message       { message }   → { signature }
+ *   POST /sign/hash          { hash }      → { signature }
+ */
+export class RemoteSigner implements Signer {
+  readonly kind: SignerKind = "remote";
+  private http: AxiosInstance;
+  private address: `0x${string}` | null = null;
+
+  constructor(url: string, token?: string) {
+    this.http = axios.create({
+      baseURL: url.replace(/\/+$/, ""),
+      timeout: 30000,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  async getAddress() {
+    if (!this.address) {
+      const { data } = await this.request(() => this.http.get("/address"));
+      this.address = data.address;
+    }
+    return this.address!;
+  }
+
+  async signTypedData(data: TypedDataDefinition) {
+    return this.sign("/sign/typed-data", { typedData: toSignerJson(data) });
+  }
+
+  async signMessage(message: SignableMessage) {
+    return this.sign("/sign/message", { message });
+  }
+
+  async signHash(hash: Hex) {
+    return this.sign("/sign/hash", { hash });
+  }
+
+  async signTransaction(): Promise<Hex> {
+    throw new Error("The remote signer signs payment payloads only, not raw transactions");
+  }
+
+  private async sign(path: string, body: Record<string, unknown>): Promise<Hex> {
+    const { data } = await this.request(() => this.http.post(path, body));
+    if (typeof data?.signature !== "string") {
+      throw new Error(`Remote signer returned no signature for ${path}`);
+    }
+    return data.signature as Hex;
+  }
+
+  private async request<T>(send: () => Promise<T>): Promise<T> {
+    try {
+      return await send();
+    } catch (error: any) {
+      const reason = error?.response?.data?.error || error?.message || String(error);
+      throw new Error(`Remote signer ${error?.config?.url || ""} failed: ${reason}`);
+    }
+  }
+}
@@ -0,0 +1,432 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { randomUUID } from "crypto";
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * Spending Policy Engine
+ * Sits between a merchant's 402 challenge and the payment signer so an agent
+ * can only pay for requests its policy allows.
+ *
+ * All amounts are atomic token units (the same unit as `maxAmountRequired`
+ * in the 402 `accepts` list) written as decimal strings. Top-level caps and
+ * budgets apply to each asset separately, because amounts of different
+ * tokens cannot be added together.
+ */
+
+export interface AssetLimits {
+  maxPerRequest?: string;
+  dailyBudget?: string;
+  weeklyBudget?: string;
+}
+
+export interface SpendingPolicy extends AssetLimits {
+  /** Hosts (`host` or `host:port`) the agent may pay. Omit to allow any host. */
+  allowedHosts?: string[];
+  /** Per-network caps. When set, networks not listed here are denied. */
+  networks?: Record<string, AssetLimits>;
+  /** Per-asset caps keyed by token address. When set, unlisted assets are denied. */
+  assets?: Record<string, AssetLimits>;
+}
+
+export interface SpendingPolicyFile {
+  /** Policies keyed by agent ID; `default` applies to agents without their own entry. */
+  agents: Record<string, SpendingPolicy>;
+}
+
+/**
+ * A single entry of a 402 response's `accepts` list (x402 and EVVM share these fields)
+ */
+export interface PaymentChallenge {
+  scheme?: string;
+  network: string;
+  maxAmountRequired: string;
+  asset: string;
+  payTo?: string;
+  resource?: string;
+  maxTimeoutSeconds?: number;
+  [key: string]: any;
+}
+
+export type PolicyRule =
+  | "no_policy"
+  | "no_payment_options"
+  | "host_not_allowed"
+  | "network_not_allowed"
+  | "asset_not_allowed"
+  | "max_per_request"
+  | "daily_budget"
+  | "weekly_budget"
+  | "network_max_per_request"
+  | "network_daily_budget"
+  | "network_weekly_budget"
+  | "asset_max_per_request"
+  | "asset_daily_budget"
+  | "asset_weekly_budget";
+
+export interface PolicyDenial {
+  rule: PolicyRule;
+  message: string;
+  agentId: string;
+  host?: string;
+  network?: string;
+  asset?: string;
+  amount?: string;
+  limit?: string;
+  spent?: string;
+}
+
+/**
+ * Thrown when no payment option in a 402 challenge passes the agent's policy
+ */
+export class PolicyDeniedError extends Error {
+  readonly denial: PolicyDenial;
+
+  constructor(denial: PolicyDenial) {
+    super(denial.message);
+    this.name = "PolicyDeniedError";
+    this.denial = denial;
+  }
+}
+
+interface SpendRecord {
+  id: string;
+  agentId: string;
+  network: string;
+  asset: string;
+  amount: bigint;
+  timestamp: number;
+  /** Pending reservations stop counting after this time unless committed */
+  pendingUntil?: number;
+}
+
+/**
+ * A payment made before the engine started (e.g. read back from the payment ledger)
+ */
+export interface PastSpend {
+  agentId: string;
+  network: string;
+  asset: string;
+  /** Atomic units as a decimal string */
+  amount: string;
+  /** ISO date or timestamp */
+  timestamp: string | number;
+}
+
+export interface PolicyAuthorization {
+  requirement: PaymentChallenge;
+  reservationId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const DEFAULT_RESERVATION_SECONDS = 60;
+
+export class PolicyEngine {
+  private policies: Record<string, SpendingPolicy>;
+  private records: SpendRecord[] = [];
+  private now: () => number;
+
+  constructor(file: SpendingPolicyFile, options: { now?: () => number } = {}) {
+    this.policies = file.agents || {};
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Get the policy that applies to an agent
+   */
+  getPolicy(agentId: string): SpendingPolicy | undefined {
+    return this.policies[agentId] || this.policies.default;
+  }
+
+  /**
+   * Pick the first payment option the policy allows and reserve its amount.
+   * Throws PolicyDeniedError describing the first rule that fired when none pass.
+   */
+  authorize(agentId: string, url: string, accepts: PaymentChallenge[]): PolicyAuthorization {
+    const host = hostOf(url);
+    const policy = this.getPolicy(agentId);
+
+    const agentDenial = this.checkAgent(agentId, host, policy);
+    if (agentDenial) {
+      throw new PolicyDeniedError(agentDenial);
+    }
+
+    if (!accepts || accepts.length === 0) {
+      throw new PolicyDeniedError({
+        rule: "no_payment_options",
+        message: `402 response from ${host} did not include any payment options`,
+        agentId,
+        host,
+      });
+    }
+
+    let firstDenial: PolicyDenial | null = null;
+
+    for (const requirement of accepts) {
+      const denial = this.check(agentId, host, policy!, requirement);
+      if (!denial) {
+        const reservationId = this.reserve(agentId, requirement);
+        return { requirement, reservationId };
+      }
+      firstDenial = firstDenial || denial;
+    }
+
+    throw new PolicyDeniedError(firstDenial!);
+  }
+
+  /**
+   * Why the policy would deny paying `requirement` for `url` right now, or null when it
+   * allows it. Nothing is reserved; authorize() does that when the payment is made.
+   */
+  evaluate(agentId: string, url: string, requirement: PaymentChallenge): PolicyDenial | null {
+    const host = hostOf(url);
+    const policy = this.getPolicy(agentId);
+    return this.checkAgent(agentId, host, policy) || this.check(agentId, host, policy!, requirement);
+  }
+
+  /**
+   * Mark a reservation as spent so it counts for the whole budget window
+   */
+  commit(reservationId: string): void {
+    const record = this.records.find(r => r.id === reservationId);
+    if (record) {
+      delete record.pendingUntil;
+    }
+  }
+
+  /**
+   * Drop a reservation whose payment never went through, or was given back afterwards
+   * (a held payment released, an upfront one refunded)
+   */
+  release(reservationId: string): void {
+    this.records = this.records.filter(r => r.id !== reservationId);
+  }
+
+  /**
+   * Count payments made before a restart toward the budgets, so restarting the
+   * server does not reset them. Spends older than the weekly window are ignored.
+   */
+  restore(spends: PastSpend[]): void {
+    const now = this.now();
+    for (const spend of spends) {
+      const timestamp = typeof spend.timestamp === "number" ? spend.timestamp : Date.parse(spend.timestamp);
+      if (!(now - timestamp < WEEK_MS)) continue;
+      this.records.push({
+        id: randomUUID(),
+        agentId: spend.agentId,
+        network: spend.network,
+        asset: spend.asset.toLowerCase(),
+        amount: BigInt(spend.amount),
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Total spent (including live reservations) by an agent within a window
+   */
+  spent(agentId: string, windowMs: number, filter: { network?: string; asset?: string } = {}): bigint {
+    const now = this.now();
+    this.records = this.records.filter(r => now - r.timestamp < WEEK_MS);
+
+    return this.records
+      .filter(r => r.agentId === agentId)
+      .filter(r => now - r.timestamp < windowMs)
+      .filter(r => r.pendingUntil === undefined || r.pendingUntil > now)
+      .filter(r => !filter.network || r.network === filter.network)
+      .filter(r => !filter.asset || r.asset === filter.asset)
+      .reduce((sum, r) => sum + r.amount, 0n);
+  }
+
+  private checkAgent(agentId: string, host: string, policy: SpendingPolicy | undefined): PolicyDenial | null {
+    if (!policy) {
+      return { rule: "no_policy", message: `No spending policy configured for agent "${agentId}"`, agentId, host };
+    }
+    if (policy.allowedHosts && !policy.allowedHosts.some(allowed => matchesHost(allowed, host))) {
+      return { rule: "host_not_allowed", message: `Host ${host} is not in the allowlist for agent "${agentId}"`, agentId, host };
+    }
+    return null;
+  }
+
+  private check(
+    agentId: string,
+    host: string,
+    policy: SpendingPolicy,
+    requirement: PaymentChallenge
+  ): PolicyDenial | null {
+    const network = requirement.network;
+    const asset = requirement.asset.toLowerCase();
+    const amount = BigInt(requirement.maxAmountRequired);
+    const base = { agentId, host, network, asset, amount: amount.toString() };
+
+    const networkLimits = policy.networks?.[network];
+    if (policy.networks && !networkLimits) {
+      return { ...base, rule: "network_not_allowed", message: `Network ${network} is not allowed for agent "${agentId}"` };
+    }
+
+    const assetLimits = findAsset(policy.assets, asset);
+    if (policy.assets && !assetLimits) {
+      return { ...base, rule: "asset_not_allowed", message: `Asset ${asset} is not allowed for agent "${agentId}"` };
+    }
+
+    const scopes: Array<{ prefix: "" | "network_" | "asset_"; limits?: AssetLimits; filter: { network?: string; asset?: string } }> = [
+      { prefix: "", limits: policy, filter: { asset } },
+      { prefix: "network_", limits: networkLimits, filter: { network, asset } },
+      { prefix: "asset_", limits: assetLimits, filter: { asset } },
+    ];
+
+    for (const { prefix, limits, filter } of scopes) {
+      if (!limits) continue;
+
+      if (limits.maxPerRequest !== undefined && amount > BigInt(limits.maxPerRequest)) {
+        return {
+          ...base,
+          rule: `${prefix}max_per_request` as PolicyRule,
+          message: `Payment of ${amount} exceeds the ${describe(prefix, network, asset)}per-request cap of ${limits.maxPerRequest}`,
+          limit: limits.maxPerRequest,
+        };
+      }
+
+      const windows: Array<["daily_budget" | "weekly_budget", string | undefined, number]> = [
+        ["daily_budget", limits.dailyBudget, DAY_MS],
+        ["weekly_budget", limits.weeklyBudget, WEEK_MS],
+      ];
+
+      for (const [rule, budget, windowMs] of windows) {
+        if (budget === undefined) continue;
+        const spent = this.spent(agentId, windowMs, filter);
+        if (spent + amount > BigInt(budget)) {
+          return {
+            ...base,
+            rule: `${prefix}${rule}` as PolicyRule,
+            message: `Payment of ${amount} would exceed the ${describe(prefix, network, asset)}${rule === "daily_budget" ? "daily" : "weekly"} budget of ${budget} (already spent ${spent})`,
+            limit: budget,
+            spent: spent.toString(),
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private reserve(agentId: string, requirement: PaymentChallenge): string {
+    const now = this.now();
+    const record: SpendRecord = {
+      id: randomUUID(),
+      agentId,
+      network: requirement.network,
+      asset: requirement.asset.toLowerCase(),
+      amount: BigInt(requirement.maxAmountRequired),
+      timestamp: now,
+      pendingUntil: now + (requirement.maxTimeoutSeconds || DEFAULT_RESERVATION_SECONDS) * 1000,
+    };
+    this.records.push(record);
+    return record.id;
+  }
+}
+
+function describe(prefix: string, network: string, asset: string): string {
+  if (prefix === "network_") return `${network} `;
+  if (prefix === "asset_") return `${asset} `;
+  return "";
+}
+
+function findAsset(assets: Record<string, AssetLimits> | undefined, asset: string): AssetLimits | undefined {
+  if (!assets) return undefined;
+  const key = Object.keys(assets).find(k => k.toLowerCase() === asset);
+  return key ? assets[key] : undefined;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function matchesHost(allowed: string, host: string): boolean {
+  const hostname = host.split(":")[0];
+  return allowed === host || allowed === hostname;
+}
+
+/**
+ * Load a spending policy file (.json, .yaml or .yml)
+ */
+export function loadSpendingPolicy(path: string): SpendingPolicyFile {
+  const raw = readFileSync(path, "utf-8");
+  const ext = extname(path).toLowerCase();
+  const parsed = ext === ".yaml" || ext === ".yml" ? parseYaml(raw) : JSON.parse(raw);
+
+  if (!parsed || typeof parsed !== "object" || typeof parsed.agents !== "object") {
+    throw new Error(`Invalid spending policy file ${path}: expected an "agents" map`);
+  }
+
+  return parsed as SpendingPolicyFile;
+}
+
+type PolicyRequestConfig = InternalAxiosRequestConfig & {
+  __is402Retry?: boolean;
+  __policyReservation?: string;
+};
+
+/**
+ * Enforce a spending policy on an axios instance.
+ * Must be applied BEFORE withPaymentInterceptor / withEVVMPaymentInterceptor so the
+ * 402 challenge is narrowed to the single allowed option before anything is signed.
+ */
+export function withSpendingPolicy<T extends AxiosInstance>(client: T, engine: PolicyEngine, agentId: string): T {
+  client.interceptors.response.use(
+    (response) => {
+      const reservation = (response.config as PolicyRequestConfig).__policyReservation;
+      if (reservation) {
+        engine.commit(reservation);
+      }
+      return response;
+    },
+    async (error) => {
+      const config = error.config as PolicyRequestConfig | undefined;
+
+      if (!error.response || error.response.status !== 402 || !config || config.__is402Retry) {
+        // The paid retry failed, so nothing was spent
+        if (config?.__policyReservation) {
+          engine.release(config.__policyReservation);
+        }
+        return Promise.reject(error);
+      }
+
+      const accepts: PaymentChallenge[] = error.response.data?.accepts || [];
+
+      try {
+        const { requirement, reservationId } = engine.authorize(agentId, client.getUri(config), accepts);
+        config.__policyReservation = reservationId;
+        error.response.data = { ...error.response.data, accepts: [requirement] };
+      } catch (policyError) {
+        return Promise.reject(policyError);
+      }
+
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+}
+
+/**
+ * Settle the reservation of a paid request the merchant answered with a job (202). It was
+ * committed with the 202 and counts while the job runs; when the job failed and its
+ * payment was released or refunded, nothing was spent and the budget gets it back.
+ */
+export function settleJobReservation(
+  engine: PolicyEngine,
+  response: AxiosResponse,
+  job: { status: string; payment?: { status: string } }
+): void {
+  const reservation = (response.config as PolicyRequestConfig).__policyReservation;
+  if (reservation && job.status === "failed" && (job.payment?.status === "released" || job.payment?.status === "refunded")) {
+    engine.release(reservation);
+  }
+}
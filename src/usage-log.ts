@@ -0,0 +1,174 @@
+import { Router } from "express";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { dirname } from "path";
+import type { RunUsage } from "./agent-usage.js";
+
+/**
+ * Usage Log
+ * One JSONL line per agent run behind a paid route: the run's tokens and estimated LLM
+ * cost next to what the caller paid for it, summarized per route and day so routes can
+ * be priced above what they cost to serve.
+ */
+
+export interface UsageRecord {
+  timestamp: string;
+  /** e.g. "POST /request-uber" */
+  route: string;
+  jobId?: string;
+  /** Agent outcome, or "error" */
+  status: string;
+  usage: RunUsage;
+  payment?: {
+    scheme: string;
+    network: string;
+    /** Atomic units (6-decimal USDC on both rails) */
+    amount?: string;
+    asset?: string;
+    /** Settled and not refunded or released */
+    kept: boolean;
+  };
+}
+
+export interface UsageFilter {
+  route?: string;
+  /** ISO date or timestamp, inclusive */
+  from?: string;
+  /** ISO date or timestamp, exclusive */
+  to?: string;
+}
+
+export interface UsageSummaryRow {
+  route: string;
+  /** YYYY-MM-DD (UTC) */
+  day: string;
+  runs: number;
+  succeeded: number;
+  steps: number;
+  toolCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated LLM cost of the runs that have a model price */
+  llmCostUsd: number;
+  /** Runs whose model has no price (not in llmCostUsd) */
+  unpricedRuns: number;
+  /** Payments kept for these runs */
+  revenueUsd: number;
+  marginUsd: number;
+}
+
+const USDC_DECIMALS = 6;
+
+const round = (value: number) => Math.round(value * 1e8) / 1e8;
+
+export class UsageLog {
+  private path: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  append(record: UsageRecord): Promise<void> {
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, JSON.stringify(record) + "\n", "utf-8");
+      })
+      .catch(error => {
+        console.error("Failed to write usage record:", error);
+      });
+    return this.writes;
+  }
+
+  async readRecords(filter: UsageFilter = {}): Promise<UsageRecord[]> {
+    await this.writes;
+
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return [];
+      throw error;
+    }
+
+    return raw
+      .split("\n")
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as UsageRecord)
+      .filter(record =>
+        (!filter.route || record.route === filter.route) &&
+        (!filter.from || record.timestamp >= filter.from) &&
+        (!filter.to || record.timestamp < filter.to));
+  }
+
+  /**
+   * Totals per route and day, oldest day first
+   */
+  async summarize(filter: UsageFilter = {}): Promise<UsageSummaryRow[]> {
+    const rows = new Map<string, UsageSummaryRow>();
+
+    for (const record of await this.readRecords(filter)) {
+      const day = record.timestamp.slice(0, 10);
+      const key = `${record.route}|${day}`;
+      const row = rows.get(key) || {
+        route: record.route, day, runs: 0, succeeded: 0, steps: 0, toolCalls: 0, promptTokens: 0, completionTokens: 0,
+        llmCostUsd: 0, unpricedRuns: 0, revenueUsd: 0, marginUsd: 0,
+      };
+
+      row.runs++;
+      row.succeeded += record.status === "success" ? 1 : 0;
+      row.steps += record.usage.steps;
+      row.toolCalls += record.usage.toolCalls;
+      row.promptTokens += record.usage.promptTokens;
+      row.completionTokens += record.usage.completionTokens;
+      if (record.usage.costUsd === undefined) {
+        row.unpricedRuns++;
+      } else {
+        row.llmCostUsd = round(row.llmCostUsd + record.usage.costUsd);
+      }
+      if (record.payment?.kept && record.payment.amount) {
+        row.revenueUsd = round(row.revenueUsd + Number(record.payment.amount) / 10 ** USDC_DECIMALS);
+      }
+      row.marginUsd = round(row.revenueUsd - row.llmCostUsd);
+      rows.set(key, row);
+    }
+
+    return [...rows.values()].sort((a, b) => a.day.localeCompare(b.day) || a.route.localeCompare(b.route));
+  }
+}
+
+/**
+ * Free usage endpoints
+ *
+ *   GET /usage?route=POST%20/request-uber&from=2025-01-01&to=2025-02-01   per route and day
+ *   GET /usage/runs?route=...&limit=50                                     latest runs
+ */
+export function createUsageRouter(log: UsageLog): Router {
+  const router = Router();
+  const filterOf = (query: Record<string, any>): UsageFilter => ({
+    route: typeof query.route === "string" ? query.route : undefined,
+    from: typeof query.from === "string" ? query.from : undefined,
+    to: typeof query.to === "string" ? query.to : undefined,
+  });
+
+  router.get("/usage", async (req, res, next) => {
+    try {
+      const rows = await log.summarize(filterOf(req.query));
+      res.json({ rows });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/usage/runs", async (req, res, next) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 50, 500);
+      const runs = (await log.readRecords(filterOf(req.query))).reverse().slice(0, limit);
+      res.json({ runs });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,39 +1,75 @@
 import { Coinbase, Wallet } from "@coinbase/coinbase-sdk";
-import { createWalletClient, http } from "viem";
-import { baseSepolia, polygonAmoy } from "viem/chains";
-import { privateKeyToAccount } from "viem/accounts";
+import { createWalletClient, erc20Abi, formatUnits, http, type LocalAccount } from "viem";
+import { ChainRegistry, chainRegistry } from "./chain-registry.js";
+import { CdpSigner, Signer, loadSigner, signerConfigFromEnv, toViemAccount } from "./signer.js";
 import { config } from "dotenv";
 
 config();
 
+/**
+ * One native or token balance of an address on one network
+ */
+export interface WalletBalance {
+  network: string;
+  chainId: number;
+  address: string;
+  /** Token symbol, or the chain's native symbol */
+  asset: string;
+  native: boolean;
+  token?: `0x${string}`;
+  /** Atomic units */
+  balance?: string;
+  formatted?: string;
+  decimals: number;
+  error?: string;
+}
+
+export interface BalanceQuery {
+  /** Defaults to this wallet's address */
+  address?: string;
+  /** Defaults to every network in the chain registry */
+  networks?: string[];
+  /** Token symbols or addresses (default: every token listed for the network) */
+  tokens?: string[];
+  /** Include the native coin (default true) */
+  native?: boolean;
+}
+
 /**
  * Backend Wallet Service
  * This service manages wallets server-side for secure payment handling
- * Supports both CDP Wallet SDK (Base) and private key mode (Polygon)
+ * Supports both CDP Wallet SDK (Base) and signer mode (Polygon): an env key, an
+ * encrypted keystore or a remote signer. Payments are signed through a Signer, so
+ * key material never leaves its backend.
+ * Balances are read on-chain for every network in the chain registry
  */
 export class WalletService {
   private wallet: Wallet | null = null;
   private walletAddress: string | null = null;
-  private privateKey: `0x${string}` | null = null;
-  private usePrivateKeyMode: boolean = false;
+  private signer: Signer | null = null;
+  private account: LocalAccount | null = null;
+  private useSignerMode: boolean = false;
+  private chains: ChainRegistry;
+
+  constructor(chains: ChainRegistry = chainRegistry) {
+    this.chains = chains;
+  }
 
   /**
    * Initialize the wallet service
    */
   async initialize(): Promise<void> {
-    if (this.wallet || this.privateKey) {
+    if (this.signer) {
       return; // Already initialized
     }
 
-    // Check if we should use private key mode (for Polygon)
-    if (process.env.POLYGON_PRIVATE_KEY) {
-      console.log("🔑 Using private key mode for Polygon...");
-      this.usePrivateKeyMode = true;
-      this.privateKey = process.env.POLYGON_PRIVATE_KEY as `0x${string}`;
-
-      // Derive address from private key
-      const account = privateKeyToAccount(this.privateKey);
-      this.walletAddress = account.address;
+    // Check if we should use signer mode (for Polygon): env key, keystore or remote signer
+    const signerConfig = signerConfigFromEnv();
+    if (signerConfig) {
+      console.log(`🔑 Using ${signerConfig.kind} signer for Polygon...`);
+      this.useSignerMode = true;
+      this.signer = loadSigner(signerConfig);
+      this.walletAddress = await this.signer.getAddress();
       console.log(`✅ Wallet initialized: ${this.walletAddress}`);
       return;
     }
@@ -41,7 +77,7 @@ export class WalletService {
     // Fall back to CDP Wallet SDK (for Base)
     if (!process.env.CDP_API_KEY_ID || !process.env.CDP_API_KEY_SECRET) {
       throw new Error(
-        "Please set either POLYGON_PRIVATE_KEY or (CDP_API_KEY_ID + CDP_API_KEY_SECRET) in your .env file"
+        "Please set POLYGON_PRIVATE_KEY, KEYSTORE_FILE, REMOTE_SIGNER_URL or (CDP_API_KEY_ID + CDP_API_KEY_SECRET) in your .env file"
       );
     }
 
@@ -80,18 +116,50 @@ export class WalletService {
 
     const address = await this.wallet.getDefaultAddress();
     this.walletAddress = address.getId();
+    // Payloads are signed through the CDP API; the key is never exported
+    this.signer = new CdpSigner(address);
     console.log(`✅ Wallet initialized: ${this.walletAddress}`);
   }
 
+  /**
+   * Whether a signer or CDP credentials are configured (without initializing)
+   */
+  isConfigured(): boolean {
+    return Boolean(
+      this.signer || signerConfigFromEnv() ||
+      (process.env.CDP_API_KEY_ID && process.env.CDP_API_KEY_SECRET)
+    );
+  }
+
+  /**
+   * Signer for payment payloads (auto-initialize if needed)
+   */
+  async getSigner(): Promise<Signer> {
+    if (!this.signer) {
+      await this.initialize();
+    }
+    return this.signer!;
+  }
+
+  /**
+   * Viem account backed by the signer, for x402-axios and viem wallet clients
+   */
+  async getAccount(): Promise<LocalAccount> {
+    if (!this.account) {
+      this.account = await toViemAccount(await this.getSigner());
+    }
+    return this.account;
+  }
+
   /**
    * Get or create the wallet (auto-initialize if needed)
    */
   async getWallet(): Promise<Wallet> {
-    if (!this.wallet && !this.usePrivateKeyMode) {
+    if (!this.signer) {
       await this.initialize();
     }
-    if (this.usePrivateKeyMode) {
-      throw new Error("Wallet object not available in private key mode");
+    if (this.useSignerMode) {
+      throw new Error("Wallet object not available in signer mode");
     }
     return this.wallet!;
   }
@@ -100,7 +168,7 @@ export class WalletService {
    * Get wallet address
    */
   async getAddress(): Promise<string> {
-    if (!this.wallet && !this.privateKey) {
+    if (!this.signer) {
       await this.initialize();
     }
     return this.walletAddress!;
@@ -110,7 +178,7 @@ export class WalletService {
    * Get wallet ID
    */
   async getWalletId(): Promise<string> {
-    if (this.usePrivateKeyMode) {
+    if (this.useSignerMode) {
       return this.walletAddress || "";
     }
     if (!this.wallet) {
@@ -121,16 +189,27 @@ export class WalletService {
   }
 
   /**
-   * Get balance for a specific asset
+   * Get balance for a specific asset ("eth"/"native" or a token symbol or address)
    */
-  async getBalance(asset: string = "usdc"): Promise<string> {
-    if (this.usePrivateKeyMode) {
-      // Balance checking not implemented for private key mode
-      return "N/A";
+  async getBalance(asset: string = "usdc", network: string = "polygon-amoy"): Promise<string> {
+    if (!this.signer) {
+      await this.initialize();
     }
 
-    if (!this.wallet) {
-      await this.initialize();
+    if (this.useSignerMode) {
+      const native = ["native", "eth", "pol", "matic"].includes(asset.toLowerCase());
+      const [balance] = await this.getBalances({
+        networks: [network],
+        tokens: native ? [] : [asset],
+        native,
+      });
+      if (!balance) {
+        throw new Error(`Token "${asset}" is not configured for ${network}`);
+      }
+      if (balance.error) {
+        throw new Error(`Could not read ${asset} balance on ${network}: ${balance.error}`);
+      }
+      return balance.formatted!;
     }
 
     try {
@@ -143,48 +222,85 @@ export class WalletService {
   }
 
   /**
-   * Export private key for use with x402-axios
+   * ERC-20 balance in atomic units (of this wallet unless an address is given),
+   * or null on networks missing from the chain registry
    */
-  async getPrivateKey(): Promise<`0x${string}`> {
-    if (!this.wallet && !this.privateKey) {
-      await this.initialize();
+  async getTokenBalance(network: string, token: `0x${string}`, address?: string): Promise<bigint | null> {
+    if (!this.chains.has(network)) {
+      return null;
     }
 
-    // If using private key mode, return it directly
-    if (this.usePrivateKeyMode && this.privateKey) {
-      return this.privateKey;
-    }
+    const owner = (address || await this.getAddress()) as `0x${string}`;
+    return this.chains.publicClient(network).readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [owner],
+    });
+  }
+
+  /**
+   * Native and token balances across the chain registry; a network that can't be
+   * reached reports an error on its entries instead of failing the whole query
+   */
+  async getBalances(query: BalanceQuery = {}): Promise<WalletBalance[]> {
+    const address = query.address || await this.getAddress();
+    const networks = query.networks || this.chains.networks();
+
+    const perNetwork = await Promise.all(networks.map(async network => {
+      const chain = this.chains.get(network);
+      const client = this.chains.publicClient(network);
+      const nativeSymbol = chain.nativeSymbol || client.chain?.nativeCurrency.symbol || "ETH";
 
-    // Otherwise export from CDP wallet
-    const address = await this.wallet!.getDefaultAddress();
-    const privateKey = await address.export();
-    return privateKey as `0x${string}`;
+      const tokens = query.tokens
+        ? query.tokens.map(t => this.chains.token(network, t)).filter((t): t is NonNullable<typeof t> => t !== undefined)
+        : Object.entries(chain.tokens).map(([symbol, token]) => ({ symbol, ...token }));
+
+      const reads: Array<Promise<WalletBalance>> = tokens.map(async token => {
+        const entry = { network, chainId: chain.chainId, address, asset: token.symbol.toUpperCase(), native: false, token: token.address, decimals: token.decimals };
+        try {
+          const balance = await client.readContract({
+            address: token.address,
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            args: [address as `0x${string}`],
+          });
+          return { ...entry, balance: balance.toString(), formatted: formatUnits(balance, token.decimals) };
+        } catch (error: any) {
+          return { ...entry, error: error?.shortMessage || error?.message || String(error) };
+        }
+      });
+
+      if (query.native !== false) {
+        reads.unshift((async () => {
+          const entry = { network, chainId: chain.chainId, address, asset: nativeSymbol, native: true, decimals: 18 };
+          try {
+            const balance = await client.getBalance({ address: address as `0x${string}` });
+            return { ...entry, balance: balance.toString(), formatted: formatUnits(balance, 18) };
+          } catch (error: any) {
+            return { ...entry, error: error?.shortMessage || error?.message || String(error) };
+          }
+        })());
+      }
+
+      return Promise.all(reads);
+    }));
+
+    return perNetwork.flat();
   }
 
   /**
    * Create a viem wallet client for signing transactions
    */
-  async createViemWalletClient(network: "base-sepolia" | "polygon-amoy" = "polygon-amoy") {
-    if (!this.wallet && !this.privateKey) {
+  async createViemWalletClient(network: string = "polygon-amoy") {
+    if (!this.signer) {
       await this.initialize();
     }
 
-    let privateKey: `0x${string}`;
-
-    // Get private key from either mode
-    if (this.usePrivateKeyMode && this.privateKey) {
-      privateKey = this.privateKey;
-    } else {
-      const address = await this.wallet!.getDefaultAddress();
-      privateKey = (await address.export()) as `0x${string}`;
-    }
-
-    // Create viem account and wallet client
-    const account = privateKeyToAccount(privateKey);
-    const chain = network === "polygon-amoy" ? polygonAmoy : baseSepolia;
+    // Create wallet client on the signer-backed account
     const walletClient = createWalletClient({
-      account,
-      chain,
+      account: await this.getAccount(),
+      chain: this.chains.viemChain(network),
       transport: http(),
     });
 
@@ -195,7 +311,7 @@ export class WalletService {
    * Display wallet information
    */
   async displayWalletInfo(): Promise<void> {
-    if (!this.wallet && !this.privateKey) {
+    if (!this.signer) {
       await this.initialize();
     }
 
@@ -204,9 +320,13 @@ export class WalletService {
     console.log("═".repeat(70));
     console.log(`📍 Address: ${this.walletAddress}`);
 
-    if (this.usePrivateKeyMode) {
-      console.log(`🔑 Mode: Private Key (Polygon)`);
+    if (this.useSignerMode) {
+      console.log(`🔑 Mode: ${this.signer!.kind} signer (Polygon)`);
       console.log(`🌐 Network: Polygon Amoy (Testnet)`);
+
+      for (const balance of await this.getBalances({ networks: ["polygon-amoy"] })) {
+        console.log(`💰 ${balance.asset} Balance: ${balance.error ? `unavailable (${balance.error})` : `${balance.formatted} ${balance.asset}`}`);
+      }
       console.log(`🔗 View on explorer: https://amoy.polygonscan.com/address/${this.walletAddress}`);
     } else {
       console.log(`🆔 Wallet ID: ${this.wallet!.getId()}`);